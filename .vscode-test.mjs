@@ -0,0 +1,10 @@
+import { defineConfig } from '@vscode/test-cli';
+
+// Runs the compiled tests (npm run compile-tests) inside VS Code with mocha's TDD interface
+export default defineConfig({
+    files: 'out/test/**/*.test.js',
+    mocha: {
+        ui: 'tdd',
+        timeout: 10000
+    }
+});
@@ -0,0 +1,187 @@
+// @ts-check
+/// <reference path="./webview.d.ts" />
+// Script for the DeepSeek chat webview. Runs under a strict CSP: no inline
+// handlers, and model output only arrives as HTML rendered (and escaped) by
+// the extension.
+(function () {
+    const vscode = acquireVsCodeApi();
+    const chatContainer = /** @type {HTMLElement} */ (document.getElementById('chat-container'));
+    const input = /** @type {HTMLTextAreaElement} */ (document.getElementById('input'));
+    const sendButton = /** @type {HTMLElement} */ (document.getElementById('send'));
+    const stopButton = /** @type {HTMLElement} */ (document.getElementById('stop'));
+    const clearButton = /** @type {HTMLElement} */ (document.getElementById('clear'));
+    const contextUsage = /** @type {HTMLElement} */ (document.getElementById('context-usage'));
+
+    // Bubble that receives incremental response chunks
+    /** @type {HTMLElement | null} */
+    let currentResponse = null;
+
+    /**
+     * Adds a message bubble
+     * @param {string} role 'user' or 'assistant'
+     * @param {string} text Plain text (user messages)
+     * @param {string} [html] Rendered HTML from the extension (assistant messages)
+     * @returns {HTMLElement} The element holding the message content
+     */
+    function addMessage(role, text, html) {
+        const message = document.createElement('div');
+        message.className = 'message ' + (role === 'user' ? 'user' : 'bot');
+
+        const label = document.createElement('strong');
+        label.textContent = role === 'user' ? 'You:' : 'DeepSeek:';
+        message.appendChild(label);
+
+        const content = document.createElement('div');
+        content.className = 'content';
+        if (html !== undefined) {
+            content.innerHTML = html;
+        } else {
+            content.textContent = text;
+        }
+        message.appendChild(content);
+
+        chatContainer.appendChild(message);
+        chatContainer.scrollTop = chatContainer.scrollHeight;
+        return content;
+    }
+
+    /**
+     * Adds an error bubble with buttons that can fix the error
+     * @param {string} text Error message
+     * @param {{ action: string, label: string }[]} actions Buttons to show
+     */
+    function addError(text, actions) {
+        const message = document.createElement('div');
+        message.className = 'message error';
+
+        const label = document.createElement('strong');
+        label.textContent = 'Error:';
+        message.appendChild(label);
+
+        const content = document.createElement('div');
+        content.className = 'content';
+        content.textContent = text;
+        message.appendChild(content);
+
+        const buttons = document.createElement('div');
+        buttons.className = 'error-actions';
+        for (const { action, label } of actions) {
+            const button = document.createElement('button');
+            button.className = 'error-action';
+            button.dataset.action = action;
+            button.textContent = label;
+            buttons.appendChild(button);
+        }
+        message.appendChild(buttons);
+
+        chatContainer.appendChild(message);
+        chatContainer.scrollTop = chatContainer.scrollHeight;
+    }
+
+    function sendQuery() {
+        const text = input.value.trim();
+        if (!text) {
+            return;
+        }
+
+        addMessage('user', text);
+        vscode.postMessage({ type: 'query', text: text });
+
+        input.value = '';
+        setStreaming(true);
+    }
+
+    function clearChat() {
+        chatContainer.innerHTML = '';
+        contextUsage.textContent = '';
+        currentResponse = null;
+        setStreaming(false);
+        vscode.postMessage({ type: 'clear' });
+    }
+
+    /**
+     * @param {boolean} streaming Whether an answer is streaming
+     */
+    function setStreaming(streaming) {
+        sendButton.style.display = streaming ? 'none' : 'inline-block';
+        stopButton.style.display = streaming ? 'inline-block' : 'none';
+    }
+
+    sendButton.addEventListener('click', sendQuery);
+    stopButton.addEventListener('click', () => vscode.postMessage({ type: 'stop' }));
+    clearButton.addEventListener('click', clearChat);
+
+    // Copy / Insert / Apply buttons rendered on every code block, and the buttons of errors
+    chatContainer.addEventListener('click', event => {
+        const target = /** @type {HTMLElement} */ (event.target);
+        const errorButton = /** @type {HTMLElement | null} */ (target.closest('.error-action'));
+        if (errorButton) {
+            const action = errorButton.dataset.action;
+            vscode.postMessage({ type: 'errorAction', action: action });
+
+            // Retries resend the question, so this error's buttons are done with
+            if (action === 'retry' || action === 'reduceContext') {
+                errorButton.parentElement?.remove();
+                setStreaming(true);
+            }
+            return;
+        }
+
+        const button = target.closest('.code-action');
+        if (!button) {
+            return;
+        }
+
+        const block = /** @type {HTMLElement} */ (button.closest('.code-block'));
+        const code = block.querySelector('pre code')?.textContent ?? '';
+        const language = block.dataset.language ?? '';
+
+        switch (/** @type {HTMLElement} */ (button).dataset.action) {
+            case 'copy':
+                vscode.postMessage({ type: 'copy', text: code });
+                break;
+            case 'insert':
+                vscode.postMessage({ type: 'insert', text: code });
+                break;
+            case 'apply':
+                vscode.postMessage({ type: 'apply', text: '```' + language + '\n' + code + '\n```' });
+                break;
+        }
+    });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'response') {
+            if (!currentResponse && message.html) {
+                currentResponse = addMessage('assistant', '', '');
+            }
+
+            if (currentResponse && message.html !== undefined) {
+                currentResponse.innerHTML = message.html;
+                chatContainer.scrollTop = chatContainer.scrollHeight;
+            }
+
+            if (message.isFinal) {
+                currentResponse = null;
+                setStreaming(false);
+            }
+        } else if (message.type === 'query') {
+            // Question asked from outside the webview, e.g. the Ask Deepseek command
+            addMessage('user', message.text);
+            setStreaming(true);
+        } else if (message.type === 'error') {
+            addError(message.text, message.actions);
+        } else if (message.type === 'contextUsage') {
+            // e.g. "context: 12.3k / 64k tokens"
+            contextUsage.textContent = message.text;
+            contextUsage.title = message.title;
+        } else if (message.type === 'history') {
+            chatContainer.innerHTML = '';
+            for (const turn of message.messages) {
+                addMessage(turn.role, turn.content, turn.html);
+            }
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,491 @@
+// @ts-check
+/// <reference path="./webview.d.ts" />
+// Script for the dependency graph webview. Lays the files out with a simple
+// force-directed simulation and draws them as SVG; the extension only sends
+// the JSON export of the graph, never markup.
+(function () {
+    const vscode = acquireVsCodeApi();
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+
+    const svg = /** @type {SVGSVGElement} */ (/** @type {unknown} */ (document.getElementById('graph')));
+    const viewport = /** @type {SVGGElement} */ (/** @type {unknown} */ (document.getElementById('viewport')));
+    const folderFilter = /** @type {HTMLSelectElement} */ (document.getElementById('folder-filter'));
+    const focusEnabled = /** @type {HTMLInputElement} */ (document.getElementById('focus-enabled'));
+    const focusHops = /** @type {HTMLInputElement} */ (document.getElementById('focus-hops'));
+    const resetButton = /** @type {HTMLElement} */ (document.getElementById('reset-view'));
+    const status = /** @type {HTMLElement} */ (document.getElementById('status'));
+    const typeFilters = /** @type {HTMLInputElement[]} */ (Array.from(document.querySelectorAll('.type-filter')));
+
+    // Ideal distance between connected files
+    const EDGE_LENGTH = 80;
+    // Files further apart than this do not repel, so only files in neighbouring grid cells are compared
+    const REPULSION_RANGE = 4 * EDGE_LENGTH;
+    // Above this many visible files new files keep their starting position instead of being simulated
+    const MAX_SIMULATED = 3000;
+    // Above this many visible files only the hovered file shows its name
+    const MAX_LABELS = 300;
+
+    // Node ids are workspace-relative paths
+    /** @typedef {{ id: string, folder: string, type: string }} GraphNode */
+    /** @typedef {{ source: string, target: string, type: string, inCycle: boolean }} GraphEdge */
+
+    /** @type {GraphNode[]} */
+    let nodes = [];
+    /** @type {GraphEdge[]} */
+    let edges = [];
+    /** @type {string | undefined} */
+    let focusId;
+
+    // Positions survive redraws so the picture stays stable while filtering
+    /** @type {Map<string, { x: number, y: number }>} */
+    const positions = new Map();
+
+    // Pan and zoom of the viewport
+    const view = { x: 0, y: 0, scale: 1 };
+
+    /**
+     * Lists every folder containing files, including parent folders
+     * @param {GraphNode[]} graphNodes Files of the graph
+     * @returns {string[]} Sorted folder paths
+     */
+    function collectFolders(graphNodes) {
+        const folders = new Set();
+        for (const node of graphNodes) {
+            const segments = node.folder ? node.folder.split('/') : [];
+            for (let i = 1; i <= segments.length; i++) {
+                folders.add(segments.slice(0, i).join('/'));
+            }
+        }
+        return Array.from(folders).sort();
+    }
+
+    /**
+     * Takes over a graph in the extension's JSON export format
+     * @param {{ nodes: { id: string, type: string }[], edges: { source: string, target: string, type: string, inCycle?: boolean }[] }} graph Exported graph
+     */
+    function readGraph(graph) {
+        nodes = graph.nodes.map(node => ({
+            id: node.id,
+            folder: node.id.includes('/') ? node.id.slice(0, node.id.lastIndexOf('/')) : '',
+            type: node.type
+        }));
+        edges = graph.edges.map(edge => ({
+            source: edge.source,
+            target: edge.target,
+            type: edge.type,
+            inCycle: !!edge.inCycle
+        }));
+    }
+
+    function updateFolderOptions() {
+        const selected = folderFilter.value;
+        while (folderFilter.options.length > 1) {
+            folderFilter.remove(1);
+        }
+        for (const folder of collectFolders(nodes)) {
+            const option = document.createElement('option');
+            option.value = folder;
+            option.textContent = folder;
+            folderFilter.appendChild(option);
+        }
+        folderFilter.value = collectFolders(nodes).includes(selected) ? selected : '';
+    }
+
+    /**
+     * Applies the folder, type and focus filters
+     * @returns {{ nodes: GraphNode[], edges: GraphEdge[] }} What should be drawn
+     */
+    function getVisibleGraph() {
+        const folder = folderFilter.value;
+        const types = new Set(typeFilters.filter(input => input.checked).map(input => input.value));
+
+        let visibleNodes = nodes.filter(node => !folder || node.folder === folder || node.folder.startsWith(folder + '/'));
+        let ids = new Set(visibleNodes.map(node => node.id));
+        let visibleEdges = edges.filter(edge => types.has(edge.type) && ids.has(edge.source) && ids.has(edge.target));
+
+        // Keep files within N imports of the focused file, in either direction
+        if (focusEnabled.checked && focusId && ids.has(focusId)) {
+            const maxHops = Math.max(1, parseInt(focusHops.value, 10) || 1);
+            /** @type {Map<string, string[]>} */
+            const neighbours = new Map();
+            const link = (/** @type {string} */ from, /** @type {string} */ to) => {
+                const list = neighbours.get(from);
+                if (list) {
+                    list.push(to);
+                } else {
+                    neighbours.set(from, [to]);
+                }
+            };
+            for (const edge of visibleEdges) {
+                link(edge.source, edge.target);
+                link(edge.target, edge.source);
+            }
+
+            const reached = new Set([focusId]);
+            let frontier = [focusId];
+            for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+                /** @type {string[]} */
+                const next = [];
+                for (const id of frontier) {
+                    for (const neighbour of neighbours.get(id) ?? []) {
+                        if (!reached.has(neighbour)) {
+                            reached.add(neighbour);
+                            next.push(neighbour);
+                        }
+                    }
+                }
+                frontier = next;
+            }
+
+            ids = reached;
+            visibleNodes = visibleNodes.filter(node => ids.has(node.id));
+            visibleEdges = visibleEdges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+        }
+
+        return { nodes: visibleNodes, edges: visibleEdges };
+    }
+
+    /**
+     * Places the visible files with a Fruchterman-Reingold style simulation,
+     * starting from their previous positions when they have one
+     * @param {GraphNode[]} graphNodes Files to place
+     * @param {GraphEdge[]} graphEdges Dependencies pulling files together
+     */
+    function layout(graphNodes, graphEdges) {
+        const unplaced = graphNodes.filter(node => !positions.has(node.id));
+        unplaced.forEach((node, index) => {
+            // New files start on a spiral so no two share a position
+            const angle = index * 2.4;
+            const radius = EDGE_LENGTH * Math.sqrt(index + positions.size + 1);
+            positions.set(node.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+        });
+        if (graphNodes.length > MAX_SIMULATED) {
+            return;
+        }
+
+        const points = graphNodes.map(node => /** @type {{ x: number, y: number }} */ (positions.get(node.id)));
+        const indexById = new Map(graphNodes.map((node, index) => [node.id, index]));
+        const links = graphEdges.map(edge => [indexById.get(edge.source) ?? 0, indexById.get(edge.target) ?? 0]);
+
+        // A settled picture only needs a few steps to take in small changes
+        const settled = unplaced.length === 0;
+        const iterations = settled ? 30 : graphNodes.length > 500 ? 60 : 200;
+        const startTemperature = settled ? 5 : EDGE_LENGTH;
+
+        for (let iteration = 0; iteration < iterations; iteration++) {
+            const temperature = startTemperature * (1 - iteration / iterations) + 1;
+            const dx = new Float64Array(points.length);
+            const dy = new Float64Array(points.length);
+
+            // Files within range repel; bucketing them in a grid avoids comparing every pair
+            /** @type {Map<string, number[]>} */
+            const cells = new Map();
+            const cellOf = (/** @type {number} */ i) => [
+                Math.floor(points[i].x / REPULSION_RANGE),
+                Math.floor(points[i].y / REPULSION_RANGE)
+            ];
+            for (let i = 0; i < points.length; i++) {
+                const key = cellOf(i).join(',');
+                const cell = cells.get(key);
+                if (cell) {
+                    cell.push(i);
+                } else {
+                    cells.set(key, [i]);
+                }
+            }
+            for (let i = 0; i < points.length; i++) {
+                const [cellX, cellY] = cellOf(i);
+                for (let offsetX = -1; offsetX <= 1; offsetX++) {
+                    for (let offsetY = -1; offsetY <= 1; offsetY++) {
+                        for (const j of cells.get(`${cellX + offsetX},${cellY + offsetY}`) ?? []) {
+                            if (j <= i) {
+                                continue;
+                            }
+                            const x = points[i].x - points[j].x;
+                            const y = points[i].y - points[j].y;
+                            const distanceSquared = Math.max(x * x + y * y, 0.01);
+                            if (distanceSquared > REPULSION_RANGE * REPULSION_RANGE) {
+                                continue;
+                            }
+                            const force = (EDGE_LENGTH * EDGE_LENGTH) / distanceSquared;
+                            dx[i] += x * force;
+                            dy[i] += y * force;
+                            dx[j] -= x * force;
+                            dy[j] -= y * force;
+                        }
+                    }
+                }
+            }
+
+            // Connected files attract
+            for (const [source, target] of links) {
+                const x = points[source].x - points[target].x;
+                const y = points[source].y - points[target].y;
+                const distance = Math.max(Math.sqrt(x * x + y * y), 0.01);
+                const force = distance / EDGE_LENGTH;
+                dx[source] -= x * force;
+                dy[source] -= y * force;
+                dx[target] += x * force;
+                dy[target] += y * force;
+            }
+
+            // Weak pull to the centre keeps unconnected files from drifting away
+            for (let i = 0; i < points.length; i++) {
+                dx[i] -= points[i].x * 0.01;
+                dy[i] -= points[i].y * 0.01;
+
+                const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+                if (length > 0) {
+                    const step = Math.min(length, temperature);
+                    points[i].x += (dx[i] / length) * step;
+                    points[i].y += (dy[i] / length) * step;
+                }
+            }
+        }
+    }
+
+    /**
+     * Creates an SVG element
+     * @param {string} tag Element name
+     * @param {Record<string, string | number>} attributes Attributes to set
+     * @returns {SVGElement} New element
+     */
+    function createSvgElement(tag, attributes) {
+        const element = /** @type {SVGElement} */ (document.createElementNS(SVG_NS, tag));
+        for (const [name, value] of Object.entries(attributes)) {
+            element.setAttribute(name, String(value));
+        }
+        return element;
+    }
+
+    function render() {
+        const graph = getVisibleGraph();
+        layout(graph.nodes, graph.edges);
+
+        while (viewport.firstChild) {
+            viewport.removeChild(viewport.firstChild);
+        }
+
+        const edgeLayer = createSvgElement('g', { class: 'edges' });
+        const nodeLayer = createSvgElement('g', { class: 'nodes' });
+        viewport.appendChild(edgeLayer);
+        viewport.appendChild(nodeLayer);
+
+        for (const edge of graph.edges) {
+            const source = positions.get(edge.source);
+            const target = positions.get(edge.target);
+            if (!source || !target) {
+                continue;
+            }
+
+            // Stop the line at the target's circle so the arrow head stays visible
+            const x = target.x - source.x;
+            const y = target.y - source.y;
+            const length = Math.max(Math.sqrt(x * x + y * y), 0.01);
+            const line = createSvgElement('line', {
+                x1: source.x,
+                y1: source.y,
+                x2: target.x - (x / length) * 8,
+                y2: target.y - (y / length) * 8,
+                class: `edge edge-${edge.type}${edge.inCycle ? ' cycle' : ''}`,
+                'marker-end': edge.inCycle ? 'url(#arrow-cycle)' : 'url(#arrow)'
+            });
+            const title = createSvgElement('title', {});
+            title.textContent = `${edge.source} → ${edge.target} (${edge.type}${edge.inCycle ? ', circular' : ''})`;
+            line.appendChild(title);
+            edgeLayer.appendChild(line);
+        }
+
+        const cycleNodes = new Set(graph.edges.filter(edge => edge.inCycle).flatMap(edge => [edge.source, edge.target]));
+        const showLabels = graph.nodes.length <= MAX_LABELS;
+
+        for (const node of graph.nodes) {
+            const position = positions.get(node.id);
+            if (!position) {
+                continue;
+            }
+
+            const classes = ['node', `type-${node.type}`];
+            if (node.id === focusId) {
+                classes.push('focused');
+            }
+            if (cycleNodes.has(node.id)) {
+                classes.push('cycle');
+            }
+
+            const group = createSvgElement('g', {
+                class: classes.join(' '),
+                transform: `translate(${position.x}, ${position.y})`,
+                'data-id': node.id
+            });
+            group.appendChild(createSvgElement('circle', { r: node.id === focusId ? 9 : 6 }));
+
+            const name = createSvgElement('text', { x: 10, y: 4, class: showLabels ? 'label' : 'label hover-only' });
+            name.textContent = node.id.slice(node.id.lastIndexOf('/') + 1);
+            group.appendChild(name);
+
+            const title = createSvgElement('title', {});
+            title.textContent = node.id;
+            group.appendChild(title);
+
+            nodeLayer.appendChild(group);
+        }
+
+        const cycleCount = graph.edges.filter(edge => edge.inCycle).length;
+        status.textContent = `${graph.nodes.length} of ${nodes.length} files, ${graph.edges.length} dependencies` +
+            (cycleCount ? `, ${cycleCount} in cycles` : '');
+        applyView();
+    }
+
+    /**
+     * Moves the focus highlight without laying the graph out again
+     * @param {string | undefined} previousId File focused until now
+     */
+    function highlightFocus(previousId) {
+        for (const id of [previousId, focusId]) {
+            const group = id ? viewport.querySelector(`.node[data-id="${CSS.escape(id)}"]`) : null;
+            group?.classList.toggle('focused', id === focusId);
+            group?.querySelector('circle')?.setAttribute('r', id === focusId ? '9' : '6');
+        }
+    }
+
+    function applyView() {
+        viewport.setAttribute('transform', `translate(${view.x}, ${view.y}) scale(${view.scale})`);
+    }
+
+    // Fits the visible files into the panel
+    function resetView() {
+        const visible = getVisibleGraph().nodes
+            .map(node => positions.get(node.id))
+            .filter(position => position !== undefined);
+        const bounds = svg.getBoundingClientRect();
+        if (visible.length === 0 || bounds.width === 0) {
+            view.x = bounds.width / 2;
+            view.y = bounds.height / 2;
+            view.scale = 1;
+            applyView();
+            return;
+        }
+
+        const xs = visible.map(position => position?.x ?? 0);
+        const ys = visible.map(position => position?.y ?? 0);
+        const minX = Math.min(...xs) - 40;
+        const maxX = Math.max(...xs) + 120;
+        const minY = Math.min(...ys) - 40;
+        const maxY = Math.max(...ys) + 40;
+
+        view.scale = Math.min(2, bounds.width / (maxX - minX), bounds.height / (maxY - minY));
+        view.x = (bounds.width - (maxX - minX) * view.scale) / 2 - minX * view.scale;
+        view.y = (bounds.height - (maxY - minY) * view.scale) / 2 - minY * view.scale;
+        applyView();
+    }
+
+    // Zoom around the mouse pointer
+    svg.addEventListener('wheel', event => {
+        event.preventDefault();
+        const bounds = svg.getBoundingClientRect();
+        const pointerX = event.clientX - bounds.left;
+        const pointerY = event.clientY - bounds.top;
+        const factor = Math.exp(-event.deltaY * 0.001);
+        const scale = Math.min(8, Math.max(0.05, view.scale * factor));
+
+        view.x = pointerX - ((pointerX - view.x) * scale) / view.scale;
+        view.y = pointerY - ((pointerY - view.y) * scale) / view.scale;
+        view.scale = scale;
+        applyView();
+    }, { passive: false });
+
+    // Drag anywhere to pan; a press and release without moving on a file opens it
+    /** @type {{ x: number, y: number, viewX: number, viewY: number, moved: boolean } | undefined} */
+    let drag;
+    svg.addEventListener('mousedown', event => {
+        drag = { x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y, moved: false };
+    });
+    window.addEventListener('mousemove', event => {
+        if (!drag) {
+            return;
+        }
+        const x = event.clientX - drag.x;
+        const y = event.clientY - drag.y;
+        if (Math.abs(x) + Math.abs(y) > 3) {
+            drag.moved = true;
+            svg.classList.add('panning');
+        }
+        view.x = drag.viewX + x;
+        view.y = drag.viewY + y;
+        applyView();
+    });
+    window.addEventListener('mouseup', event => {
+        const wasDrag = drag?.moved;
+        drag = undefined;
+        svg.classList.remove('panning');
+        if (wasDrag) {
+            return;
+        }
+
+        const target = /** @type {Element | null} */ (event.target);
+        const node = target?.closest?.('.node');
+        const id = node?.getAttribute('data-id');
+        if (id) {
+            vscode.postMessage({ type: 'open', id: id });
+        }
+    });
+
+    folderFilter.addEventListener('change', () => {
+        render();
+        resetView();
+    });
+    for (const input of typeFilters) {
+        input.addEventListener('change', render);
+    }
+    focusEnabled.addEventListener('change', () => {
+        render();
+        resetView();
+    });
+    focusHops.addEventListener('change', () => {
+        render();
+        resetView();
+    });
+    resetButton.addEventListener('click', resetView);
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'graph') {
+            const firstGraph = nodes.length === 0;
+            readGraph(message.graph);
+            focusId = message.focus ?? focusId;
+
+            // Forget files that no longer exist
+            const ids = new Set(nodes.map(node => node.id));
+            for (const id of Array.from(positions.keys())) {
+                if (!ids.has(id)) {
+                    positions.delete(id);
+                }
+            }
+
+            updateFolderOptions();
+            render();
+            if (firstGraph) {
+                resetView();
+            }
+        } else if (message.type === 'focus') {
+            if (message.id === focusId) {
+                return;
+            }
+            const previousId = focusId;
+            focusId = message.id;
+
+            // Only the focus filter changes which files are shown
+            if (focusEnabled.checked) {
+                render();
+                resetView();
+            } else {
+                highlightFocus(previousId);
+            }
+        } else if (message.type === 'error') {
+            status.textContent = message.message;
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,10 @@
+// Globals VS Code injects into webviews, for type-checking the webview scripts
+
+interface VsCodeApi {
+    postMessage(message: unknown): void;
+    getState(): unknown;
+    setState<T>(state: T): T;
+}
+
+// Returns the API to message the extension; can only be called once per webview
+declare function acquireVsCodeApi(): VsCodeApi;
@@ -0,0 +1,360 @@
+import axios from 'axios';
+import * as vscode from 'vscode';
+
+// What went wrong with a request, decides whether it is retried and what the user is offered
+export enum ApiErrorKind {
+    Auth = 'auth',                      // Missing, invalid or unauthorized API key
+    Quota = 'quota',                    // Out of credits or over the billing quota
+    RateLimit = 'rateLimit',            // Too many requests, retried after `Retry-After`
+    ContextLength = 'contextLength',    // Prompt and answer do not fit the model's context window
+    Network = 'network',                // Server unreachable or connection dropped
+    Server = 'server',                  // 5xx or overloaded server
+    Request = 'request',                // Any other rejected request, e.g. an unknown model id
+    Budget = 'budget'                   // Refused locally, `aion.usage.monthlyBudget` is used up
+}
+
+// Follow-up offered with an error, in the chat and in notifications
+export enum ErrorAction {
+    SetApiKey = 'setApiKey',
+    SwitchProvider = 'switchProvider',
+    OpenSettings = 'openSettings',
+    Retry = 'retry',
+    ReduceContext = 'reduceContext',
+    ShowUsage = 'showUsage'
+}
+
+export const ERROR_ACTION_LABELS: Record<ErrorAction, string> = {
+    [ErrorAction.SetApiKey]: 'Set API Key',
+    [ErrorAction.SwitchProvider]: 'Switch Provider',
+    [ErrorAction.OpenSettings]: 'Open Settings',
+    [ErrorAction.Retry]: 'Retry',
+    [ErrorAction.ReduceContext]: 'Reduce Context',
+    [ErrorAction.ShowUsage]: 'Show Usage'
+};
+
+// Kinds worth retrying without the user changing anything
+const TRANSIENT_KINDS = new Set([ApiErrorKind.RateLimit, ApiErrorKind.Network, ApiErrorKind.Server]);
+
+// Statuses of overloaded or briefly unavailable servers
+const TRANSIENT_STATUSES = new Set([408, 500, 502, 503, 504, 529]);
+
+// Connection failures reported by Node without an HTTP response
+const NETWORK_CODES = new Set([
+    'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'ERR_NETWORK'
+]);
+
+// Provider messages for prompts over the context window (OpenAI, DeepSeek, OpenRouter, vLLM, Ollama)
+const CONTEXT_LENGTH_MESSAGE = /context[ _](length|window)|maximum context|too many tokens|prompt is too long|reduce the length/i;
+
+// Provider messages for exhausted credits; OpenAI reports these as 429
+const QUOTA_MESSAGE = /quota|insufficient[ _](balance|credits|funds)|billing|credit/i;
+
+// Error bodies longer than this are not read from a stream
+const MAX_ERROR_BODY = 64 * 1024;
+
+/**
+ * Failed model request, classified so callers can decide whether to retry
+ * and which follow-up to offer
+ */
+export class ApiError extends Error {
+    /**
+     * @param kind Classification of the failure
+     * @param message Message shown to the user
+     * @param status HTTP status, when the server answered
+     * @param retryAfterMs Delay the server asked for before the next request
+     */
+    constructor(
+        public readonly kind: ApiErrorKind,
+        message: string,
+        public readonly status?: number,
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+
+    /**
+     * Whether the same request may succeed when sent again
+     */
+    public get transient(): boolean {
+        return TRANSIENT_KINDS.has(this.kind);
+    }
+
+    /**
+     * Gets the follow-ups that can fix the error, most useful first
+     * @returns Actions to offer
+     */
+    public getActions(): ErrorAction[] {
+        switch (this.kind) {
+            case ApiErrorKind.Auth:
+                return [ErrorAction.SetApiKey, ErrorAction.SwitchProvider];
+            case ApiErrorKind.Quota:
+                return [ErrorAction.SwitchProvider, ErrorAction.Retry];
+            case ApiErrorKind.ContextLength:
+                return [ErrorAction.ReduceContext, ErrorAction.OpenSettings];
+            case ApiErrorKind.Network:
+                return [ErrorAction.Retry, ErrorAction.OpenSettings];
+            case ApiErrorKind.Request:
+                return [ErrorAction.OpenSettings, ErrorAction.Retry];
+            case ApiErrorKind.Budget:
+                return [ErrorAction.ShowUsage, ErrorAction.OpenSettings];
+            default:
+                return [ErrorAction.Retry];
+        }
+    }
+}
+
+// Backoff applied to transient failures
+export interface RetryOptions {
+    maxRetries: number;     // Retries after the first attempt
+    baseDelayMs: number;    // Delay before the first retry, doubled for each one after
+    maxDelayMs: number;     // Longest wait; a longer `Retry-After` is not waited for
+    signal?: AbortSignal;   // Cancels the request and any pending wait
+    onRetry?: (error: ApiError, delayMs: number, attempt: number) => void;
+}
+
+/**
+ * Runs a request, retrying transient failures with exponential backoff.
+ * A `Retry-After` sent by the server replaces the computed delay.
+ * @param request Request to run, given the attempt number starting at 0
+ * @param providerName Provider name used in error messages
+ * @param options Retry limits and cancellation
+ * @returns Promise resolving to the request's result
+ * @throws ApiError when the request fails for good; cancellation rethrows the original error
+ */
+export async function withRetries<T>(
+    request: (attempt: number) => Promise<T>,
+    providerName: string,
+    options: RetryOptions
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request(attempt);
+        } catch (error) {
+            if (options.signal?.aborted || axios.isCancel(error)) {
+                throw error;
+            }
+
+            const apiError = await toApiError(error, providerName);
+            if (!apiError.transient || attempt >= options.maxRetries) {
+                throw apiError;
+            }
+
+            // Jitter keeps several windows from retrying in lockstep
+            const backoff = options.baseDelayMs * 2 ** attempt;
+            const delay = apiError.retryAfterMs ?? Math.round(backoff / 2 + Math.random() * backoff / 2);
+            if (delay > options.maxDelayMs) {
+                throw apiError;
+            }
+
+            options.onRetry?.(apiError, delay, attempt + 1);
+            await sleep(delay, options.signal);
+        }
+    }
+}
+
+/**
+ * Classifies an error thrown by axios or the request code
+ * @param error Caught error
+ * @param providerName Provider name used in messages
+ * @returns Promise resolving to the typed error; streamed error bodies are read first
+ */
+export async function toApiError(error: unknown, providerName: string): Promise<ApiError> {
+    if (error instanceof ApiError) {
+        return error;
+    }
+
+    if (!axios.isAxiosError(error)) {
+        // Streams fail with plain Node errors when the connection drops mid-answer
+        const code = (error as NodeJS.ErrnoException | undefined)?.code;
+        if (code && NETWORK_CODES.has(code)) {
+            return new ApiError(ApiErrorKind.Network, `The connection to ${providerName} was lost (${code}).`);
+        }
+        return new ApiError(ApiErrorKind.Request, error instanceof Error ? error.message : String(error));
+    }
+
+    const response = error.response;
+    if (!response) {
+        if (error.code && NETWORK_CODES.has(error.code)) {
+            return new ApiError(ApiErrorKind.Network, `Could not reach ${providerName} (${error.code}).`);
+        }
+        return new ApiError(ApiErrorKind.Network, `Could not reach ${providerName}: ${error.message}`);
+    }
+
+    const status = response.status;
+    const detail = getErrorDetail(await readErrorBody(response.data));
+    const suffix = detail ? `: ${detail}` : '.';
+
+    if (status === 401 || status === 403) {
+        return new ApiError(ApiErrorKind.Auth, `${providerName} rejected the API key${suffix}`, status);
+    }
+    if (status === 402 || (status === 429 && QUOTA_MESSAGE.test(detail))) {
+        return new ApiError(ApiErrorKind.Quota, `${providerName} quota or credits are exhausted${suffix}`, status);
+    }
+    if (status === 429) {
+        const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+        return new ApiError(ApiErrorKind.RateLimit, `${providerName} rate limit reached${suffix}`, status, retryAfterMs);
+    }
+    if ((status === 400 || status === 413) && CONTEXT_LENGTH_MESSAGE.test(detail)) {
+        return new ApiError(ApiErrorKind.ContextLength, `The prompt is too long for the model${suffix}`, status);
+    }
+    if (TRANSIENT_STATUSES.has(status)) {
+        const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+        return new ApiError(ApiErrorKind.Server, `${providerName} is unavailable (${status})${suffix}`, status, retryAfterMs);
+    }
+    return new ApiError(ApiErrorKind.Request, `${providerName} rejected the request (${status})${suffix}`, status);
+}
+
+/**
+ * Parses a `Retry-After` header, given in seconds or as an HTTP date
+ * @param value Header value
+ * @returns Delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+        return Math.max(0, Math.round(seconds * 1000));
+    }
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Shows an error as a notification with its follow-ups, for callers outside the chat
+ * @param error Error to show
+ */
+export function showApiError(error: ApiError): void {
+    // Retrying and reducing the context need the original request, which only the chat keeps
+    const actions = error.getActions().filter(action => action !== ErrorAction.Retry && action !== ErrorAction.ReduceContext);
+    vscode.window.showErrorMessage(error.message, ...actions.map(action => ERROR_ACTION_LABELS[action])).then(choice => {
+        const action = actions.find(candidate => ERROR_ACTION_LABELS[candidate] === choice);
+        if (action) {
+            runErrorAction(action, error);
+        }
+    });
+}
+
+/**
+ * Runs a follow-up that opens a command or the settings
+ * @param action Follow-up chosen by the user
+ * @param error Error the follow-up belongs to
+ */
+export async function runErrorAction(action: ErrorAction, error: ApiError): Promise<void> {
+    switch (action) {
+        case ErrorAction.SetApiKey:
+            await vscode.commands.executeCommand('aion.setApiKey');
+            break;
+        case ErrorAction.SwitchProvider:
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'aion.provider');
+            break;
+        case ErrorAction.OpenSettings:
+            await vscode.commands.executeCommand('workbench.action.openSettings', getSettingsQuery(error));
+            break;
+        case ErrorAction.ShowUsage:
+            await vscode.commands.executeCommand('aion.showUsage');
+            break;
+    }
+}
+
+/**
+ * Gets the settings that can fix an error
+ * @param error Error to fix
+ * @returns Settings editor search query
+ */
+function getSettingsQuery(error: ApiError): string {
+    switch (error.kind) {
+        case ApiErrorKind.ContextLength:
+            return 'aion.context';
+        case ApiErrorKind.Budget:
+            return 'aion.usage';
+        default:
+            // The provider's URL or model
+            return `aion.${vscode.workspace.getConfiguration('aion').get<string>('provider', 'openrouter')}`;
+    }
+}
+
+/**
+ * Reads the body of an error response, which is a stream for streamed requests
+ * @param data Response data
+ * @returns Promise resolving to the parsed JSON body, or the text when it is not JSON
+ */
+async function readErrorBody(data: unknown): Promise<unknown> {
+    if (data && typeof data === 'object' && Symbol.asyncIterator in data) {
+        let text = '';
+        try {
+            for await (const chunk of data as AsyncIterable<Buffer | string>) {
+                text += chunk.toString();
+                if (text.length > MAX_ERROR_BODY) {
+                    break;
+                }
+            }
+        } catch (error) {
+            console.error('Error reading error response:', error);
+        }
+        data = text;
+    }
+
+    if (typeof data !== 'string') {
+        return data;
+    }
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+}
+
+/**
+ * Extracts the message from the error bodies of OpenAI-style APIs
+ * @param body Parsed error body
+ * @returns Message, or an empty string when there is none
+ */
+function getErrorDetail(body: unknown): string {
+    if (typeof body === 'string') {
+        return body.trim().slice(0, 300);
+    }
+    if (!body || typeof body !== 'object') {
+        return '';
+    }
+
+    const { error, message, detail } = body as { error?: unknown; message?: unknown; detail?: unknown };
+    if (typeof error === 'string') {
+        return error;
+    }
+    if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+        return (error as { message: string }).message;
+    }
+    if (typeof message === 'string') {
+        return message;
+    }
+    return typeof detail === 'string' ? detail : '';
+}
+
+/**
+ * Waits before a retry
+ * @param ms Delay in milliseconds
+ * @param signal Signal that ends the wait early
+ * @returns Promise resolving after the delay, or rejecting when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new axios.CanceledError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new axios.CanceledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { ProviderId } from './modelProvider.js';
+
+const readFile = promisify(fs.readFile);
+
+export class ApiKeyManager implements vscode.Disposable {
+    // Secrets are stored per provider under `aion.apiKey.<provider>`
+    private static readonly SECRET_PREFIX = 'aion.apiKey.';
+
+    // Legacy plain-text setting that older versions read the OpenRouter key from
+    private static readonly LEGACY_SETTING = 'openrouterApiKey';
+
+    // Variables offered for import from the workspace `.env` file and the process environment
+    private static readonly ENV_VARIABLES: Record<ProviderId, string> = {
+        [ProviderId.OpenRouter]: 'OPENROUTER_API_KEY',
+        [ProviderId.DeepSeek]: 'DEEPSEEK_API_KEY',
+        [ProviderId.OpenAICompatible]: 'OPENAI_API_KEY'
+    };
+
+    // Workspace state key of the variables the user chose not to import
+    private static readonly DECLINED_IMPORTS = 'aion.apiKey.declinedImports';
+
+    // Keys read from secret storage, so requests and inline completions do not read it each time
+    private cache = new Map<ProviderId, Promise<string | undefined>>();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param secrets Secret storage holding the keys
+     * @param workspaceState Workspace state remembering declined imports
+     */
+    constructor(private secrets: vscode.SecretStorage, private workspaceState: vscode.Memento) {
+        // Keys can also change from the command or another window
+        this.disposables.push(secrets.onDidChange(event => {
+            if (event.key.startsWith(ApiKeyManager.SECRET_PREFIX)) {
+                this.cache.clear();
+            }
+        }));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    /**
+     * Fires when a stored key is added, changed or removed
+     */
+    public get onDidChange(): vscode.Event<vscode.SecretStorageChangeEvent> {
+        return this.secrets.onDidChange;
+    }
+
+    /**
+     * Gets the API key for a provider from secret storage. Keys in the
+     * workspace `.env` file or the environment are only used once the user
+     * imported them through `offerEnvironmentKey`.
+     * @param providerId Provider to get the key for
+     * @returns Promise resolving to the key, or undefined when none is stored
+     */
+    public getApiKey(providerId: ProviderId): Promise<string | undefined> {
+        let apiKey = this.cache.get(providerId);
+        if (!apiKey) {
+            apiKey = Promise.resolve(this.secrets.get(ApiKeyManager.SECRET_PREFIX + providerId));
+            this.cache.set(providerId, apiKey);
+        }
+        return apiKey;
+    }
+
+    /**
+     * Offers to import a provider's key from the workspace `.env` file or the
+     * environment into secret storage, when no key is stored yet. A workspace
+     * controls its `.env` file, so its keys are never used without asking.
+     * @param providerId Provider to import the key for
+     * @param providerName Name shown in the prompt
+     * @returns Promise resolving to true when a key was imported
+     */
+    public async offerEnvironmentKey(providerId: ProviderId, providerName: string): Promise<boolean> {
+        const variable = ApiKeyManager.ENV_VARIABLES[providerId];
+        const declined = this.workspaceState.get<string[]>(ApiKeyManager.DECLINED_IMPORTS, []);
+        if (declined.includes(variable) || await this.getApiKey(providerId)) {
+            return false;
+        }
+
+        const fromDotEnv = await this.readDotEnvVariable(variable);
+        const apiKey = fromDotEnv ?? process.env[variable];
+        if (!apiKey) {
+            return false;
+        }
+
+        const source = fromDotEnv ? 'the workspace .env file' : 'the environment';
+        const choice = await vscode.window.showInformationMessage(
+            `Use ${variable} from ${source} as your ${providerName} API key? It is copied into VS Code's secret storage.`,
+            'Use Key',
+            'Don\'t Ask Again'
+        );
+
+        if (choice === 'Use Key') {
+            await this.setApiKey(providerId, apiKey);
+            return true;
+        }
+        if (choice) {
+            await this.workspaceState.update(ApiKeyManager.DECLINED_IMPORTS, [...declined, variable]);
+        }
+        return false;
+    }
+
+    /**
+     * Stores the API key for a provider in secret storage
+     * @param providerId Provider the key belongs to
+     * @param apiKey Key to store
+     */
+    public async setApiKey(providerId: ProviderId, apiKey: string): Promise<void> {
+        await this.secrets.store(ApiKeyManager.SECRET_PREFIX + providerId, apiKey);
+    }
+
+    /**
+     * Asks the user for a provider's API key and stores it
+     * @param providerId Provider to ask the key for
+     * @param providerName Name shown in the prompt
+     * @returns Promise resolving to true when a key was stored
+     */
+    public async promptForApiKey(providerId: ProviderId, providerName: string): Promise<boolean> {
+        const apiKey = await vscode.window.showInputBox({
+            title: `${providerName} API Key`,
+            prompt: `Enter your ${providerName} API key. It is stored in VS Code's secret storage.`,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'The API key cannot be empty'
+        });
+
+        if (!apiKey) {
+            return false;
+        }
+
+        await this.setApiKey(providerId, apiKey.trim());
+        return true;
+    }
+
+    /**
+     * Moves a key from the legacy `aion.openrouterApiKey` setting into
+     * secret storage and removes it from the settings files
+     */
+    public async migrateLegacySetting(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('aion');
+        const inspected = config.inspect<string>(ApiKeyManager.LEGACY_SETTING);
+        const legacyKey = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+
+        if (!legacyKey) {
+            return;
+        }
+
+        // Keep a key the user already stored securely
+        if (!await this.secrets.get(ApiKeyManager.SECRET_PREFIX + ProviderId.OpenRouter)) {
+            await this.setApiKey(ProviderId.OpenRouter, legacyKey);
+        }
+
+        try {
+            if (inspected?.globalValue !== undefined) {
+                await config.update(ApiKeyManager.LEGACY_SETTING, undefined, vscode.ConfigurationTarget.Global);
+            }
+            if (inspected?.workspaceValue !== undefined) {
+                await config.update(ApiKeyManager.LEGACY_SETTING, undefined, vscode.ConfigurationTarget.Workspace);
+            }
+            if (inspected?.workspaceFolderValue !== undefined) {
+                await config.update(ApiKeyManager.LEGACY_SETTING, undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+            }
+        } catch (error) {
+            console.error('Error removing legacy API key setting:', error);
+        }
+
+        vscode.window.showInformationMessage('AION moved your OpenRouter API key from settings into secure storage.');
+    }
+
+    /**
+     * Reads a variable from the `.env` file at the root of any workspace folder
+     * @param variable Variable name
+     * @returns Promise resolving to the value, or undefined when not set
+     */
+    private async readDotEnvVariable(variable: string): Promise<string | undefined> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const envPath = path.join(folder.uri.fsPath, '.env');
+            if (!fs.existsSync(envPath)) {
+                continue;
+            }
+
+            try {
+                const content = await readFile(envPath, 'utf-8');
+                const value = this.parseDotEnv(content)[variable];
+                if (value) {
+                    return value;
+                }
+            } catch (error) {
+                console.error(`Error reading ${envPath}:`, error);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Parses `KEY=value` lines, ignoring comments, `export` prefixes and surrounding quotes
+     * @param content Content of a `.env` file
+     * @returns Map of variable names to values
+     */
+    private parseDotEnv(content: string): Record<string, string> {
+        const values: Record<string, string> = {};
+
+        for (const line of content.split(/\r?\n/)) {
+            const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+            if (!match) {
+                continue;
+            }
+
+            let value = match[2];
+            const quoted = value.match(/^(['"])(.*)\1$/);
+            if (quoted) {
+                value = quoted[2];
+            } else {
+                // Unquoted values may carry a trailing comment
+                value = value.replace(/\s+#.*$/, '');
+            }
+            values[match[1]] = value;
+        }
+
+        return values;
+    }
+}
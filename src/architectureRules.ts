@@ -0,0 +1,450 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { Dependency, DependencyGraph } from './dependencyManager.js';
+import { ProjectIndex } from './projectIndex.js';
+import { ContextManager } from './contextManager.js';
+import { ChatViewProvider } from './chatView.js';
+import { globToRegExp } from './ignoreRules.js';
+
+const readFile = promisify(fs.readFile);
+
+// Rules file, relative to each workspace folder
+export const ARCHITECTURE_RULES_FILE = '.aion/architecture.json';
+
+// Source of every architecture diagnostic, used to find them again for quick fixes
+export const ARCHITECTURE_DIAGNOSTIC_SOURCE = 'AION architecture';
+
+type RuleSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+// Layer as written in the rules file
+interface LayerDefinition {
+    name: string;
+    paths: string[];            // Globs of the files in the layer
+    mayImport?: string[];       // Other layers it may depend on (any layer when omitted)
+    severity?: RuleSeverity;
+}
+
+// Forbidden dependency as written in the rules file, e.g. `{ "from": "src/ui/**", "to": "src/db/**" }`
+interface ForbiddenDefinition {
+    from: string | string[];    // Globs of the importing files
+    to: string | string[];      // Globs of the files they must not import
+    message?: string;           // Explanation shown with the violation
+    severity?: RuleSeverity;
+}
+
+// Contents of `.aion/architecture.json`
+interface ArchitectureRulesDefinition {
+    severity?: RuleSeverity;    // Default for all rules (warning when omitted)
+    layers?: LayerDefinition[];
+    forbidden?: ForbiddenDefinition[];
+    allowedCycles?: string[][]; // Each entry lists globs; circular imports between files matching one entry are accepted
+    checkCycles?: boolean;      // Whether other circular dependencies are reported (true when omitted)
+}
+
+// Rules of one workspace folder, with globs compiled
+interface CompiledRules {
+    folder: string;             // Absolute path of the workspace folder
+    layers: { name: string; patterns: RegExp[]; mayImport?: Set<string>; severity: vscode.DiagnosticSeverity }[];
+    forbidden: { from: RegExp[]; to: RegExp[]; description: string; message?: string; severity: vscode.DiagnosticSeverity }[];
+    allowedCycles: RegExp[][];
+    checkCycles: boolean;
+    cycleSeverity: vscode.DiagnosticSeverity;
+}
+
+// Kind of rule a dependency breaks
+export enum ViolationKind {
+    Layer = 'layer',
+    Forbidden = 'forbidden',
+    Cycle = 'cycle'
+}
+
+// A dependency that breaks an architecture rule
+export interface ArchitectureViolation {
+    kind: ViolationKind;
+    dependency: Dependency;     // The offending import
+    message: string;
+    severity: vscode.DiagnosticSeverity;
+}
+
+/**
+ * Checks the dependency graph against the rules in `.aion/architecture.json`
+ * and reports violations as diagnostics on the offending imports
+ */
+export class ArchitectureGuard implements vscode.Disposable {
+    private diagnostics = vscode.languages.createDiagnosticCollection('aion-architecture');
+    private disposables: vscode.Disposable[] = [];
+
+    // Coalesces bursts of index updates into one check
+    private checkTimer?: NodeJS.Timeout;
+
+    /**
+     * @param projectIndex Index providing the dependency graph
+     */
+    constructor(private projectIndex: ProjectIndex) { }
+
+    /**
+     * Checks the workspace now and again whenever files or the rules change
+     */
+    public start(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${ARCHITECTURE_RULES_FILE}`);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.scheduleCheck()),
+            watcher.onDidChange(() => this.scheduleCheck()),
+            watcher.onDidDelete(() => this.scheduleCheck()),
+            this.projectIndex.onDidChange(() => this.scheduleCheck()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleCheck())
+        );
+        this.scheduleCheck();
+    }
+
+    /**
+     * Runs all rules and replaces the diagnostics
+     * @returns Promise resolving to the violations found
+     */
+    public async check(): Promise<ArchitectureViolation[]> {
+        const diagnostics = new Map<string, vscode.Diagnostic[]>();
+        const rules: CompiledRules[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const rulesPath = path.join(folder.uri.fsPath, ARCHITECTURE_RULES_FILE);
+            try {
+                const compiled = await this.loadRules(folder.uri.fsPath, rulesPath);
+                if (compiled) {
+                    rules.push(compiled);
+                }
+            } catch (error) {
+                // Point at the rules file instead of failing silently
+                const message = error instanceof Error ? error.message : String(error);
+                diagnostics.set(rulesPath, [this.createDiagnostic(
+                    new vscode.Range(0, 0, 0, 0),
+                    `Invalid architecture rules: ${message}`,
+                    vscode.DiagnosticSeverity.Error
+                )]);
+            }
+        }
+
+        // Without rules there is no reason to build the graph
+        let violations: ArchitectureViolation[] = [];
+        if (rules.length > 0) {
+            const graph = await this.projectIndex.getDependencyGraph();
+            violations = this.findViolations(graph, rules);
+        }
+
+        for (const violation of violations) {
+            const source = violation.dependency.source;
+            const list = diagnostics.get(source) ?? [];
+            for (const range of this.getImportRanges(violation.dependency)) {
+                const diagnostic = this.createDiagnostic(range, violation.message, violation.severity);
+                diagnostic.code = violation.kind;
+                list.push(diagnostic);
+            }
+            diagnostics.set(source, list);
+        }
+
+        this.diagnostics.clear();
+        for (const [filePath, list] of diagnostics) {
+            this.diagnostics.set(vscode.Uri.file(filePath), list);
+        }
+
+        return violations;
+    }
+
+    public dispose(): void {
+        clearTimeout(this.checkTimer);
+        this.diagnostics.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+
+    private scheduleCheck(): void {
+        clearTimeout(this.checkTimer);
+        this.checkTimer = setTimeout(() => {
+            this.check().catch(error => console.error('Error checking architecture rules:', error));
+        }, 1000);
+    }
+
+    /**
+     * Reads and compiles the rules of a workspace folder
+     * @param folder Absolute path of the workspace folder
+     * @param rulesPath Absolute path of the rules file
+     * @returns Promise resolving to the compiled rules, or undefined when the folder has no rules file
+     */
+    private async loadRules(folder: string, rulesPath: string): Promise<CompiledRules | undefined> {
+        let content: string;
+        try {
+            content = await readFile(rulesPath, 'utf-8');
+        } catch {
+            return undefined;
+        }
+
+        const definition = JSON.parse(content) as ArchitectureRulesDefinition;
+        const defaultSeverity = toSeverity(definition.severity, vscode.DiagnosticSeverity.Warning);
+        const layerNames = new Set((definition.layers ?? []).map(layer => layer.name));
+
+        for (const layer of definition.layers ?? []) {
+            if (!layer.name || !Array.isArray(layer.paths)) {
+                throw new Error('every layer needs a "name" and a "paths" array');
+            }
+            const unknown = (layer.mayImport ?? []).filter(name => !layerNames.has(name));
+            if (unknown.length > 0) {
+                throw new Error(`layer "${layer.name}" may import unknown layer "${unknown[0]}"`);
+            }
+        }
+
+        return {
+            folder,
+            layers: (definition.layers ?? []).map(layer => ({
+                name: layer.name,
+                patterns: layer.paths.map(globToRegExp),
+                mayImport: layer.mayImport ? new Set(layer.mayImport) : undefined,
+                severity: toSeverity(layer.severity, defaultSeverity)
+            })),
+            forbidden: (definition.forbidden ?? []).map(rule => {
+                const from = toArray(rule.from);
+                const to = toArray(rule.to);
+                if (from.length === 0 || to.length === 0) {
+                    throw new Error('every forbidden dependency needs "from" and "to" globs');
+                }
+                return {
+                    from: from.map(globToRegExp),
+                    to: to.map(globToRegExp),
+                    description: `${from.join(', ')} must not import ${to.join(', ')}`,
+                    message: rule.message,
+                    severity: toSeverity(rule.severity, defaultSeverity)
+                };
+            }),
+            allowedCycles: (definition.allowedCycles ?? []).map(globs => toArray(globs).map(globToRegExp)),
+            checkCycles: definition.checkCycles ?? true,
+            cycleSeverity: defaultSeverity
+        };
+    }
+
+    /**
+     * Evaluates the rules against every internal dependency of the graph
+     * @param graph Dependency graph
+     * @param rules Compiled rules of the workspace folders that have any
+     * @returns Violations, in graph order
+     */
+    private findViolations(graph: DependencyGraph, rules: CompiledRules[]): ArchitectureViolation[] {
+        const violations: ArchitectureViolation[] = [];
+
+        for (const [source, dependencies] of graph.edges) {
+            const sourceRules = this.getRulesFor(source, rules);
+            if (!sourceRules) {
+                continue;
+            }
+            const sourcePath = this.toRulePath(source, sourceRules.folder);
+            const sourceLayer = sourceRules.layers.find(layer => layer.patterns.some(pattern => pattern.test(sourcePath)));
+
+            for (const [target, dependency] of dependencies) {
+                if (dependency.isExternal || target === source || !graph.nodes.has(target)) {
+                    continue;
+                }
+
+                // Targets in another folder are matched against the source folder's rules by their own relative path
+                const targetRules = this.getRulesFor(target, rules);
+                const targetPath = this.toRulePath(target, targetRules?.folder ?? sourceRules.folder);
+
+                if (sourceLayer?.mayImport) {
+                    const targetLayer = sourceRules.layers.find(layer => layer.patterns.some(pattern => pattern.test(targetPath)));
+                    if (targetLayer && targetLayer !== sourceLayer && !sourceLayer.mayImport.has(targetLayer.name)) {
+                        violations.push({
+                            kind: ViolationKind.Layer,
+                            dependency,
+                            message: `Layer "${sourceLayer.name}" must not import layer "${targetLayer.name}" (${targetPath}).`,
+                            severity: sourceLayer.severity
+                        });
+                    }
+                }
+
+                for (const rule of sourceRules.forbidden) {
+                    if (rule.from.some(pattern => pattern.test(sourcePath)) && rule.to.some(pattern => pattern.test(targetPath))) {
+                        violations.push({
+                            kind: ViolationKind.Forbidden,
+                            dependency,
+                            message: `Forbidden dependency on ${targetPath}: ${rule.message ?? rule.description}.`,
+                            severity: rule.severity
+                        });
+                    }
+                }
+            }
+        }
+
+        violations.push(...this.findCycleViolations(graph, rules));
+        return violations;
+    }
+
+    /**
+     * Reports every import between files of a circular dependency group, unless
+     * one `allowedCycles` entry matches both files
+     * @param graph Dependency graph
+     * @param rules Compiled rules of the workspace folders that have any
+     * @returns Cycle violations
+     */
+    private findCycleViolations(graph: DependencyGraph, rules: CompiledRules[]): ArchitectureViolation[] {
+        const violations: ArchitectureViolation[] = [];
+
+        for (const group of this.projectIndex.dependencyManager.findCircularDependencyGroups(graph)) {
+            const groupRules = this.getRulesFor(group.files[0], rules);
+            if (!groupRules?.checkCycles) {
+                continue;
+            }
+
+            const members = new Set(group.files);
+            const toRelative = (file: string) => this.toRulePath(file, this.getRulesFor(file, rules)?.folder ?? groupRules.folder);
+
+            for (const source of group.files) {
+                for (const [target, dependency] of graph.edges.get(source) ?? []) {
+                    if (dependency.isExternal || !members.has(target)) {
+                        continue;
+                    }
+
+                    const sourcePath = toRelative(source);
+                    const targetPath = toRelative(target);
+                    const allowed = groupRules.allowedCycles.some(patterns =>
+                        patterns.some(pattern => pattern.test(sourcePath)) && patterns.some(pattern => pattern.test(targetPath)));
+                    if (allowed) {
+                        continue;
+                    }
+
+                    // Name a concrete cycle through this import when one was found
+                    const cycle = group.cycles.find(candidate =>
+                        candidate.some((file, index) => file === source && candidate[index + 1] === target));
+                    const message = cycle
+                        ? `Circular dependency: ${cycle.map(toRelative).join(' → ')}.`
+                        : `Circular dependency: ${targetPath} depends back on ${sourcePath} ` +
+                          `(${group.files.length} files depend on each other).`;
+
+                    violations.push({
+                        kind: ViolationKind.Cycle,
+                        dependency,
+                        message,
+                        severity: groupRules.cycleSeverity
+                    });
+                }
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Finds the rules of the innermost workspace folder containing a file
+     * @param filePath Absolute path
+     * @param rules Compiled rules
+     * @returns Rules, or undefined when the file's folder has none
+     */
+    private getRulesFor(filePath: string, rules: CompiledRules[]): CompiledRules | undefined {
+        return rules
+            .filter(candidate => filePath.startsWith(candidate.folder + path.sep))
+            .sort((a, b) => b.folder.length - a.folder.length)[0];
+    }
+
+    private toRulePath(filePath: string, folder: string): string {
+        return path.relative(folder, filePath).split(path.sep).join('/');
+    }
+
+    /**
+     * Gets the locations of a dependency's imports, falling back to whole lines
+     * @param dependency Offending dependency
+     * @returns Ranges in the source file
+     */
+    private getImportRanges(dependency: Dependency): vscode.Range[] {
+        if (dependency.ranges?.length) {
+            return dependency.ranges.map(range => new vscode.Range(range.line, range.column, range.endLine, range.endColumn));
+        }
+        return (dependency.lineNumbers ?? [0]).map(line => new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER));
+    }
+
+    private createDiagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = ARCHITECTURE_DIAGNOSTIC_SOURCE;
+        return diagnostic;
+    }
+}
+
+/**
+ * Offers to ask DeepSeek for a refactoring on architecture violations
+ */
+export class ArchitectureCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.source === ARCHITECTURE_DIAGNOSTIC_SOURCE && diagnostic.code !== undefined)
+            .map(diagnostic => {
+                const action = new vscode.CodeAction('Ask DeepSeek for a refactoring', vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.command = {
+                    command: 'aion.askArchitectureRefactoring',
+                    title: 'Ask DeepSeek for a refactoring',
+                    arguments: [document.uri, diagnostic]
+                };
+                return action;
+            });
+    }
+}
+
+/**
+ * Asks DeepSeek in the chat view how to remove a dependency that breaks an architecture rule
+ * @param contextManager Context builder
+ * @param chatProvider Chat view the answer is shown in
+ * @param uri Document containing the offending import
+ * @param diagnostic Diagnostic describing the violation
+ */
+export async function askArchitectureRefactoring(
+    contextManager: ContextManager,
+    chatProvider: ChatViewProvider,
+    uri: vscode.Uri,
+    diagnostic: vscode.Diagnostic
+): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const line = diagnostic.range.start.line;
+    const importLine = document.lineAt(Math.min(line, document.lineCount - 1)).text.trim();
+
+    const question =
+        `Line ${line + 1} of ${vscode.workspace.asRelativePath(uri)} (\`${importLine}\`) breaks an architecture rule: ` +
+        `${diagnostic.message} Suggest a refactoring that removes this dependency without changing behaviour, ` +
+        'for example by moving code to an allowed layer, inverting the dependency through an interface, or passing the value in.';
+
+    const contextResult = await contextManager.createContextForFile(uri.fsPath, {
+        document,
+        cursor: diagnostic.range.start
+    });
+    const context = contextManager.formatContextForAPI(contextResult);
+
+    if (!await chatProvider.ask(question, context)) {
+        vscode.window.showWarningMessage('The Deepseek Chat view could not be opened.');
+    }
+}
+
+function toSeverity(severity: RuleSeverity | undefined, fallback: vscode.DiagnosticSeverity): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case 'error':
+            return vscode.DiagnosticSeverity.Error;
+        case 'warning':
+            return vscode.DiagnosticSeverity.Warning;
+        case 'information':
+            return vscode.DiagnosticSeverity.Information;
+        case 'hint':
+            return vscode.DiagnosticSeverity.Hint;
+        default:
+            return fallback;
+    }
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
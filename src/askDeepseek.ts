@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { DeepSeekAPI } from './deepseekapi.js';
+import { ApiError, showApiError } from './apiErrors.js';
+import { ContextManager } from './contextManager.js';
+import { ChatViewProvider } from './chatView.js';
+
+// Symbol kinds treated as "the enclosing function" when nothing is selected
+const FUNCTION_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor
+]);
+
+/**
+ * Asks DeepSeek a question about the selection, or the function around the
+ * cursor, and shows the answer in the chat view or a markdown preview
+ * @param api API client
+ * @param contextManager Context builder
+ * @param chatProvider Chat view used when answers go to the chat
+ */
+export async function askDeepseek(
+    api: DeepSeekAPI,
+    contextManager: ContextManager,
+    chatProvider: ChatViewProvider
+): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage('No active editor!');
+        return;
+    }
+
+    const document = editor.document;
+    const range = editor.selection.isEmpty
+        ? await findEnclosingFunction(document, editor.selection.active)
+        : editor.selection;
+
+    const subject = range
+        ? `lines ${range.start.line + 1}-${range.end.line + 1} of ${vscode.workspace.asRelativePath(document.uri)}`
+        : vscode.workspace.asRelativePath(document.uri);
+
+    const question = await vscode.window.showInputBox({
+        title: 'Ask Deepseek Coder',
+        prompt: `Ask about ${subject}`,
+        placeHolder: 'e.g. What does this do? Is there a bug here?',
+        ignoreFocusOut: true
+    });
+    if (!question?.trim()) {
+        return;
+    }
+
+    const contextResult = await contextManager.createContextForFile(document.fileName, {
+        document,
+        selection: range,
+        cursor: editor.selection.active,
+        query: question
+    });
+    const context = contextManager.formatContextForAPI(contextResult);
+
+    const output = vscode.workspace.getConfiguration('aion').get<string>('askDeepseek.output', 'chat');
+    if (output === 'chat' && await chatProvider.ask(question, context)) {
+        return;
+    }
+
+    await showAnswerInPreview(api, question, context, subject);
+}
+
+/**
+ * Finds the innermost function, method or constructor containing a position
+ * @param document Document to search
+ * @param position Position inside the function
+ * @returns Promise resolving to the function's range, or undefined when there is none
+ */
+async function findEnclosingFunction(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Promise<vscode.Range | undefined> {
+    let symbols: vscode.DocumentSymbol[] | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+            'vscode.executeDocumentSymbolProvider',
+            document.uri
+        );
+    } catch (error) {
+        console.error('Error getting document symbols:', error);
+    }
+
+    let enclosing: vscode.Range | undefined;
+    let candidates = symbols ?? [];
+
+    // Descend through nested symbols, keeping the deepest function seen
+    while (candidates.length > 0) {
+        const container = candidates.find(symbol => symbol.range.contains(position));
+        if (!container) {
+            break;
+        }
+        if (FUNCTION_KINDS.has(container.kind)) {
+            enclosing = container.range;
+        }
+        candidates = container.children;
+    }
+
+    return enclosing;
+}
+
+/**
+ * Asks the question and opens the answer as a markdown preview beside the editor
+ * @param api API client
+ * @param question Question to ask
+ * @param context Prompt context
+ * @param subject Description of the code the question is about
+ */
+async function showAnswerInPreview(
+    api: DeepSeekAPI,
+    question: string,
+    context: string,
+    subject: string
+): Promise<void> {
+    const answer = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Asking Deepseek Coder...',
+        cancellable: true
+    }, async (_progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => abortController.abort());
+        try {
+            return await api.streamCompletion(`${context}\n\nUser Query: ${question}`, () => { }, abortController.signal);
+        } catch (error) {
+            if (!(error instanceof ApiError)) {
+                throw error;
+            }
+            showApiError(error);
+            return '';
+        }
+    });
+
+    if (!answer) {
+        return;
+    }
+
+    const markdown = `# ${question}\n\n_About ${subject}_\n\n${answer}\n`;
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+    await vscode.commands.executeCommand('markdown.showPreviewToSide', document.uri);
+}
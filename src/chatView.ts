@@ -1,107 +1,361 @@
 import * as vscode from 'vscode';
-import { DeepSeekAPI } from './deepseekapi.js';
+import { ChatMessage, DeepSeekAPI } from './deepseekapi.js';
+import { ApiError, ERROR_ACTION_LABELS, ErrorAction, runErrorAction, toApiError } from './apiErrors.js';
 import { ContextManager } from './contextManager.js';
+import { ConversationHistory } from './conversationHistory.js';
+import { EditApplier } from './editApplier.js';
+import { MarkdownRenderer } from './markdownRenderer.js';
+import { createModelProvider } from './modelProvider.js';
+import { PromptBudget, allocatePromptBudget, countMessageTokens, formatTokenCount, truncateToTokens } from './tokenBudget.js';
+import { UsageTracker } from './usageTracker.js';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'aion.chatView';
+
+    // Streamed answers are re-rendered at most this often, not on every token
+    private static readonly RENDER_INTERVAL_MS = 75;
+
     private _view?: vscode.WebviewView;
-    private _contextManager = new ContextManager();
+    private _contextManager: ContextManager;
     private _api: DeepSeekAPI;
+    private _history: ConversationHistory;
+    private _editApplier: EditApplier;
+    private _usage: UsageTracker;
+    private _renderer = new MarkdownRenderer();
+    private _extensionUri: vscode.Uri;
+    private _abortController?: AbortController;
+
+    // Incremented by New Chat, so answers still streaming into a cleared conversation are dropped
+    private _conversation = 0;
 
-    constructor(context: vscode.ExtensionContext, apiKey: string) {
-        this._api = new DeepSeekAPI(apiKey);
+    // Last failed query, kept so the error's Retry and Reduce Context buttons can resend it
+    private _lastFailure?: { query: string; context?: string; contextShare: number; error: ApiError };
+
+    // Resolves once the webview script has loaded and can receive messages
+    private _webviewReady?: Promise<void>;
+    private _resolveWebviewReady?: () => void;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        api: DeepSeekAPI,
+        editApplier: EditApplier,
+        contextManager: ContextManager,
+        usage: UsageTracker
+    ) {
+        this._api = api;
+        this._usage = usage;
+        this._contextManager = contextManager;
+        this._editApplier = editApplier;
+        this._extensionUri = context.extensionUri;
+        this._history = new ConversationHistory(context.workspaceState);
     }
 
     public resolveWebviewView(webviewView: vscode.WebviewView) {
         this._view = webviewView;
-        webviewView.webview.options = { enableScripts: true };
-        webviewView.webview.html = this._getWebviewContent();
+        this._webviewReady = new Promise(resolve => this._resolveWebviewReady = resolve);
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(this._extensionUri, 'media')]
+        };
+        webviewView.webview.html = this._getWebviewContent(webviewView.webview);
 
         webviewView.webview.onDidReceiveMessage(async (message) => {
-            if (message.type === 'query') {
-                const activeEditor = vscode.window.activeTextEditor;
-                let context = '';
+            if (message.type === 'ready') {
+                // Restore the conversation after the webview is (re)loaded
+                this._view?.webview.postMessage({
+                    type: 'history',
+                    messages: this._history.getTurns().map(turn => turn.role === 'assistant'
+                        ? { ...turn, html: this._renderer.render(turn.content) }
+                        : turn)
+                });
+                this._resolveWebviewReady?.();
+            } else if (message.type === 'query') {
+                await this._handleQuery(message.text);
+            } else if (message.type === 'stop') {
+                this._abortController?.abort();
+            } else if (message.type === 'apply') {
+                await this._editApplier.applyFromResponse(message.text);
+            } else if (message.type === 'copy') {
+                await vscode.env.clipboard.writeText(message.text);
+            } else if (message.type === 'insert') {
+                await this._insertAtCursor(message.text);
+            } else if (message.type === 'errorAction') {
+                await this._handleErrorAction(message.action);
+            } else if (message.type === 'clear') {
+                this._conversation++;
+                this._abortController?.abort();
+                this._abortController = undefined;
+                this._lastFailure = undefined;
+                this._usage.startSession();
+                await this._history.clear();
+            }
+        });
+    }
+
+    /**
+     * Shows the chat view and asks a question with an already assembled context
+     * @param query Question to show and record in the conversation
+     * @param context Prompt context to send with the question
+     * @returns Promise resolving to false when the chat view could not be shown
+     */
+    public async ask(query: string, context: string): Promise<boolean> {
+        await vscode.commands.executeCommand(`${ChatViewProvider.viewType}.focus`);
+        if (!this._view) {
+            return false;
+        }
 
-                if (activeEditor) {
-                    const contextResult = await this._contextManager.createContextForFile(
-                        activeEditor.document.fileName
-                    );
-                    context = this._contextManager.formatContextForAPI(contextResult);
-                }
+        await this._webviewReady;
+        this._view.webview.postMessage({ type: 'query', text: query });
+        await this._handleQuery(query, context);
+        return true;
+    }
+
+    /**
+     * Sends a query to DeepSeek and streams the answer into the webview.
+     * Failures are shown in the chat with buttons that can fix them.
+     * @param query User query from the webview
+     * @param context Prompt context, or undefined to build it from the active editor
+     * @param contextShare Share of the usual file context and history budgets to use, lowered by Reduce Context
+     */
+    private async _handleQuery(query: string, context?: string, contextShare: number = 1): Promise<void> {
+        const givenContext = context;
+        const conversation = this._conversation;
 
-                const fullPrompt = `${context}\n\nUser Query: ${message.text}`;
-                const response = await this._api.getCompletion(fullPrompt);
+        // Split the model's context window between the answer, file context and history
+        const config = vscode.workspace.getConfiguration('aion');
+        const provider = createModelProvider();
+        const budget = allocatePromptBudget(provider.settings.contextWindow, {
+            answerTokens: provider.settings.maxTokens,
+            systemPrompt: this._history.getSystemPrompt(),
+            query,
+            maxContextTokens: config.get<number>('context.maxTokens', 6000),
+            maxHistoryTokens: config.get<number>('history.maxTokens', 4000)
+        });
+        budget.context = Math.floor(budget.context * contextShare);
+        budget.history = Math.floor(budget.history * contextShare);
 
+        try {
+            if (context === undefined) {
+                context = await this._buildEditorContext(query, budget.context);
+            } else {
+                // Contexts assembled by commands are cut to what the model can take
+                context = truncateToTokens(context, budget.context).text;
+            }
+        } catch (error) {
+            console.error('Error building chat context:', error);
+            if (conversation === this._conversation) {
+                this._view?.webview.postMessage({ type: 'response', text: '', isFinal: true });
                 this._view?.webview.postMessage({
-                    type: 'response',
-                    text: response,
-                    isFinal: true
+                    type: 'error',
+                    text: `Could not collect the code context: ${error instanceof Error ? error.message : String(error)}`,
+                    actions: []
                 });
             }
+            return;
+        }
+
+        // The chat was cleared while the context was built
+        if (conversation !== this._conversation) {
+            return;
+        }
+
+        // Abort any answer that is still streaming before starting a new one
+        this._abortController?.abort();
+        const abortController = new AbortController();
+        this._abortController = abortController;
+
+        // File context is only attached to the latest turn; the history keeps the bare query
+        const fullPrompt = `${context}\n\nUser Query: ${query}`;
+        const messages = this._history.buildMessages(fullPrompt, budget.history);
+        this._postContextUsage(messages, budget);
+
+        // The whole answer is re-rendered so partial markdown displays correctly,
+        // throttled because each render is as long as the answer so far
+        let answer = '';
+        let unrendered = '';
+        let renderTimer: NodeJS.Timeout | undefined;
+        const renderPartial = () => {
+            renderTimer = undefined;
+            this._view?.webview.postMessage({
+                type: 'response',
+                text: unrendered,
+                html: this._renderer.render(answer),
+                isFinal: false
+            });
+            unrendered = '';
+        };
+
+        let failure: ApiError | undefined;
+        try {
+            await this._api.streamCompletion(messages, (token) => {
+                answer += token;
+                unrendered += token;
+                renderTimer ??= setTimeout(renderPartial, ChatViewProvider.RENDER_INTERVAL_MS);
+            }, abortController.signal);
+        } catch (error) {
+            failure = await toApiError(error, provider.displayName);
+        } finally {
+            // The final message below renders the whole answer once more
+            clearTimeout(renderTimer);
+        }
+
+        const superseded = this._abortController !== abortController;
+        if (!superseded) {
+            this._abortController = undefined;
+        }
+
+        // Questions without any answer are left out so a retry does not repeat them. Answers cut
+        // off by a newer query or New Chat are dropped, or they would land in the middle of the next turn
+        if (answer && !superseded) {
+            await this._history.addUserMessage(query);
+            await this._history.addAssistantMessage(answer);
+        }
+
+        // A newer query or New Chat aborted this one; the webview has moved on
+        if (superseded) {
+            return;
+        }
+
+        this._view?.webview.postMessage({
+            type: 'response',
+            text: '',
+            html: answer ? this._renderer.render(answer) : undefined,
+            isFinal: true
         });
+
+        this._lastFailure = failure && { query, context: givenContext, contextShare, error: failure };
+        if (failure) {
+            this._view?.webview.postMessage({
+                type: 'error',
+                text: failure.message,
+                actions: failure.getActions().map(action => ({ action, label: ERROR_ACTION_LABELS[action] }))
+            });
+        }
+    }
+
+    /**
+     * Runs a button of the last error shown in the chat
+     * @param action Action of the clicked button
+     */
+    private async _handleErrorAction(action: ErrorAction): Promise<void> {
+        const failure = this._lastFailure;
+        if (!failure) {
+            return;
+        }
+
+        if (action === ErrorAction.Retry) {
+            await this._handleQuery(failure.query, failure.context, failure.contextShare);
+        } else if (action === ErrorAction.ReduceContext) {
+            // Each attempt halves the file context and history again
+            await this._handleQuery(failure.query, failure.context, failure.contextShare / 2);
+        } else {
+            await runErrorAction(action, failure.error);
+        }
     }
 
-    private _getWebviewContent(): string {
+    /**
+     * Shows how much of the model's context window a request uses
+     * @param messages Messages about to be sent
+     * @param budget Budget the messages were built with
+     */
+    private _postContextUsage(messages: ChatMessage[], budget: PromptBudget): void {
+        const used = countMessageTokens(messages);
+        this._view?.webview.postMessage({
+            type: 'contextUsage',
+            text: `context: ${formatTokenCount(used)} / ${formatTokenCount(budget.contextWindow)} tokens`,
+            title: `The prompt takes about ${used} tokens and up to ${budget.answer} are reserved for the answer, ` +
+                `of a ${budget.contextWindow} token context window`
+        });
+    }
+
+    /**
+     * Builds the prompt context for the active editor and the code relevant to the query
+     * @param query User query, used to search the workspace
+     * @param maxTokens Token budget for the context
+     * @returns Promise resolving to the formatted context; only searched code without an editor
+     */
+    private async _buildEditorContext(query: string, maxTokens: number): Promise<string> {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor) {
+            const snippetBudget = Math.min(maxTokens, this._contextManager.getSnippetBudget());
+            const snippets = await this._contextManager.retrieveSnippets(query, snippetBudget);
+            return this._contextManager.formatSnippetsForAPI(snippets);
+        }
+
+        const contextResult = await this._contextManager.createContextForFile(
+            activeEditor.document.fileName,
+            {
+                document: activeEditor.document,
+                selection: activeEditor.selection,
+                cursor: activeEditor.selection.active,
+                query,
+                maxTokens
+            }
+        );
+        return this._contextManager.formatContextForAPI(contextResult);
+    }
+
+    /**
+     * Inserts a code block at the cursor of the active (or last visible) editor
+     * @param code Code to insert
+     */
+    private async _insertAtCursor(code: string): Promise<void> {
+        // The chat view has focus when the button is clicked, so fall back to a visible editor
+        const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+        if (!editor) {
+            vscode.window.showWarningMessage('Open a file to insert the code into.');
+            return;
+        }
+
+        await editor.edit(editBuilder => {
+            for (const selection of editor.selections) {
+                editBuilder.replace(selection, code);
+            }
+        });
+        await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+    }
+
+    private _getWebviewContent(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'chat.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'chat.css'));
+
         return `
             <!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; img-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>DeepSeek Chat</title>
-                <style>
-                    body { padding: 10px; font-family: var(--vscode-font-family); }
-                    #chat-container { height: 80vh; overflow-y: auto; }
-                    .message { margin: 10px 0; padding: 8px; border-radius: 4px; }
-                    .user { background: var(--vscode-input-background); }
-                    .bot { background: var(--vscode-editor-background); }
-                    #input-container { position: fixed; bottom: 10px; width: 95%; }
-                    textarea { width: 100%; padding: 8px; }
-                    button { margin-top: 5px; float: right; }
-                </style>
+                <link href="${styleUri}" rel="stylesheet">
             </head>
             <body>
                 <div id="chat-container"></div>
                 <div id="input-container">
+                    <div id="context-usage"></div>
                     <textarea id="input" placeholder="Ask DeepSeek..."></textarea>
-                    <button onclick="sendQuery()">Send</button>
+                    <button id="send">Send</button>
+                    <button id="stop">Stop</button>
+                    <button id="clear">New Chat</button>
                 </div>
 
-                <script>
-                    const vscode = acquireVsCodeApi();
-                    const chatContainer = document.getElementById('chat-container');
-                    const input = document.getElementById('input');
-
-                    function sendQuery() {
-                        const text = input.value.trim();
-                        if (!text) return;
-                        
-                        chatContainer.innerHTML += \`
-                            <div class="message user">
-                                <strong>You:</strong><br>\${text}
-                            </div>\`;
-                        
-                        vscode.postMessage({
-                            type: 'query',
-                            text: text
-                        });
-                        
-                        input.value = '';
-                    }
-
-                    window.addEventListener('message', event => {
-                        const message = event.data;
-                        if (message.type === 'response') {
-                            chatContainer.innerHTML += \`
-                                <div class="message bot">
-                                    <strong>DeepSeek:</strong><br>\${message.text}
-                                </div>\`;
-                            chatContainer.scrollTop = chatContainer.scrollHeight;
-                        }
-                    });
-                </script>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
             </body>
             </html>
         `;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Generates a random nonce for the webview Content-Security-Policy
+ * @returns 32-character alphanumeric nonce
+ */
+export function getNonce(): string {
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return nonce;
+}
@@ -0,0 +1,265 @@
+import * as ts from 'typescript';
+import { FileType } from './projectScanner.js';
+
+// What a chunk of a file contains
+export enum ChunkKind {
+    Function = 'function',
+    Class = 'class',
+    Type = 'type',
+    Section = 'section',   // Markdown section
+    Module = 'module'      // Top-level code outside any declaration
+}
+
+// A contiguous piece of a file that is indexed and retrieved as a unit
+export interface CodeChunk {
+    name: string;           // Declaration name, e.g. `AuthService.verifyToken`, or the heading of a section
+    kind: ChunkKind;
+    startLine: number;      // 0-based, inclusive
+    endLine: number;        // 0-based, inclusive
+    text: string;
+}
+
+// Longest chunk kept whole; longer declarations are split into members or windows
+const MAX_CHUNK_LINES = 80;
+
+// Declaration lines that start a chunk, by language
+const DECLARATION_PATTERNS: Partial<Record<FileType, { pattern: RegExp; kind: (match: RegExpMatchArray) => ChunkKind }>> = {
+    [FileType.Python]: {
+        pattern: /^(\s*)(?:async\s+)?(def|class)\s+(\w+)/,
+        kind: match => match[2] === 'class' ? ChunkKind.Class : ChunkKind.Function
+    },
+    [FileType.Go]: {
+        pattern: /^()(func|type)\s+(?:\([^)]*\)\s*)?(\w+)/,
+        kind: match => match[2] === 'type' ? ChunkKind.Type : ChunkKind.Function
+    },
+    [FileType.Rust]: {
+        pattern: /^(\s*)(?:pub(?:\([^)]*\))?\s+)?(?:async\s+|const\s+|unsafe\s+)*(fn|struct|enum|trait|impl|mod)\b(?:<[^>]*>)?\s*([\w:]+)/,
+        kind: match => match[2] === 'fn' ? ChunkKind.Function : match[2] === 'impl' || match[2] === 'mod' ? ChunkKind.Class : ChunkKind.Type
+    },
+    [FileType.Java]: {
+        pattern: /^(\s*)(?!(?:return|new|else|throw|if|while|for|switch|catch)\b)(?:(?:public|protected|private|static|final|abstract|synchronized|native|default)\s+)*(?:(class|interface|enum|record)\s+(\w+)|[\w<>[\],.?\s]+?\s+(\w+)\s*\([^;]*$)/,
+        kind: match => match[2] ? ChunkKind.Class : ChunkKind.Function
+    }
+};
+
+/**
+ * Splits a file into chunks along its functions and classes. JavaScript and
+ * TypeScript are parsed, other languages are split at declaration lines,
+ * Markdown at headings; anything else is cut into fixed windows.
+ * @param content File content
+ * @param type Type of the file
+ * @param fileName Name of the file, used for top-level code and to pick the TypeScript dialect
+ * @returns Chunks in file order, covering every non-blank part of the file
+ */
+export function chunkFile(content: string, type: FileType, fileName: string): CodeChunk[] {
+    const lines = content.split('\n');
+    let ranges: ChunkRange[];
+
+    if (type === FileType.JavaScript || type === FileType.TypeScript) {
+        ranges = chunkScript(content, fileName);
+    } else if (type === FileType.Markdown) {
+        ranges = chunkAtLines(lines, fileName, line => {
+            const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+            return heading ? { name: heading[1], kind: ChunkKind.Section, indent: 0 } : undefined;
+        });
+    } else if (DECLARATION_PATTERNS[type]) {
+        const { pattern, kind } = DECLARATION_PATTERNS[type]!;
+        ranges = chunkAtLines(lines, fileName, line => {
+            const match = line.match(pattern);
+            return match ? { name: match[3] ?? match[4], kind: kind(match), indent: match[1].length } : undefined;
+        });
+    } else {
+        ranges = [{ name: fileName, kind: ChunkKind.Module, startLine: 0, endLine: lines.length - 1 }];
+    }
+
+    return ranges
+        .flatMap(range => splitLongRange(range))
+        .map(range => ({ ...range, text: lines.slice(range.startLine, range.endLine + 1).join('\n') }))
+        .filter(chunk => chunk.text.trim());
+}
+
+// A chunk before its text is cut out
+type ChunkRange = Omit<CodeChunk, 'text'>;
+
+/**
+ * Chunks JavaScript/TypeScript along top-level declarations; classes too long
+ * for one chunk are split into their members
+ * @param content File content
+ * @param fileName File name, used for the dialect and for top-level code
+ * @returns Chunk ranges in file order
+ */
+function chunkScript(content: string, fileName: string): ChunkRange[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+    const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line;
+    const ranges: ChunkRange[] = [];
+
+    // Imports and other loose statements between declarations are kept together
+    let loose: ChunkRange | undefined;
+    const flushLoose = () => {
+        if (loose) {
+            ranges.push(loose);
+            loose = undefined;
+        }
+    };
+
+    for (const statement of sourceFile.statements) {
+        // Leading JSDoc belongs to the declaration
+        const startLine = lineOf(statement.getStart(sourceFile, true));
+        const endLine = lineOf(statement.getEnd());
+        const declaration = describeDeclaration(statement);
+
+        if (!declaration) {
+            if (loose && startLine - loose.startLine < MAX_CHUNK_LINES) {
+                loose.endLine = endLine;
+            } else {
+                flushLoose();
+                loose = { name: fileName, kind: ChunkKind.Module, startLine, endLine };
+            }
+            continue;
+        }
+
+        flushLoose();
+        if (ts.isClassDeclaration(statement) && endLine - startLine >= MAX_CHUNK_LINES && statement.members.length > 0) {
+            // Class header (up to the first member) then one chunk per method
+            const firstMemberLine = lineOf(statement.members[0].getStart(sourceFile));
+            ranges.push({ name: declaration.name, kind: ChunkKind.Class, startLine, endLine: Math.max(startLine, firstMemberLine - 1) });
+            for (const member of statement.members) {
+                // Fields stay with the header or the member before them
+                if (!ts.isFunctionLike(member) && !ts.isClassStaticBlockDeclaration(member)) {
+                    ranges[ranges.length - 1].endLine = lineOf(member.getEnd());
+                    continue;
+                }
+
+                const memberName = member.name && (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name) || ts.isStringLiteral(member.name))
+                    ? member.name.text
+                    : ts.isConstructorDeclaration(member) ? 'constructor' : 'member';
+                ranges.push({
+                    name: `${declaration.name}.${memberName}`,
+                    kind: ChunkKind.Function,
+                    startLine: lineOf(member.getStart(sourceFile, true)),
+                    endLine: lineOf(member.getEnd())
+                });
+            }
+        } else {
+            ranges.push({ ...declaration, startLine, endLine });
+        }
+    }
+    flushLoose();
+
+    return ranges;
+}
+
+/**
+ * Names a top-level statement that declares a function, class or type
+ * @param statement Statement to describe
+ * @returns Name and kind, or undefined for other statements
+ */
+function describeDeclaration(statement: ts.Statement): { name: string; kind: ChunkKind } | undefined {
+    const isDefault = ts.canHaveModifiers(statement) &&
+        (ts.getModifiers(statement) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(statement)) {
+        return { name: statement.name?.text ?? (isDefault ? 'default' : 'function'), kind: ChunkKind.Function };
+    }
+    if (ts.isClassDeclaration(statement)) {
+        return { name: statement.name?.text ?? (isDefault ? 'default' : 'class'), kind: ChunkKind.Class };
+    }
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+        return { name: statement.name.text, kind: ChunkKind.Type };
+    }
+    if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+        return { name: statement.name.text, kind: ChunkKind.Class };
+    }
+
+    // `const handler = async (req) => { ... }` is a function in all but syntax
+    if (ts.isVariableStatement(statement)) {
+        const declaration = statement.declarationList.declarations[0];
+        const initializer = declaration?.initializer;
+        if (declaration && ts.isIdentifier(declaration.name) && initializer &&
+            (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer) || ts.isClassExpression(initializer))) {
+            return {
+                name: declaration.name.text,
+                kind: ts.isClassExpression(initializer) ? ChunkKind.Class : ChunkKind.Function
+            };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Chunks a file at the lines that start a declaration or section. A
+ * declaration runs until the next one at the same or a lower indentation;
+ * nested declarations only start chunks when their parent is too long.
+ * @param lines Lines of the file
+ * @param fileName File name, used for code before the first declaration
+ * @param matchLine Recognizes a declaration line
+ * @returns Chunk ranges in file order
+ */
+function chunkAtLines(
+    lines: string[],
+    fileName: string,
+    matchLine: (line: string) => { name: string; kind: ChunkKind; indent: number } | undefined
+): ChunkRange[] {
+    const starts = lines
+        .map((line, index) => ({ index, match: matchLine(line) }))
+        .filter((start): start is { index: number; match: NonNullable<typeof start.match> } => !!start.match);
+
+    const ranges: ChunkRange[] = [];
+    const build = (from: number, to: number, candidates: typeof starts, prefix: string) => {
+        const topIndent = Math.min(...candidates.map(start => start.match.indent));
+        const top = candidates.filter(start => start.match.indent === topIndent);
+
+        if (top.length === 0 || top[0].index > from) {
+            ranges.push({ name: prefix || fileName, kind: prefix ? ChunkKind.Class : ChunkKind.Module, startLine: from, endLine: (top[0]?.index ?? to + 1) - 1 });
+        }
+
+        top.forEach((start, i) => {
+            // Comments, decorators and attributes directly above belong to the declaration
+            let startLine = start.index;
+            const floor = i > 0 ? top[i - 1].index + 1 : from;
+            while (startLine > floor && /^\s*(#|\/\/|\/\*|\*|@)/.test(lines[startLine - 1]) && !matchLine(lines[startLine - 1])) {
+                startLine--;
+            }
+            if (ranges.length > 0 && ranges[ranges.length - 1].endLine >= startLine) {
+                ranges[ranges.length - 1].endLine = startLine - 1;
+            }
+
+            const endLine = i + 1 < top.length ? top[i + 1].index - 1 : to;
+            const name = prefix ? `${prefix}.${start.match.name}` : start.match.name;
+            const nested = candidates.filter(candidate => candidate.index > start.index && candidate.index <= endLine);
+
+            if (endLine - startLine >= MAX_CHUNK_LINES && nested.length > 0 && start.match.kind !== ChunkKind.Function) {
+                build(startLine, endLine, nested, name);
+            } else {
+                ranges.push({ name, kind: start.match.kind, startLine, endLine });
+            }
+        });
+    };
+
+    build(0, lines.length - 1, starts, '');
+    return ranges.filter(range => range.endLine >= range.startLine);
+}
+
+/**
+ * Cuts a range longer than the chunk limit into consecutive windows
+ * @param range Range to split
+ * @returns The range itself, or its parts
+ */
+function splitLongRange(range: ChunkRange): ChunkRange[] {
+    const length = range.endLine - range.startLine + 1;
+    if (length <= MAX_CHUNK_LINES) {
+        return [range];
+    }
+
+    const parts: ChunkRange[] = [];
+    for (let start = range.startLine, part = 1; start <= range.endLine; start += MAX_CHUNK_LINES, part++) {
+        parts.push({
+            ...range,
+            name: `${range.name} (part ${part})`,
+            startLine: start,
+            endLine: Math.min(range.endLine, start + MAX_CHUNK_LINES - 1)
+        });
+    }
+    return parts;
+}
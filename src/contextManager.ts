@@ -1,19 +1,581 @@
 // src/contextManager.ts
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { Dependency, DependencyManager } from './dependencyManager.js';
+import { ProjectScanner } from './projectScanner.js';
+import { ProjectIndex } from './projectIndex.js';
+import { IgnoreMatcher, createIgnoreMatcher } from './ignoreRules.js';
+import { SemanticIndex } from './semanticIndex.js';
+import { SymbolIndex, SymbolInfo } from './symbolIndex.js';
+import { countTokens, truncateToTokens } from './tokenBudget.js';
+
+const readFile = promisify(fs.readFile);
+
+// Why a related file was pulled into the context
+export enum RelationKind {
+    Dependency = 'dependency', // The primary file imports it
+    Dependent = 'dependent'    // It imports the primary file
+}
+
+// A file related to the primary file, possibly truncated to fit the budget
+export interface RelatedFileContext {
+    path: string;
+    relativePath: string;
+    relation: RelationKind;
+    content: string;
+    truncated: boolean;
+}
+
+// A function, class or section found by searching the code for the question
+export interface CodeSnippet {
+    path: string;
+    relativePath: string;
+    name: string;           // Declaration or section name
+    startLine: number;      // 0-based
+    endLine: number;        // 0-based
+    content: string;
+}
+
+// A declaration the focused code uses, or a function calling it, cut out of the file declaring it
+export interface DefinitionContext {
+    path: string;
+    relativePath: string;
+    name: string;
+    kind: string;           // Symbol kind, e.g. `function` or `class`
+    startLine: number;      // 0-based
+    endLine: number;        // 0-based
+    content: string;
+    truncated: boolean;
+    caller?: boolean;       // Calls the function at the cursor rather than being used by it
+}
+
+// Everything the model should see about the file the user is working on
+export interface FileContext {
+    primaryFile: {
+        path: string;
+        relativePath: string;
+        content: string;        // Whole file, or empty when it did not fit the budget
+        truncated: boolean;
+        excluded?: boolean;     // Kept out of AI context by .aionignore or aion.exclude
+    };
+    selection?: {
+        text: string;
+        startLine: number;      // 0-based
+        endLine: number;        // 0-based
+    };
+    cursor?: {
+        line: number;           // 0-based
+        startLine: number;      // First line of the neighbourhood (0-based)
+        text: string;           // Lines around the cursor
+    };
+    relatedFiles: RelatedFileContext[];
+    snippets: CodeSnippet[];    // Code relevant to the question, from elsewhere in the workspace
+    definitions: DefinitionContext[]; // Declarations the selection or current function uses, and the current function's callers, instead of whole related files
+}
+
+// Editor state used to focus the context
+export interface ContextOptions {
+    document?: vscode.TextDocument;  // Open document (used instead of disk content when given)
+    selection?: vscode.Range;        // Current selection
+    cursor?: vscode.Position;        // Cursor position
+    query?: string;                  // Question the context is for, used to search for relevant code
+    maxTokens?: number;              // Token budget, instead of `aion.context.maxTokens`
+}
 
 export class ContextManager {
-    public async createContextForFile(filePath: string): Promise<any> {
-        // Minimal implementation
-        return {
+    // Number of lines kept above and below the cursor
+    private static readonly CURSOR_RADIUS = 40;
+
+    // Share of the budget reserved for the primary file
+    private static readonly PRIMARY_BUDGET_SHARE = 0.6;
+
+    // Search results considered for the snippets attached to a question
+    private static readonly MAX_SNIPPETS = 8;
+
+    // Callers of the function at the cursor included after the declarations it uses
+    private static readonly MAX_CALLERS = 3;
+
+    private dependencyManager: DependencyManager;
+
+    // Matchers for the AI context exclusions by workspace folder, cleared when the ignore rules change
+    private contextMatchers: Map<string, IgnoreMatcher> = new Map();
+
+    /**
+     * @param projectIndex Live project index; without one, the workspace is scanned on every query
+     * @param semanticIndex Code search index; without one, no snippets are retrieved for questions
+     * @param symbolIndex Symbol index; without one, related files are always included whole
+     */
+    constructor(
+        private projectIndex?: ProjectIndex,
+        private semanticIndex?: SemanticIndex,
+        private symbolIndex?: SymbolIndex
+    ) {
+        this.dependencyManager = projectIndex?.dependencyManager ?? new DependencyManager();
+        projectIndex?.onDidChangeIgnoreRules(() => this.contextMatchers.clear());
+    }
+
+    /**
+     * Builds the context for a file: its content or selection, the cursor
+     * neighbourhood, code found by searching for the question, and either the
+     * declarations the focused code uses or the files related through imports
+     * @param filePath Path of the primary file
+     * @param options Editor state used to focus the context
+     * @returns Promise resolving to the assembled context
+     */
+    public async createContextForFile(filePath: string, options: ContextOptions = {}): Promise<FileContext> {
+        const context: FileContext = {
             primaryFile: {
                 path: filePath,
-                content: ''
-            }
+                relativePath: vscode.workspace.asRelativePath(filePath),
+                content: '',
+                truncated: false
+            },
+            relatedFiles: [],
+            snippets: [],
+            definitions: []
         };
+
+        // Nothing from the file may be sent, not even the selection
+        if (await this.isExcludedFromContext(filePath)) {
+            context.primaryFile.excluded = true;
+            return context;
+        }
+
+        const maxTokens = options.maxTokens ?? vscode.workspace.getConfiguration('aion').get<number>('context.maxTokens', 6000);
+        const content = options.document
+            ? options.document.getText()
+            : await this.readFileSafe(filePath);
+        const lines = content.split('\n');
+
+        let remaining = maxTokens;
+
+        // Selection always goes in, it is what the user is asking about
+        if (options.selection && !options.selection.isEmpty) {
+            const text = lines.slice(options.selection.start.line, options.selection.end.line + 1).join('\n');
+            context.selection = {
+                text: truncateToTokens(text, remaining).text,
+                startLine: options.selection.start.line,
+                endLine: options.selection.end.line
+            };
+            remaining -= countTokens(context.selection.text);
+        }
+
+        // Whole file when it fits, otherwise only the neighbourhood of the cursor
+        const primaryBudget = Math.floor(remaining * ContextManager.PRIMARY_BUDGET_SHARE);
+        const contentTokens = countTokens(content);
+        if (contentTokens <= primaryBudget) {
+            context.primaryFile.content = content;
+            remaining -= contentTokens;
+        } else {
+            context.primaryFile.truncated = true;
+            const cursorLine = options.cursor?.line ?? options.selection?.start.line ?? 0;
+            const startLine = Math.max(0, cursorLine - ContextManager.CURSOR_RADIUS);
+            const endLine = Math.min(lines.length, cursorLine + ContextManager.CURSOR_RADIUS + 1);
+            const text = truncateToTokens(lines.slice(startLine, endLine).join('\n'), primaryBudget).text;
+
+            context.cursor = { line: cursorLine, startLine, text };
+            remaining -= countTokens(text);
+        }
+
+        // Code found for the question comes before files that are merely related
+        if (options.query) {
+            const snippetBudget = Math.min(remaining, this.getSnippetBudget());
+            context.snippets = await this.retrieveSnippets(
+                options.query,
+                snippetBudget,
+                context.primaryFile.content ? [filePath] : []
+            );
+            remaining -= context.snippets.reduce((sum, snippet) => sum + countTokens(snippet.content), 0);
+        }
+
+        // The declarations the focused code uses say more per token than whole files
+        const definitions = await this.collectDefinitions(filePath, options, remaining, !!context.primaryFile.content);
+        if (definitions) {
+            context.definitions = definitions;
+        } else {
+            context.relatedFiles = await this.collectRelatedFiles(filePath, remaining);
+        }
+
+        return context;
+    }
+
+    /**
+     * Searches the workspace for the code most relevant to a question
+     * @param query Question or keywords
+     * @param maxTokens Token budget for all snippets
+     * @param excludePaths Files whose code is already in the context
+     * @returns Promise resolving to the snippets, most relevant first
+     */
+    public async retrieveSnippets(query: string, maxTokens: number, excludePaths: string[] = []): Promise<CodeSnippet[]> {
+        if (!this.semanticIndex || maxTokens <= 0) {
+            return [];
+        }
+
+        let results;
+        try {
+            // Chat turns never wait for the workspace to be indexed or embedded
+            results = await this.semanticIndex.searchIndexed(query, ContextManager.MAX_SNIPPETS);
+        } catch (error) {
+            console.error('Error searching code:', error);
+            return [];
+        }
+
+        const snippets: CodeSnippet[] = [];
+        let remaining = maxTokens;
+
+        for (const result of results) {
+            if (remaining <= 0) {
+                break;
+            }
+            if (excludePaths.includes(result.path) || await this.isExcludedFromContext(result.path)) {
+                continue;
+            }
+
+            const lines = (await this.readFileSafe(result.path)).split('\n');
+            const { text } = truncateToTokens(lines.slice(result.startLine, result.endLine + 1).join('\n'), remaining);
+            if (!text.trim()) {
+                continue;
+            }
+
+            snippets.push({
+                path: result.path,
+                relativePath: result.relativePath,
+                name: result.name,
+                startLine: result.startLine,
+                endLine: result.startLine + text.split('\n').length - 1,
+                content: text
+            });
+            remaining -= countTokens(text);
+        }
+
+        return snippets;
+    }
+
+    /**
+     * Gets the token budget for code retrieved by searching for the question
+     * @returns Budget from `aion.semanticSearch.contextTokens`
+     */
+    public getSnippetBudget(): number {
+        return vscode.workspace.getConfiguration('aion').get<number>('semanticSearch.contextTokens', 1500);
+    }
+
+    /**
+     * Collects related files without the primary file itself
+     * @param filePath Path of the primary file
+     * @param maxTokens Token budget for all related files
+     * @param includeDependents Whether to also search the workspace for files importing the primary file
+     * @returns Promise resolving to the related files in rank order
+     */
+    public async getRelatedFiles(
+        filePath: string,
+        maxTokens: number,
+        includeDependents: boolean = true
+    ): Promise<RelatedFileContext[]> {
+        return this.collectRelatedFiles(filePath, maxTokens, includeDependents);
+    }
+
+    /**
+     * Checks whether a file must be kept out of AI context. Only `.aionignore`
+     * and `aion.exclude` apply here: a git-ignored file the user opened is fine.
+     * @param filePath Absolute path to check
+     * @returns Promise resolving to true if no content of the file may be sent
+     */
+    public async isExcludedFromContext(filePath: string): Promise<boolean> {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (!folder) {
+            return false;
+        }
+
+        // Without an index nothing tells when the rules change, so they are read again each time
+        let matcher = this.contextMatchers.get(folder.uri.fsPath);
+        if (!matcher) {
+            matcher = createIgnoreMatcher(folder.uri.fsPath, false);
+            if (this.projectIndex) {
+                this.contextMatchers.set(folder.uri.fsPath, matcher);
+            }
+        }
+        return matcher.isPathIgnored(filePath, false);
+    }
+
+    /**
+     * Formats a context as prompt text
+     * @param context Context from createContextForFile
+     * @returns Prompt text describing the context
+     */
+    public formatContextForAPI(context: FileContext): string {
+        const primary = context.primaryFile;
+        const language = this.languageForPath(primary.path);
+        const sections: string[] = [];
+
+        if (primary.excluded) {
+            sections.push(`Current file: ${primary.relativePath} (excluded from AI context, its content is not shared)`);
+        } else if (primary.content) {
+            sections.push(`Current file: ${primary.relativePath}\n${this.fence(primary.content, language)}`);
+        } else {
+            sections.push(`Current file: ${primary.relativePath} (too large to include in full)`);
+        }
+
+        if (context.selection) {
+            sections.push(
+                `Selected code (lines ${context.selection.startLine + 1}-${context.selection.endLine + 1}):\n` +
+                this.fence(context.selection.text, language)
+            );
+        }
+
+        if (context.cursor) {
+            sections.push(
+                `Code around the cursor (line ${context.cursor.line + 1}, excerpt starts at line ${context.cursor.startLine + 1}):\n` +
+                this.fence(context.cursor.text, language)
+            );
+        }
+
+        for (const definition of context.definitions) {
+            const truncated = definition.truncated ? ', truncated' : '';
+            const relation = definition.caller ? 'Caller of the code in question' : 'Definition used by the code in question';
+            sections.push(
+                `${relation}: ${definition.kind} ${definition.name} in ` +
+                `${definition.relativePath}, lines ${definition.startLine + 1}-${definition.endLine + 1}${truncated}\n` +
+                this.fence(definition.content, this.languageForPath(definition.path))
+            );
+        }
+
+        if (context.snippets.length > 0) {
+            sections.push(this.formatSnippetsForAPI(context.snippets));
+        }
+
+        for (const related of context.relatedFiles) {
+            const relation = related.relation === RelationKind.Dependency
+                ? 'imported by the current file'
+                : 'imports the current file';
+            const truncated = related.truncated ? ', truncated' : '';
+            sections.push(
+                `Related file: ${related.relativePath} (${relation}${truncated})\n` +
+                this.fence(related.content, this.languageForPath(related.path))
+            );
+        }
+
+        return sections.join('\n\n');
+    }
+
+    /**
+     * Formats retrieved snippets as prompt text
+     * @param snippets Snippets from retrieveSnippets
+     * @returns Prompt text with one fenced block per snippet
+     */
+    public formatSnippetsForAPI(snippets: CodeSnippet[]): string {
+        return snippets
+            .map(snippet =>
+                `Relevant code: ${snippet.relativePath}, lines ${snippet.startLine + 1}-${snippet.endLine + 1} (${snippet.name})\n` +
+                this.fence(snippet.content, this.languageForPath(snippet.path)))
+            .join('\n\n');
+    }
+
+    /**
+     * Cuts out the declarations used by the selection, or by the function
+     * around the cursor followed by a few of its callers, using the language's
+     * symbol, definition and reference providers
+     * @param filePath Path of the primary file
+     * @param options Editor state with the selection or cursor
+     * @param budget Token budget for all definitions
+     * @param primaryIncluded Whether the whole primary file is already in the context
+     * @returns Promise resolving to the definitions in order of first use, then the callers,
+     * or undefined when there is no focused code or the language cannot resolve its definitions
+     */
+    private async collectDefinitions(
+        filePath: string,
+        options: ContextOptions,
+        budget: number,
+        primaryIncluded: boolean
+    ): Promise<DefinitionContext[] | undefined> {
+        if (!this.symbolIndex || budget <= 0 ||
+            !vscode.workspace.getConfiguration('aion').get<boolean>('context.symbolDefinitions', true)) {
+            return undefined;
+        }
+
+        const uri = options.document?.uri ?? vscode.Uri.file(filePath);
+        let used: SymbolInfo[] = [];
+        let callers: SymbolInfo[] = [];
+        try {
+            if (options.selection && !options.selection.isEmpty) {
+                used = await this.symbolIndex.getDefinitionsUsedIn(uri, options.selection);
+            } else if (options.cursor) {
+                const focus = await this.symbolIndex.findFunctionAt(uri, options.cursor);
+                if (focus) {
+                    [used, callers] = await Promise.all([
+                        this.symbolIndex.getCallees(focus),
+                        this.symbolIndex.getCallers(focus)
+                    ]);
+                }
+            }
+        } catch (error) {
+            console.error(`Error collecting definitions for ${filePath}:`, error);
+        }
+
+        // Mutually recursive functions are both used and callers; they are shown once
+        const isUsed = (symbol: SymbolInfo) => used.some(definition =>
+            definition.uri.toString() === symbol.uri.toString() && definition.range.isEqual(symbol.range));
+        const entries = [
+            ...used.map(definition => ({ definition, caller: false })),
+            ...callers.filter(caller => !isUsed(caller)).slice(0, ContextManager.MAX_CALLERS)
+                .map(definition => ({ definition, caller: true }))
+        ];
+        if (entries.length === 0) {
+            return undefined;
+        }
+
+        const definitions: DefinitionContext[] = [];
+        let remaining = budget;
+
+        for (const { definition, caller } of entries) {
+            if (remaining <= 0) {
+                break;
+            }
+
+            const definitionPath = definition.uri.fsPath;
+            if ((primaryIncluded && definitionPath === filePath) || await this.isExcludedFromContext(definitionPath)) {
+                continue;
+            }
+
+            let text: string;
+            try {
+                const document = await vscode.workspace.openTextDocument(definition.uri);
+                text = document.getText(new vscode.Range(definition.range.start.line, 0, definition.range.end.line + 1, 0));
+            } catch (error) {
+                console.error(`Error reading file ${definitionPath}:`, error);
+                continue;
+            }
+
+            const { text: content, truncated } = truncateToTokens(text.replace(/\n$/, ''), remaining);
+            definitions.push({
+                path: definitionPath,
+                relativePath: vscode.workspace.asRelativePath(definitionPath),
+                name: definition.containerName ? `${definition.containerName}.${definition.name}` : definition.name,
+                kind: vscode.SymbolKind[definition.kind].toLowerCase(),
+                startLine: definition.range.start.line,
+                endLine: definition.range.start.line + content.split('\n').length - 1,
+                content,
+                truncated,
+                caller
+            });
+            remaining -= countTokens(content);
+        }
+
+        return definitions;
+    }
+
+    /**
+     * Analyzes a file's dependencies afresh when there is no project index.
+     * With an index its graph is read instead, leaving the index's cache intact.
+     * @param filePath File to analyze
+     * @returns Promise resolving to the file's direct dependencies
+     */
+    private async getUncachedDependencies(filePath: string): Promise<Dependency[]> {
+        // The file may have been edited since it was last analyzed
+        this.dependencyManager.clearCache(filePath);
+        return this.dependencyManager.getFileDependencies(filePath);
+    }
+
+    /**
+     * Collects files imported by or importing the primary file, ranked and
+     * truncated so that together they fit the remaining budget
+     * @param filePath Path of the primary file
+     * @param budget Token budget for all related files
+     * @param includeDependents Whether to also search the workspace for files importing the primary file
+     * @returns Promise resolving to the related files in rank order
+     */
+    private async collectRelatedFiles(
+        filePath: string,
+        budget: number,
+        includeDependents: boolean = true
+    ): Promise<RelatedFileContext[]> {
+        if (budget <= 0) {
+            return [];
+        }
+
+        const candidates = new Map<string, { relation: RelationKind; score: number }>();
+        const sourceDir = path.dirname(filePath);
+
+        try {
+            const graph = this.projectIndex ? await this.projectIndex.getDependencyGraph() : undefined;
+            const dependencies = graph
+                ? [...graph.edges.get(filePath)?.values() ?? []]
+                : await this.getUncachedDependencies(filePath);
+            for (const dep of dependencies) {
+                if (dep.isExternal || dep.target === filePath || !fs.existsSync(dep.target)) {
+                    continue;
+                }
+                // Files the primary file uses rank highest, more references rank higher
+                const score = 2 + (dep.lineNumbers?.length ?? 0) * 0.1 + (path.dirname(dep.target) === sourceDir ? 0.5 : 0);
+                const existing = candidates.get(dep.target);
+                if (!existing || existing.score < score) {
+                    candidates.set(dep.target, { relation: RelationKind.Dependency, score });
+                }
+            }
+
+            if (includeDependents) {
+                const dependents = graph
+                    ? this.dependencyManager.getReverseDependenciesFromGraph(graph, filePath)
+                    : await this.dependencyManager.getFileReverseDependencies(filePath, await new ProjectScanner().scanWorkspace());
+                for (const dependent of dependents) {
+                    if (candidates.has(dependent) || dependent === filePath) {
+                        continue;
+                    }
+                    const score = 1 + (path.dirname(dependent) === sourceDir ? 0.5 : 0);
+                    candidates.set(dependent, { relation: RelationKind.Dependent, score });
+                }
+            }
+        } catch (error) {
+            console.error(`Error collecting related files for ${filePath}:`, error);
+        }
+
+        const ranked = [...candidates.entries()].sort((a, b) => b[1].score - a[1].score);
+        const relatedFiles: RelatedFileContext[] = [];
+        let remaining = budget;
+
+        for (const [relatedPath, { relation }] of ranked) {
+            if (remaining <= 0) {
+                break;
+            }
+
+            if (await this.isExcludedFromContext(relatedPath)) {
+                continue;
+            }
+
+            const content = await this.readFileSafe(relatedPath);
+            if (!content) {
+                continue;
+            }
+
+            const { text, truncated } = truncateToTokens(content, remaining);
+            relatedFiles.push({
+                path: relatedPath,
+                relativePath: vscode.workspace.asRelativePath(relatedPath),
+                relation,
+                content: text,
+                truncated
+            });
+            remaining -= countTokens(text);
+        }
+
+        return relatedFiles;
+    }
+
+    private fence(content: string, language: string): string {
+        return '```' + language + '\n' + content + '\n```';
+    }
+
+    private languageForPath(filePath: string): string {
+        return path.extname(filePath).slice(1).toLowerCase();
     }
 
-    public formatContextForAPI(context: any): string {
-        // Minimal implementation
-        return `File: ${context.primaryFile.path}`;
+    private async readFileSafe(filePath: string): Promise<string> {
+        try {
+            return await readFile(filePath, 'utf-8');
+        } catch (error) {
+            console.error(`Error reading file ${filePath}:`, error);
+            return '';
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { ChatMessage } from './deepseekapi.js';
+import { countTokens } from './tokenBudget.js';
+
+const DEFAULT_SYSTEM_PROMPT =
+    'You are AION, an expert programming assistant embedded in VS Code. ' +
+    'Answer questions about the user\'s code concisely and use fenced code blocks for code.';
+
+export class ConversationHistory {
+    private static readonly STORAGE_KEY = 'aion.conversationHistory';
+
+    // User and assistant turns, oldest first (the system prompt is never stored)
+    private turns: ChatMessage[];
+
+    constructor(
+        private storage: vscode.Memento,
+        private systemPrompt: string = DEFAULT_SYSTEM_PROMPT
+    ) {
+        this.turns = storage.get<ChatMessage[]>(ConversationHistory.STORAGE_KEY, []);
+    }
+
+    /**
+     * Gets the stored user and assistant turns
+     * @returns Copy of the conversation turns, oldest first
+     */
+    public getTurns(): ChatMessage[] {
+        return [...this.turns];
+    }
+
+    /**
+     * Records a user turn and persists the history
+     * @param content Text the user asked
+     */
+    public async addUserMessage(content: string): Promise<void> {
+        this.turns.push({ role: 'user', content });
+        await this.save();
+    }
+
+    /**
+     * Records an assistant turn and persists the history
+     * @param content Text the model answered
+     */
+    public async addAssistantMessage(content: string): Promise<void> {
+        this.turns.push({ role: 'assistant', content });
+        await this.save();
+    }
+
+    /**
+     * Gets the system prompt sent first in every request
+     * @returns System prompt text
+     */
+    public getSystemPrompt(): string {
+        return this.systemPrompt;
+    }
+
+    /**
+     * Builds the messages for the next request, keeping as many recent turns as fit a token budget
+     * @param currentPrompt Prompt for the latest user turn, including any file context
+     * @param tokenBudget Maximum tokens for the earlier turns
+     * @returns Messages to send to the API
+     */
+    public buildMessages(currentPrompt: string, tokenBudget: number): ChatMessage[] {
+        const system: ChatMessage = { role: 'system', content: this.systemPrompt };
+        const current: ChatMessage = { role: 'user', content: currentPrompt };
+
+        let remaining = tokenBudget;
+
+        // Walk backwards so the most recent turns are kept when the budget runs out
+        const history: ChatMessage[] = [];
+        for (let i = this.turns.length - 1; i >= 0; i--) {
+            const cost = countTokens(this.turns[i].content);
+            if (cost > remaining) {
+                break;
+            }
+            history.unshift(this.turns[i]);
+            remaining -= cost;
+        }
+
+        // Never start the history with an orphaned assistant answer
+        if (history.length > 0 && history[0].role === 'assistant') {
+            history.shift();
+        }
+
+        return [system, ...history, current];
+    }
+
+    /**
+     * Removes all turns and persists the empty history
+     */
+    public async clear(): Promise<void> {
+        this.turns = [];
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        await this.storage.update(ConversationHistory.STORAGE_KEY, this.turns);
+    }
+}
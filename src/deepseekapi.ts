@@ -1,37 +1,369 @@
 import axios from 'axios';
 import * as vscode from 'vscode';
+import { createModelProvider, ModelProvider } from './modelProvider.js';
+import { ApiKeyManager } from './apiKeyManager.js';
+import { ApiError, ApiErrorKind, RetryOptions, toApiError, withRetries } from './apiErrors.js';
+import { countMessageTokens, countTokens, fitAnswerTokens, formatTokenCount } from './tokenBudget.js';
+import { TokenUsage, UsageTracker, formatCost } from './usageTracker.js';
+
+// A single turn in an OpenAI-style chat conversation
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// The `usage` object of OpenAI-style responses
+interface ReportedUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    cost?: number;          // OpenRouter only, in USD
+}
+
+// What one line of a completion stream carries
+interface StreamEvent {
+    content: string;
+    usage?: ReportedUsage;  // Sent in the last chunk when `stream_options.include_usage` is set
+}
 
 export class DeepSeekAPI {
-    private static readonly BASE_URL = 'https://api.openrouter.ai/api/v1';
-    private apiKey: string;
+    // Shortest answer worth requesting; a prompt leaving less room is rejected before sending
+    private static readonly MIN_ANSWER_TOKENS = 256;
+
+    // Backoff for transient failures: 1s, 2s, 4s... unless the server sends `Retry-After`
+    private static readonly RETRY_BASE_DELAY_MS = 1000;
+
+    // Rate limits asking for a longer wait are reported instead of waited out
+    private static readonly MAX_RETRY_DELAY_MS = 60000;
+
+    private apiKeys: ApiKeyManager;
+    private usage?: UsageTracker;
+
+    /**
+     * @param apiKeys Source of the providers' API keys
+     * @param usage Tracker recording the tokens and cost of each request and enforcing the monthly budget
+     */
+    constructor(apiKeys: ApiKeyManager, usage?: UsageTracker) {
+        this.apiKeys = apiKeys;
+        this.usage = usage;
+    }
+
+    /**
+     * Requests a complete answer, retrying transient failures
+     * @param context Prompt or full conversation to send
+     * @param maxTokens Maximum number of tokens to generate (defaults to the provider setting)
+     * @param signal Optional signal that aborts the request
+     * @returns Promise resolving to the answer, or an empty string when aborted
+     * @throws ApiError when the request fails
+     */
+    async getCompletion(context: string | ChatMessage[], maxTokens?: number, signal?: AbortSignal): Promise<string> {
+        const provider = createModelProvider();
+        this.checkBudget();
+        const apiKey = await this.requireApiKey(provider);
+        const body = this.buildRequestBody(provider, context, maxTokens);
+
+        try {
+            const response = await withRetries(() => axios.post(provider.getChatCompletionsUrl(), body, {
+                headers: provider.getHeaders(apiKey),
+                signal
+            }), provider.displayName, this.getRetryOptions(signal));
+
+            const answer = response.data?.choices?.[0]?.message?.content || '';
+            this.recordUsage(provider, response.data?.usage, () => ({
+                promptTokens: countMessageTokens(this.toMessages(context)),
+                completionTokens: countTokens(answer)
+            }));
+            return answer;
+        } catch (error) {
+            if (axios.isCancel(error) || signal?.aborted) {
+                return '';
+            }
+            throw await toApiError(error, provider.displayName);
+        }
+    }
+
+    /**
+     * Requests a completion as a server-sent event stream. Transient failures
+     * are retried until the stream starts; a stream that breaks off is not
+     * restarted, since its tokens have already been passed on.
+     * @param context Prompt or full conversation to send
+     * @param onToken Callback invoked with each partial token as it arrives
+     * @param signal Optional signal that aborts the request
+     * @param maxTokens Maximum number of tokens to generate (defaults to the provider setting)
+     * @returns Promise resolving to the full text received before the stream ended or was aborted
+     * @throws ApiError when the request fails or the stream breaks off
+     */
+    async streamCompletion(
+        context: string | ChatMessage[],
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        maxTokens?: number
+    ): Promise<string> {
+        const provider = createModelProvider();
+        this.checkBudget();
+        const apiKey = await this.requireApiKey(provider);
+        const body = {
+            ...this.buildRequestBody(provider, context, maxTokens),
+            stream: true,
+            stream_options: { include_usage: true }
+        };
 
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
+        let fullText = '';
+        let reported: ReportedUsage | undefined;
+        let streaming = false;
+
+        // Stopped and broken-off answers are billed too; their usage is counted locally
+        const record = () => this.recordUsage(provider, reported, () => ({
+            promptTokens: countMessageTokens(this.toMessages(context)),
+            completionTokens: countTokens(fullText)
+        }));
+
+        try {
+            const response = await withRetries(() => axios.post(provider.getChatCompletionsUrl(), body, {
+                headers: provider.getHeaders(apiKey),
+                responseType: 'stream',
+                signal
+            }), provider.displayName, this.getRetryOptions(signal));
+
+            const stream = response.data as NodeJS.ReadableStream;
+            let buffer = '';
+            streaming = true;
+
+            // Multi-byte characters can be split across chunks; the decoder holds partial bytes back
+            const decoder = new TextDecoder('utf-8');
+
+            for await (const chunk of stream) {
+                buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+                // SSE events are newline-delimited; keep the trailing partial line for the next chunk
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+
+                for (const line of lines) {
+                    const event = this.parseStreamLine(line);
+                    if (event === null) {
+                        record();
+                        return fullText;
+                    }
+                    reported = event.usage ?? reported;
+                    if (event.content) {
+                        fullText += event.content;
+                        onToken(event.content);
+                    }
+                }
+            }
+
+            record();
+            return fullText;
+        } catch (error) {
+            // A user-initiated stop is not an error
+            if (axios.isCancel(error) || signal?.aborted) {
+                record();
+                return fullText;
+            }
+            // Rejected requests cost nothing, but the model was already generating when a stream breaks
+            if (streaming) {
+                record();
+            }
+            throw await toApiError(error, provider.displayName);
+        }
     }
 
-    async getCompletion(context: string, maxTokens: number = 1000): Promise<string> {
+    /**
+     * Requests a fill-in-the-middle completion for the text between a prefix and a suffix
+     * @param prefix Text before the cursor
+     * @param suffix Text after the cursor
+     * @param maxTokens Maximum number of tokens to generate
+     * @param signal Optional signal that aborts the request
+     * @returns Promise resolving to the text to insert, or an empty string when none is available
+     */
+    async getFillInMiddleCompletion(
+        prefix: string,
+        suffix: string,
+        maxTokens: number,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const provider = createModelProvider();
+
+        // Never nag about a missing key while the user is typing
+        const apiKey = await this.apiKeys.getApiKey(provider.id);
+        if ((!apiKey && provider.requiresApiKey) || this.usage?.isBlocked()) {
+            return '';
+        }
+
         try {
-            const response = await axios.post(`${DeepSeekAPI.BASE_URL}/chat/completions`, {
-                model: "deepseek/deepseek-chat",
-                messages: [{
-                    role: "user",
-                    content: context
-                }],
+            const response = await axios.post(provider.getCompletionsUrl(), {
+                model: provider.settings.model,
+                prompt: prefix,
+                suffix,
                 max_tokens: maxTokens,
-                temperature: 0.7
+                temperature: 0.2,
+                ...provider.getRequestExtras()
             }, {
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'HTTP-Referer': 'https://github.com/AIForHindustan/aion-deepseekcoder',
-                    'X-Title': 'AION DeepSeek',
-                    'X-OpenRouter-Client': 'aion-deepseekcoder'
-                }
+                headers: provider.getHeaders(apiKey),
+                signal
             });
 
-            return response.data?.choices?.[0]?.message?.content || '';
+            const completion = response.data?.choices?.[0]?.text || '';
+            this.recordUsage(provider, response.data?.usage, () => ({
+                promptTokens: countTokens(prefix) + countTokens(suffix),
+                completionTokens: countTokens(completion)
+            }));
+            return completion;
         } catch (error) {
-            vscode.window.showErrorMessage(`DeepSeek API Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            // Completions are requested on every pause in typing, so failures are only logged
+            if (!axios.isCancel(error) && !signal?.aborted) {
+                console.error('DeepSeek completion error:', error instanceof Error ? error.message : error);
+            }
             return '';
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Parses a single SSE line from the completion stream
+     * @param line Raw line from the stream
+     * @returns Token text and usage, empty content for lines without text, or null when the stream is done
+     */
+    private parseStreamLine(line: string): StreamEvent | null {
+        const trimmed = line.trim();
+
+        // Skip blank lines and SSE comments (OpenRouter sends ": OPENROUTER PROCESSING" keep-alives)
+        if (!trimmed.startsWith('data:')) {
+            return { content: '' };
+        }
+
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') {
+            return null;
+        }
+
+        try {
+            const data = JSON.parse(payload);
+            return { content: data?.choices?.[0]?.delta?.content || '', usage: data?.usage ?? undefined };
+        } catch (error) {
+            console.error('Error parsing stream chunk:', error);
+            return { content: '' };
+        }
+    }
+
+    /**
+     * Records the usage of a finished request, counting it locally when the server reported none
+     * @param provider Provider the request was sent to
+     * @param reported Usage from the response
+     * @param count Local token count of the request and answer
+     */
+    private recordUsage(
+        provider: ModelProvider,
+        reported: ReportedUsage | undefined,
+        count: () => Omit<TokenUsage, 'estimated'>
+    ): void {
+        if (!this.usage) {
+            return;
+        }
+
+        const usage: TokenUsage = typeof reported?.prompt_tokens === 'number'
+            ? {
+                promptTokens: reported.prompt_tokens,
+                completionTokens: reported.completion_tokens ?? 0,
+                cost: typeof reported.cost === 'number' ? reported.cost : undefined,
+                estimated: false
+            }
+            : { ...count(), estimated: true };
+
+        this.usage.record(provider.id, provider.settings.model, usage)
+            .catch(error => console.error('Error recording usage:', error));
+    }
+
+    /**
+     * Refuses requests once the monthly budget is used up, when set to block
+     * @throws ApiError when requests are blocked
+     */
+    private checkBudget(): void {
+        const budget = this.usage?.getMonthlyBudget();
+        if (budget !== undefined && this.usage?.isBlocked()) {
+            throw new ApiError(
+                ApiErrorKind.Budget,
+                `The monthly budget of ${formatCost(budget)} is used up. Requests are blocked until next month.`
+            );
+        }
+    }
+
+    /**
+     * Looks up the API key for a provider
+     * @param provider Provider the request is sent to
+     * @returns Promise resolving to the key, or undefined when the provider needs none
+     * @throws ApiError when the provider needs a key and none is set
+     */
+    private async requireApiKey(provider: ModelProvider): Promise<string | undefined> {
+        const apiKey = await this.apiKeys.getApiKey(provider.id);
+        if (!apiKey && provider.requiresApiKey) {
+            throw new ApiError(ApiErrorKind.Auth, `No ${provider.displayName} API key is set.`);
+        }
+        return apiKey;
+    }
+
+    /**
+     * Gets the retry policy for chat requests; waits are shown in the status bar
+     * @param signal Signal that cancels the request
+     * @returns Retry options
+     */
+    private getRetryOptions(signal?: AbortSignal): RetryOptions {
+        const maxRetries = vscode.workspace.getConfiguration('aion').get<number>('api.maxRetries', 3);
+        return {
+            maxRetries,
+            baseDelayMs: DeepSeekAPI.RETRY_BASE_DELAY_MS,
+            maxDelayMs: DeepSeekAPI.MAX_RETRY_DELAY_MS,
+            signal,
+            onRetry: (error, delayMs, attempt) => vscode.window.setStatusBarMessage(
+                `$(sync~spin) ${error.message} (retry ${attempt}/${maxRetries} in ${Math.ceil(delayMs / 1000)}s)`,
+                delayMs
+            )
+        };
+    }
+
+    /**
+     * Builds the chat completions request body for a provider. The answer
+     * length is shortened so that prompt and answer fit the context window.
+     * @param provider Provider the request is sent to
+     * @param context Prompt or full conversation
+     * @param maxTokens Completion length, or undefined for the provider setting
+     * @returns Request body without streaming options
+     * @throws ApiError when the prompt leaves no room for an answer
+     */
+    private buildRequestBody(
+        provider: ModelProvider,
+        context: string | ChatMessage[],
+        maxTokens?: number
+    ): Record<string, unknown> {
+        const messages = this.toMessages(context);
+        const promptTokens = countMessageTokens(messages);
+        const requested = maxTokens ?? provider.settings.maxTokens;
+        const answerTokens = fitAnswerTokens(provider.settings.contextWindow, promptTokens, requested);
+
+        if (answerTokens < Math.min(requested, DeepSeekAPI.MIN_ANSWER_TOKENS)) {
+            throw new ApiError(
+                ApiErrorKind.ContextLength,
+                `The prompt is about ${formatTokenCount(promptTokens)} tokens, too large for the ` +
+                `${formatTokenCount(provider.settings.contextWindow)} token context window of ${provider.settings.model}`
+            );
+        }
+
+        return {
+            model: provider.settings.model,
+            messages,
+            max_tokens: answerTokens,
+            temperature: provider.settings.temperature,
+            ...provider.getRequestExtras()
+        };
+    }
+
+    /**
+     * Normalizes a plain prompt into a single-turn conversation
+     * @param context Prompt or full conversation
+     * @returns Messages to send to the API
+     */
+    private toMessages(context: string | ChatMessage[]): ChatMessage[] {
+        return typeof context === 'string'
+            ? [{ role: 'user', content: context }]
+            : context;
+    }
+}
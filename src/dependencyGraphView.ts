@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { DependencyType } from './dependencyManager.js';
+import { ProjectIndex } from './projectIndex.js';
+import { createGraphExport, graphNodeId } from './graphExport.js';
+import { getNonce } from './chatView.js';
+
+/**
+ * Shows the project dependency graph in an editor panel. There is at most
+ * one panel; it follows the active editor and redraws when the index changes.
+ */
+export class DependencyGraphPanel {
+    public static readonly viewType = 'aion.dependencyGraph';
+
+    private static current?: DependencyGraphPanel;
+
+    private disposables: vscode.Disposable[] = [];
+
+    // Absolute paths of the drawn files by node id
+    private pathsById: Map<string, string> = new Map();
+
+    // Coalesces bursts of index updates into one redraw
+    private refreshTimer?: NodeJS.Timeout;
+
+    /**
+     * Opens the panel, or reveals it when it is already open
+     * @param extensionUri URI of the extension, for the webview resources
+     * @param projectIndex Index providing the graph
+     */
+    public static show(extensionUri: vscode.Uri, projectIndex: ProjectIndex): void {
+        if (DependencyGraphPanel.current) {
+            DependencyGraphPanel.current.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            DependencyGraphPanel.viewType,
+            'Dependency Graph',
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+        DependencyGraphPanel.current = new DependencyGraphPanel(panel, extensionUri, projectIndex);
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private extensionUri: vscode.Uri,
+        private projectIndex: ProjectIndex
+    ) {
+        this.panel.webview.html = this.getWebviewContent(this.panel.webview);
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.webview.onDidReceiveMessage(async message => {
+                if (message.type === 'ready') {
+                    await this.postGraph();
+                } else if (message.type === 'open') {
+                    const filePath = this.pathsById.get(message.id);
+                    if (filePath) {
+                        await this.openFile(filePath);
+                    }
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                // Keep the last focused file while the panel itself is active
+                if (editor?.document.uri.scheme === 'file') {
+                    this.panel.webview.postMessage({ type: 'focus', id: graphNodeId(editor.document.uri.fsPath) });
+                }
+            }),
+            this.projectIndex.onDidChange(() => this.scheduleRefresh())
+        );
+    }
+
+    public dispose(): void {
+        DependencyGraphPanel.current = undefined;
+        clearTimeout(this.refreshTimer);
+        this.panel.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+
+    private scheduleRefresh(): void {
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => void this.postGraph(), 500);
+    }
+
+    /**
+     * Sends the current graph, and the file to focus on, to the webview
+     */
+    private async postGraph(): Promise<void> {
+        try {
+            const graph = await this.projectIndex.getDependencyGraph();
+            const activeDocument = vscode.window.activeTextEditor?.document;
+
+            this.pathsById = new Map([...graph.nodes.keys()].map(filePath => [graphNodeId(filePath), filePath]));
+            this.panel.webview.postMessage({
+                type: 'graph',
+                graph: createGraphExport(graph, this.projectIndex.dependencyManager),
+                focus: activeDocument?.uri.scheme === 'file' ? graphNodeId(activeDocument.uri.fsPath) : undefined
+            });
+        } catch (error) {
+            console.error('Error building dependency graph view:', error);
+            this.panel.webview.postMessage({ type: 'error', message: 'The dependency graph could not be built.' });
+        }
+    }
+
+    private async openFile(filePath: string): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+        } catch (error) {
+            console.error(`Error opening file ${filePath}:`, error);
+            vscode.window.showErrorMessage(`Could not open ${vscode.workspace.asRelativePath(filePath)}.`);
+        }
+    }
+
+    private getWebviewContent(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'dependencyGraph.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'dependencyGraph.css'));
+        const typeOptions = Object.values(DependencyType)
+            .map(type => `<label><input type="checkbox" class="type-filter" value="${type}" checked> ${type}</label>`)
+            .join('\n');
+
+        return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Dependency Graph</title>
+                <link href="${styleUri}" rel="stylesheet">
+            </head>
+            <body>
+                <div id="toolbar">
+                    <select id="folder-filter" title="Only show files in this folder">
+                        <option value="">All folders</option>
+                    </select>
+                    <span id="type-filters">
+                        ${typeOptions}
+                    </span>
+                    <label title="Only show files within this many imports of the active file">
+                        <input type="checkbox" id="focus-enabled"> Focus on current file, hops:
+                        <input type="number" id="focus-hops" min="1" max="10" value="2">
+                    </label>
+                    <button id="reset-view">Reset view</button>
+                    <span id="status"></span>
+                </div>
+                <svg id="graph">
+                    <defs>
+                        <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z"></path>
+                        </marker>
+                        <marker id="arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z"></path>
+                        </marker>
+                    </defs>
+                    <g id="viewport"></g>
+                </svg>
+
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>
+        `;
+    }
+}
@@ -2,7 +2,10 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { promisify } from 'util';
-import { FileType, FileInfo, determineFileTypeFromPath, ProjectStructure } from './projectScanner.js';
+import * as ts from 'typescript';
+import { FileType, FileInfo, determineFileTypeFromPath, ProjectStructure, ProjectScanner } from './projectScanner.js';
+import { ModuleResolver, RESOLUTION_CONFIG_FILES } from './moduleResolver.js';
+import { LanguageResolver, LANGUAGE_CONFIG_FILES } from './languageResolver.js';
 
 // Convert fs methods to promise-based
 const readFile = promisify(fs.readFile);
@@ -18,27 +21,75 @@ export enum DependencyType {
     Unknown = 'unknown'      // Relationship can't be determined
 }
 
+// Location of a reference in the source file (0-based)
+export interface DependencyRange {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
 // Dependency relationship between two files
 export interface Dependency {
     source: string;           // Path of the source file
     target: string;           // Path of the target/dependency file
     type: DependencyType;     // Type of dependency relationship
     lineNumbers?: number[];   // Line numbers where dependency is referenced (optional)
+    ranges?: DependencyRange[]; // Exact locations of the module names in the source file
+    isTypeOnly?: boolean;     // Every reference only imports types (erased at runtime)
+    symbols?: string[];       // Names imported or re-exported ('default', '*' for namespaces)
     isExternal: boolean;      // Whether the dependency is external (e.g. node_modules)
 }
 
+/**
+ * Checks whether a file configures how imports resolve (tsconfig.json, package.json, go.mod, ...)
+ * @param filePath Path of the file
+ * @returns True if a change to the file can change the targets of other files' imports
+ */
+export function affectsImportResolution(filePath: string): boolean {
+    const name = path.basename(filePath);
+    return RESOLUTION_CONFIG_FILES.includes(name) || LANGUAGE_CONFIG_FILES.includes(name);
+}
+
+// One import-like statement found in a JavaScript/TypeScript file
+interface ModuleReference {
+    specifier: string;        // Module specifier as written
+    type: DependencyType;     // Import, Export (re-export) or Reference (type-only)
+    isTypeOnly: boolean;
+    symbols: string[];
+    range: DependencyRange;
+}
+
 // Graph representation of project dependencies
 export interface DependencyGraph {
     nodes: Map<string, FileInfo>;                 // Files in the project
     edges: Map<string, Map<string, Dependency>>;  // Dependencies between files
 }
 
-export class DependencyManager {
-    private workspaceRoot: string | undefined;
+// Files that all depend on each other, directly or indirectly (a strongly connected component)
+export interface CircularDependencyGroup {
+    files: string[];          // Files of the group, sorted
+    edgeCount: number;        // Dependencies between files of the group
+    cycles: string[][];       // Shortest cycles covering the group; each ends with its first file again
+}
+
+// Files added, changed or removed since a graph was built
+export interface DependencyGraphDelta {
+    added: FileInfo[];      // New files
+    changed: FileInfo[];    // Files whose content may have changed
+    removed: string[];      // Paths of deleted files
+}
 
+export class DependencyManager {
     // Cache dependencies for performance
     private dependencyCache: Map<string, Dependency[]> = new Map();
 
+    // Resolves JavaScript/TypeScript imports through tsconfig paths, package exports and workspace packages
+    private moduleResolver = new ModuleResolver();
+
+    // Resolves Python, Go, Rust and Java imports from each language's project layout
+    private languageResolver = new LanguageResolver();
+
     // External package patterns
     private externalPackagePatterns: string[] = [
         'node_modules',
@@ -49,11 +100,7 @@ export class DependencyManager {
         'https://jsdelivr.com'
     ];
 
-    constructor() {
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            this.workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        }
-    }
+    constructor() { }
 
     /**
      * Builds a dependency graph for the entire project
@@ -70,6 +117,9 @@ export class DependencyManager {
             edges: new Map()
         };
 
+        // Find workspace packages first so cross-folder imports resolve
+        this.registerLocalPackages(projectStructure.allFiles);
+
         // Add all files to nodes
         for (const file of projectStructure.allFiles) {
             graph.nodes.set(file.path, file);
@@ -102,6 +152,109 @@ export class DependencyManager {
         return graph;
     }
 
+    /**
+     * Removes cached dependencies so they are re-analyzed on next use
+     * @param filePath Path of the file to forget, or undefined to clear the whole cache
+     */
+    public clearCache(filePath?: string): void {
+        if (filePath) {
+            this.dependencyCache.delete(filePath);
+        } else {
+            this.dependencyCache.clear();
+            this.moduleResolver.reset();
+            this.languageResolver.reset();
+        }
+    }
+
+    /**
+     * Gets the cached dependencies of every analyzed file, e.g. to persist them
+     * @returns Map of file path to its dependencies
+     */
+    public getCachedDependencies(): Map<string, Dependency[]> {
+        return new Map(this.dependencyCache);
+    }
+
+    /**
+     * Seeds the cache with previously analyzed dependencies
+     * @param dependencies Map of file path to its dependencies
+     */
+    public restoreCachedDependencies(dependencies: Map<string, Dependency[]>): void {
+        for (const [filePath, deps] of dependencies) {
+            this.dependencyCache.set(filePath, deps);
+        }
+    }
+
+    /**
+     * Updates a graph in place for added, changed and removed files,
+     * re-analyzing only the files that changed
+     * @param graph Graph from buildDependencyGraph
+     * @param delta Files that changed since the graph was built
+     */
+    public async applyDelta(graph: DependencyGraph, delta: DependencyGraphDelta): Promise<void> {
+        for (const removedPath of delta.removed) {
+            this.dependencyCache.delete(removedPath);
+            graph.nodes.delete(removedPath);
+            graph.edges.delete(removedPath);
+
+            // Drop edges pointing at the removed file
+            for (const targets of graph.edges.values()) {
+                targets.delete(removedPath);
+            }
+        }
+
+        const updated = [...delta.added, ...delta.changed];
+        for (const file of updated) {
+            this.dependencyCache.delete(file.path);
+            graph.nodes.set(file.path, file);
+        }
+
+        // A changed tsconfig, package.json or go.mod can change how every import resolves
+        const reanalyze = updated.some(file => affectsImportResolution(file.path)) || delta.removed.some(affectsImportResolution)
+            ? [...graph.nodes.values()]
+            : updated;
+        if (reanalyze !== updated) {
+            this.registerLocalPackages(reanalyze);
+            this.dependencyCache.clear();
+        } else if (delta.added.length > 0 || delta.removed.length > 0) {
+            // Extensionless and aliased imports may now resolve to a different file
+            this.moduleResolver.clearResolutions();
+        }
+
+        for (const file of reanalyze) {
+            graph.edges.set(file.path, await this.linkDependencies(graph, file));
+        }
+
+        // Imports of a new file could not be resolved while it did not exist; resolve them again
+        if (delta.added.length > 0 && reanalyze === updated) {
+            const analyzed = new Set(updated.map(file => file.path));
+            const unresolved = [...this.dependencyCache]
+                .filter(([sourcePath, deps]) => !analyzed.has(sourcePath) && graph.nodes.has(sourcePath) &&
+                    deps.some(dep => !dep.isExternal && !graph.nodes.has(dep.target)))
+                .map(([sourcePath]) => graph.nodes.get(sourcePath)!);
+
+            for (const file of unresolved) {
+                this.dependencyCache.delete(file.path);
+                graph.edges.set(file.path, await this.linkDependencies(graph, file));
+            }
+        }
+    }
+
+    /**
+     * Analyzes a file and keeps the dependencies that point at files in the graph
+     * @param graph Graph the file belongs to
+     * @param file File to analyze
+     * @returns Promise resolving to the file's edges
+     */
+    private async linkDependencies(graph: DependencyGraph, file: FileInfo): Promise<Map<string, Dependency>> {
+        const targets = new Map<string, Dependency>();
+        for (const dep of await this.analyzeDependencies(file)) {
+            if (graph.nodes.has(dep.target)) {
+                targets.set(dep.target, dep);
+            }
+        }
+        return targets;
+    }
+
     /**
      * Analyzes a file to find its dependencies
      * @param file File to analyze
@@ -153,6 +306,18 @@ export class DependencyManager {
             case FileType.Markdown:
                 this.extractMarkdownDependencies(file.path, content, dependencies);
                 break;
+            case FileType.Python:
+                this.extractPythonDependencies(file.path, content, dependencies);
+                break;
+            case FileType.Go:
+                this.extractGoDependencies(file.path, content, dependencies);
+                break;
+            case FileType.Rust:
+                this.extractRustDependencies(file.path, content, dependencies);
+                break;
+            case FileType.Java:
+                this.extractJavaDependencies(file.path, content, dependencies);
+                break;
             // Add more file types as needed
         }
 
@@ -163,7 +328,8 @@ export class DependencyManager {
     }
 
     /**
-     * Extracts dependencies from JavaScript/TypeScript files
+     * Extracts dependencies from JavaScript/TypeScript files by parsing them,
+     * so that comments, strings and multi-line statements are handled exactly
      * @param filePath Path of the file
      * @param content Content of the file
      * @param dependencies Array to collect dependencies into
@@ -173,61 +339,189 @@ export class DependencyManager {
         content: string,
         dependencies: Dependency[]
     ): void {
-        // Extract import statements
-        const importMatches = [...content.matchAll(/import\s+(?:(?:\{[^}]*\}|\*|[\w$]+)(?:\s+as\s+[\w$]+)?)?(?:\s*,\s*(?:\{[^}]*\}|\*|[\w$]+)(?:\s+as\s+[\w$]+)?)?(?:\s*,\s*(?:\{[^}]*\}|\*|[\w$]+)(?:\s+as\s+[\w$]+)?)?(?:\s+from)?\s+['"]([^'"]+)['"]/g)];
-
-        // Extract require statements
-        const requireMatches = [...content.matchAll(/(?:const|let|var)\s+(?:[\w$]+|\{[^}]*\})\s*=\s*require\(\s*['"]([^'"]+)['"]\s*\)/g)];
-
-        // Extract dynamic imports
-        const dynamicImportMatches = [...content.matchAll(/import\(\s*['"]([^'"]+)['"]\s*\)/g)];
+        const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false, this.getScriptKind(filePath));
+        const references = this.collectModuleReferences(sourceFile);
 
-        // Extract triple slash directives (TypeScript)
-        const referenceMatches = [...content.matchAll(/\/\/\/\s*<reference\s+path\s*=\s*['"]([^'"]+)['"]\s*\/>/g)];
+        // Triple slash directives (TypeScript)
+        for (const reference of sourceFile.referencedFiles) {
+            references.push({
+                specifier: reference.fileName.startsWith('.') ? reference.fileName : `./${reference.fileName}`,
+                type: DependencyType.Reference,
+                isTypeOnly: true,
+                symbols: [],
+                range: this.toRange(sourceFile, reference.pos, reference.end)
+            });
+        }
 
-        // Process each import match
-        for (const match of [...importMatches, ...requireMatches, ...dynamicImportMatches]) {
-            const importPath = match[1];
+        // One dependency per target, combining every statement that references it
+        const byTarget = new Map<string, Dependency>();
+        for (const reference of references) {
+            const importPath = reference.specifier;
 
-            // Determine if this is an external dependency
-            const isExternal = this.isExternalDependency(importPath);
+            // Resolve like the project's tooling; aliases and workspace packages are part of the project
+            const resolution = this.moduleResolver.resolve(importPath, filePath);
+            const isExternal = resolution ? resolution.isExternal : this.isExternalDependency(importPath);
 
             // Skip node_modules dependencies since we can't analyze them directly
             if (isExternal && !this.shouldProcessExternalDependency(importPath)) {
                 continue;
             }
 
-            // Convert import path to absolute path if it's relative
-            const targetPath = this.resolveImportPath(filePath, importPath);
+            // Unresolved relative imports keep their best-guess path
+            const targetPath = resolution?.resolvedPath ?? this.resolveImportPath(filePath, importPath);
+
+            const existing = byTarget.get(targetPath);
+            if (!existing) {
+                byTarget.set(targetPath, {
+                    source: filePath,
+                    target: targetPath,
+                    type: reference.type,
+                    lineNumbers: [reference.range.line],
+                    ranges: [reference.range],
+                    isTypeOnly: reference.isTypeOnly,
+                    symbols: [...reference.symbols],
+                    isExternal
+                });
+                continue;
+            }
 
-            // Add to dependencies
-            dependencies.push({
-                source: filePath,
-                target: targetPath,
-                type: DependencyType.Import,
-                lineNumbers: this.findLineNumbers(content, match[0]),
-                isExternal
-            });
+            // A value import outranks a re-export, which outranks a type-only reference
+            const rank = [DependencyType.Reference, DependencyType.Export, DependencyType.Import];
+            if (rank.indexOf(reference.type) > rank.indexOf(existing.type)) {
+                existing.type = reference.type;
+            }
+            existing.isTypeOnly = existing.isTypeOnly && reference.isTypeOnly;
+            existing.ranges!.push(reference.range);
+            if (!existing.lineNumbers!.includes(reference.range.line)) {
+                existing.lineNumbers!.push(reference.range.line);
+            }
+            for (const symbol of reference.symbols) {
+                if (!existing.symbols!.includes(symbol)) {
+                    existing.symbols!.push(symbol);
+                }
+            }
         }
 
-        // Process reference directives (TypeScript)
-        for (const match of referenceMatches) {
-            const referencePath = match[1];
+        dependencies.push(...byTarget.values());
+    }
 
-            // Convert reference path to absolute path
-            const targetPath = this.resolveImportPath(filePath, referencePath);
+    /**
+     * Walks a parsed file for imports, re-exports, `require` calls, dynamic
+     * imports and `import('...')` types
+     * @param sourceFile Parsed file
+     * @returns References in source order
+     */
+    private collectModuleReferences(sourceFile: ts.SourceFile): ModuleReference[] {
+        const references: ModuleReference[] = [];
+
+        const add = (specifier: ts.Expression, type: DependencyType, isTypeOnly: boolean, symbols: string[]) => {
+            if (ts.isStringLiteralLike(specifier)) {
+                references.push({
+                    specifier: specifier.text,
+                    type,
+                    isTypeOnly,
+                    symbols,
+                    range: this.toRange(sourceFile, specifier.getStart(sourceFile), specifier.getEnd())
+                });
+            }
+        };
 
-            // Add to dependencies
-            dependencies.push({
-                source: filePath,
-                target: targetPath,
-                type: DependencyType.Reference,
-                lineNumbers: this.findLineNumbers(content, match[0]),
-                isExternal: false // References are always local
-            });
+        const visit = (node: ts.Node): void => {
+            if (ts.isImportDeclaration(node)) {
+                const clause = node.importClause;
+                const symbols: string[] = [];
+                let hasValueImport = !clause;   // A side-effect import runs the module
+
+                if (clause) {
+                    if (clause.name) {
+                        symbols.push('default');
+                        hasValueImport ||= !clause.isTypeOnly;
+                    }
+                    const bindings = clause.namedBindings;
+                    if (bindings && ts.isNamespaceImport(bindings)) {
+                        symbols.push('*');
+                        hasValueImport ||= !clause.isTypeOnly;
+                    } else if (bindings && ts.isNamedImports(bindings)) {
+                        for (const element of bindings.elements) {
+                            symbols.push((element.propertyName ?? element.name).text);
+                            hasValueImport ||= !clause.isTypeOnly && !element.isTypeOnly;
+                        }
+                        // `import {} from './x'` still loads the module
+                        hasValueImport ||= !clause.isTypeOnly && !clause.name && bindings.elements.length === 0;
+                    }
+                }
+
+                add(node.moduleSpecifier, hasValueImport ? DependencyType.Import : DependencyType.Reference, !hasValueImport, symbols);
+            } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+                const symbols: string[] = [];
+                let isTypeOnly = node.isTypeOnly;
+                if (!node.exportClause) {
+                    symbols.push('*');
+                } else if (ts.isNamespaceExport(node.exportClause)) {
+                    symbols.push('*');
+                } else {
+                    for (const element of node.exportClause.elements) {
+                        symbols.push((element.propertyName ?? element.name).text);
+                    }
+                    isTypeOnly ||= node.exportClause.elements.length > 0 &&
+                        node.exportClause.elements.every(element => element.isTypeOnly);
+                }
+                add(node.moduleSpecifier, DependencyType.Export, isTypeOnly, symbols);
+            } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+                add(node.moduleReference.expression, node.isTypeOnly ? DependencyType.Reference : DependencyType.Import, node.isTypeOnly, ['*']);
+            } else if (ts.isCallExpression(node) && node.arguments.length >= 1) {
+                // require('x') and import('x')
+                const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+                const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+                if (isRequire || isDynamicImport) {
+                    add(node.arguments[0], DependencyType.Import, false, ['*']);
+                }
+            } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+                // import('x').Type in type positions
+                const symbols = node.qualifier ? [ts.isIdentifier(node.qualifier) ? node.qualifier.text : node.qualifier.right.text] : ['*'];
+                add(node.argument.literal as ts.Expression, DependencyType.Reference, true, symbols);
+            }
+
+            ts.forEachChild(node, visit);
+        };
+
+        visit(sourceFile);
+        return references;
+    }
+
+    /**
+     * Picks the parser dialect for a file
+     * @param filePath Path of the file
+     * @returns Script kind matching the extension
+     */
+    private getScriptKind(filePath: string): ts.ScriptKind {
+        switch (path.extname(filePath).toLowerCase()) {
+            case '.ts':
+            case '.mts':
+            case '.cts':
+                return ts.ScriptKind.TS;
+            case '.tsx':
+                return ts.ScriptKind.TSX;
+            case '.jsx':
+                return ts.ScriptKind.JSX;
+            default:
+                return ts.ScriptKind.JS;
         }
     }
 
+    /**
+     * Converts offsets in a parsed file to a line/column range
+     * @param sourceFile Parsed file
+     * @param start Start offset
+     * @param end End offset
+     * @returns 0-based range
+     */
+    private toRange(sourceFile: ts.SourceFile, start: number, end: number): DependencyRange {
+        const from = sourceFile.getLineAndCharacterOfPosition(start);
+        const to = sourceFile.getLineAndCharacterOfPosition(end);
+        return { line: from.line, column: from.character, endLine: to.line, endColumn: to.character };
+    }
+
     /**
      * Extracts dependencies from HTML files
      * @param filePath Path of the file
@@ -484,6 +778,331 @@ export class DependencyManager {
         }
     }
 
+    /**
+     * Extracts dependencies from Python files
+     * @param filePath Path of the file
+     * @param content Content of the file
+     * @param dependencies Array to collect dependencies into
+     */
+    private extractPythonDependencies(
+        filePath: string,
+        content: string,
+        dependencies: Dependency[]
+    ): void {
+        // Docstrings and comments may mention imports
+        const code = this.maskComments(content, '#', false, true);
+        const lineStarts = this.getLineStarts(content);
+
+        // import a.b as c, d
+        for (const match of code.matchAll(/^[ \t]*import[ \t]+([\w. \t,]+?)[ \t]*(?:;|$)/gm)) {
+            let offset = match.index! + match[0].indexOf(match[1]);
+            for (const item of match[1].split(',')) {
+                const module = item.trim().split(/\s+as\s+/)[0];
+                const start = offset + item.indexOf(module);
+                offset += item.length + 1;
+                if (!module) {
+                    continue;
+                }
+                for (const target of this.languageResolver.resolvePythonImport(filePath, module)) {
+                    this.addDependency(dependencies, filePath, target, this.rangeAt(lineStarts, start, start + module.length), ['*']);
+                }
+            }
+        }
+
+        // from ..pkg import (a, b as c) - possibly over several lines
+        for (const match of code.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|(?:[^\n\\]|\\\r?\n)+)/gm)) {
+            const module = match[1];
+            const names = match[2]
+                .replace(/[()\\]/g, ' ')
+                .split(',')
+                .map(name => name.trim().split(/\s+as\s+/)[0])
+                .filter(name => /^[\w*]+$/.test(name));
+            const start = match.index! + match[0].indexOf(module, 4);
+            const range = this.rangeAt(lineStarts, start, start + module.length);
+
+            for (const target of this.languageResolver.resolvePythonImport(filePath, module, names.filter(name => name !== '*'))) {
+                this.addDependency(dependencies, filePath, target, range, names);
+            }
+        }
+    }
+
+    /**
+     * Extracts dependencies from Go files
+     * @param filePath Path of the file
+     * @param content Content of the file
+     * @param dependencies Array to collect dependencies into
+     */
+    private extractGoDependencies(
+        filePath: string,
+        content: string,
+        dependencies: Dependency[]
+    ): void {
+        const code = this.maskComments(content, '//', true, false);
+        const lineStarts = this.getLineStarts(content);
+
+        // import "x", import alias "x" and import ( ... ) blocks
+        const specs: { path: string; start: number }[] = [];
+        for (const match of code.matchAll(/^[ \t]*import[ \t]*(?:\(([^)]*)\)|((?:[\w.]+[ \t]+)?"[^"]+"))/gm)) {
+            const body = match[1] ?? match[2];
+            const bodyStart = match.index! + match[0].indexOf(body);
+            for (const spec of body.matchAll(/"([^"]+)"/g)) {
+                specs.push({ path: spec[1], start: bodyStart + spec.index! + 1 });
+            }
+        }
+
+        for (const spec of specs) {
+            const range = this.rangeAt(lineStarts, spec.start, spec.start + spec.path.length);
+            for (const target of this.languageResolver.resolveGoImport(filePath, spec.path)) {
+                if (target !== filePath) {
+                    this.addDependency(dependencies, filePath, target, range, ['*']);
+                }
+            }
+        }
+    }
+
+    /**
+     * Extracts dependencies from Rust files
+     * @param filePath Path of the file
+     * @param content Content of the file
+     * @param dependencies Array to collect dependencies into
+     */
+    private extractRustDependencies(
+        filePath: string,
+        content: string,
+        dependencies: Dependency[]
+    ): void {
+        const code = this.maskComments(content, '//', true, false);
+        const lineStarts = this.getLineStarts(content);
+
+        // mod name; optionally preceded by #[path = "..."]
+        for (const match of code.matchAll(/(?:#\[path\s*=\s*"([^"]+)"\]\s*)?^[ \t]*(?:pub(?:\([^)]*\))?[ \t]+)?mod[ \t]+(\w+)[ \t]*;/gm)) {
+            const target = this.languageResolver.resolveRustMod(filePath, match[2], match[1]);
+            if (target) {
+                const start = match.index! + match[0].lastIndexOf(match[2]);
+                this.addDependency(dependencies, filePath, target, this.rangeAt(lineStarts, start, start + match[2].length), [match[2]]);
+            }
+        }
+
+        // use crate::a::{b, c::D};
+        for (const match of code.matchAll(/^[ \t]*(?:pub(?:\([^)]*\))?[ \t]+)?use[ \t]+([^;]+);/gm)) {
+            const start = match.index! + match[0].indexOf(match[1]);
+            const range = this.rangeAt(lineStarts, start, start + match[1].length);
+            for (const segments of this.expandRustUseTree(match[1])) {
+                const target = this.languageResolver.resolveRustUse(filePath, segments);
+                if (target) {
+                    this.addDependency(dependencies, filePath, target, range, segments.slice(-1));
+                }
+            }
+        }
+    }
+
+    /**
+     * Expands a Rust use tree into one path per imported item
+     * @param tree Use tree (e.g. `crate::a::{self, b::C as D}`)
+     * @param prefix Segments of the enclosing tree
+     * @returns Paths as segment arrays
+     */
+    private expandRustUseTree(tree: string, prefix: string[] = []): string[][] {
+        const text = tree.replace(/\s+as\s+\w+/g, '').replace(/\s+/g, '').replace(/^::/, '');
+        const brace = text.indexOf('{');
+        if (brace === -1) {
+            const segments = [...prefix, ...text.split('::').filter(segment => segment && segment !== '*')];
+            return segments.length > 1 && segments[segments.length - 1] === 'self' ? [segments.slice(0, -1)] : [segments];
+        }
+
+        const head = [...prefix, ...text.slice(0, brace).split('::').filter(Boolean)];
+        const inner = text.slice(brace + 1, text.lastIndexOf('}'));
+
+        // Split on commas that are not inside nested braces
+        const paths: string[][] = [];
+        let depth = 0;
+        let itemStart = 0;
+        for (let i = 0; i <= inner.length; i++) {
+            const char = inner[i];
+            if (char === '{') {
+                depth++;
+            } else if (char === '}') {
+                depth--;
+            } else if ((char === ',' && depth === 0) || i === inner.length) {
+                const item = inner.slice(itemStart, i);
+                if (item) {
+                    paths.push(...this.expandRustUseTree(item, head));
+                }
+                itemStart = i + 1;
+            }
+        }
+        return paths;
+    }
+
+    /**
+     * Extracts dependencies from Java files
+     * @param filePath Path of the file
+     * @param content Content of the file
+     * @param dependencies Array to collect dependencies into
+     */
+    private extractJavaDependencies(
+        filePath: string,
+        content: string,
+        dependencies: Dependency[]
+    ): void {
+        const code = this.maskComments(content, '//', true, false);
+        const lineStarts = this.getLineStarts(content);
+        const packageName = code.match(/^[ \t]*package[ \t]+([\w.]+)[ \t]*;/m)?.[1];
+
+        // import a.b.C; import a.b.*; import static a.b.C.member;
+        for (const match of code.matchAll(/^[ \t]*import[ \t]+(?:static[ \t]+)?([\w.]+(?:\.\*)?)[ \t]*;/gm)) {
+            const importName = match[1];
+            if (/^(java|javax|jdk|sun)\./.test(importName)) {
+                continue;
+            }
+
+            const start = match.index! + match[0].indexOf(importName);
+            const range = this.rangeAt(lineStarts, start, start + importName.length);
+            for (const target of this.languageResolver.resolveJavaImport(filePath, packageName, importName)) {
+                if (target !== filePath) {
+                    this.addDependency(dependencies, filePath, target, range, [importName.split('.').pop()!]);
+                }
+            }
+        }
+    }
+
+    /**
+     * Adds an import dependency, merging it with an existing one for the same target
+     * @param dependencies Array to collect dependencies into
+     * @param source Path of the importing file
+     * @param target Path of the imported file
+     * @param range Location of the import
+     * @param symbols Names imported
+     */
+    private addDependency(
+        dependencies: Dependency[],
+        source: string,
+        target: string,
+        range: DependencyRange,
+        symbols: string[]
+    ): void {
+        const existing = dependencies.find(dep => dep.target === target);
+        if (!existing) {
+            dependencies.push({
+                source,
+                target,
+                type: DependencyType.Import,
+                lineNumbers: [range.line],
+                ranges: [range],
+                symbols: [...symbols],
+                isExternal: false
+            });
+            return;
+        }
+
+        existing.ranges?.push(range);
+        if (!existing.lineNumbers?.includes(range.line)) {
+            existing.lineNumbers?.push(range.line);
+        }
+        for (const symbol of symbols) {
+            if (!existing.symbols?.includes(symbol)) {
+                existing.symbols?.push(symbol);
+            }
+        }
+    }
+
+    /**
+     * Blanks out comments (and optionally string contents) while keeping every
+     * offset and line break in place, so matches map back to the original text
+     * @param content Source text
+     * @param lineComment Line comment marker
+     * @param blockComments Whether `/* ... *\/` comments exist
+     * @param maskStrings Whether to blank string contents too (Python, where imports never use strings)
+     * @returns Text of the same length
+     */
+    private maskComments(content: string, lineComment: string, blockComments: boolean, maskStrings: boolean): string {
+        const chars = content.split('');
+        const blank = (from: number, to: number) => {
+            for (let i = from; i < to; i++) {
+                if (chars[i] !== '\n') {
+                    chars[i] = ' ';
+                }
+            }
+        };
+
+        let i = 0;
+        while (i < content.length) {
+            if (content.startsWith(lineComment, i)) {
+                const end = content.indexOf('\n', i);
+                blank(i, end === -1 ? content.length : end);
+                i = end === -1 ? content.length : end;
+            } else if (blockComments && content.startsWith('/*', i)) {
+                const end = content.indexOf('*/', i + 2);
+                const stop = end === -1 ? content.length : end + 2;
+                blank(i, stop);
+                i = stop;
+            } else if (content[i] === '"' || content[i] === '`' || (maskStrings && content[i] === "'")) {
+                // Skip the string (triple-quoted in Python) so comment markers inside it are kept
+                const quote = maskStrings && content.startsWith(content[i].repeat(3), i) ? content[i].repeat(3) : content[i];
+                let end = i + quote.length;
+                while (end < content.length && !content.startsWith(quote, end)) {
+                    if (quote !== '`' && content[end] === '\\') {
+                        end++;
+                    } else if (quote.length === 1 && quote !== '`' && content[end] === '\n') {
+                        break;
+                    }
+                    end++;
+                }
+                const stop = Math.min(content.length, end + quote.length);
+                if (maskStrings) {
+                    blank(i + quote.length, Math.min(end, content.length));
+                }
+                i = stop;
+            } else {
+                i++;
+            }
+        }
+
+        return chars.join('');
+    }
+
+    /**
+     * Gets the offset at which each line starts
+     * @param content Source text
+     * @returns Offsets, one per line
+     */
+    private getLineStarts(content: string): number[] {
+        const starts = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') {
+                starts.push(i + 1);
+            }
+        }
+        return starts;
+    }
+
+    /**
+     * Converts offsets to a line/column range
+     * @param lineStarts Result of getLineStarts
+     * @param start Start offset
+     * @param end End offset
+     * @returns 0-based range
+     */
+    private rangeAt(lineStarts: number[], start: number, end: number): DependencyRange {
+        const position = (offset: number) => {
+            let low = 0;
+            let high = lineStarts.length - 1;
+            while (low < high) {
+                const mid = Math.ceil((low + high) / 2);
+                if (lineStarts[mid] <= offset) {
+                    low = mid;
+                } else {
+                    high = mid - 1;
+                }
+            }
+            return { line: low, column: offset - lineStarts[low] };
+        };
+
+        const from = position(start);
+        const to = position(end);
+        return { line: from.line, column: from.column, endLine: to.line, endColumn: to.column };
+    }
+
     /**
      * Resolves an import path to an absolute path
      * @param sourcePath Path of the source file
@@ -493,17 +1112,25 @@ export class DependencyManager {
     private resolveImportPath(sourcePath: string, importPath: string): string {
         // If import path is absolute or external, return as is
         if (importPath.startsWith('/') || importPath.startsWith('http')) {
-            if (importPath.startsWith('/') && this.workspaceRoot) {
-                // Resolve absolute workspace paths
-                return path.join(this.workspaceRoot, importPath);
+            const workspaceRoot = this.getWorkspaceRoot(sourcePath);
+            if (importPath.startsWith('/') && workspaceRoot) {
+                // Resolve absolute paths against the source file's workspace folder
+                return path.join(workspaceRoot, importPath);
             }
             return importPath;
         }
 
         // For relative imports, resolve based on the source file's directory
         const sourceDir = path.dirname(sourcePath);
-        let resolvedPath = path.resolve(sourceDir, importPath);
+        return this.resolveFilePath(path.resolve(sourceDir, importPath));
+    }
 
+    /**
+     * Adds a missing extension or index file to a path, when such a file exists
+     * @param resolvedPath Absolute path as written in the import
+     * @returns Path of the existing file, or the input path
+     */
+    private resolveFilePath(resolvedPath: string): string {
         // Handle the case where extension is not provided
         if (!path.extname(resolvedPath)) {
             // Try common extensions
@@ -528,6 +1155,46 @@ export class DependencyManager {
         return resolvedPath;
     }
 
+    /**
+     * Tells the resolvers which files exist in the project, so that imports of
+     * workspace packages resolve to their sources and Java source roots are known
+     * @param files Files of the project
+     */
+    private registerLocalPackages(files: FileInfo[]): void {
+        this.moduleResolver.reset(files
+            .filter(file => file.name === 'package.json')
+            .map(file => file.path));
+        this.languageResolver.reset(files.map(file => file.path));
+    }
+
+    /**
+     * Finds the workspace folder containing a file; with nested folders the innermost wins
+     * @param filePath Absolute path
+     * @returns Root path of the folder, or the first folder when the file is outside the workspace
+     */
+    private getWorkspaceRoot(filePath?: string): string | undefined {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const containing = filePath
+            ? folders
+                .map(folder => folder.uri.fsPath)
+                .filter(root => {
+                    const relativePath = path.relative(root, filePath);
+                    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+                })
+                .sort((a, b) => b.length - a.length)[0]
+            : undefined;
+        return containing ?? folders[0]?.uri.fsPath;
+    }
+
+    /**
+     * Gets a path for display, prefixed with the workspace folder name in multi-root workspaces
+     * @param filePath Absolute path
+     * @returns Workspace-relative path
+     */
+    private displayPath(filePath: string): string {
+        return vscode.workspace.asRelativePath(filePath, (vscode.workspace.workspaceFolders?.length ?? 0) > 1);
+    }
+
     /**
      * Checks if a dependency is external
      * @param importPath Import path to check
@@ -618,7 +1285,7 @@ export class DependencyManager {
         // Ensure path is absolute
         const absolutePath = path.isAbsolute(filePath)
             ? filePath
-            : path.join(this.workspaceRoot!, filePath);
+            : path.join(this.getWorkspaceRoot()!, filePath);
 
         // Get basic file info
         const fileStats = await promisify(fs.stat)(absolutePath);
@@ -627,7 +1294,7 @@ export class DependencyManager {
 
         const fileInfo: FileInfo = {
             path: absolutePath,
-            relativePath: this.workspaceRoot ? path.relative(this.workspaceRoot, absolutePath) : absolutePath,
+            relativePath: path.relative(this.getWorkspaceRoot(absolutePath) ?? '', absolutePath),
             name: fileName,
             extension: extension,
             type: determineFileTypeFromPath(filePath)
@@ -691,7 +1358,7 @@ export class DependencyManager {
         // Ensure path is absolute
         const absolutePath = path.isAbsolute(filePath)
             ? filePath
-            : path.join(this.workspaceRoot!, filePath);
+            : path.join(this.getWorkspaceRoot()!, filePath);
 
         const dependents: string[] = [];
 
@@ -708,112 +1375,238 @@ export class DependencyManager {
         return dependents;
     }
 
+    /**
+     * Gets files that depend on a specific file using an already built graph
+     * @param graph Dependency graph from buildDependencyGraph
+     * @param filePath Absolute path to the file
+     * @returns Array of dependent file paths
+     */
+    public getReverseDependenciesFromGraph(graph: DependencyGraph, filePath: string): string[] {
+        const dependents: string[] = [];
+        for (const [sourcePath, targets] of graph.edges) {
+            if (targets.has(filePath)) {
+                dependents.push(sourcePath);
+            }
+        }
+        return dependents;
+    }
+
     /**
      * Finds circular dependencies in the project
      * @param dependencyGraph Dependency graph from buildDependencyGraph
-     * @returns Array of circular dependency chains
+     * @returns Shortest representative cycles of every circular dependency group;
+     * each cycle starts at its smallest path and ends with it again
      */
     public findCircularDependencies(dependencyGraph: DependencyGraph): string[][] {
-        const circularDependencies: string[][] = [];
-
-        // For each node, perform a depth-first search to find cycles
-        for (const startNode of dependencyGraph.nodes.keys()) {
-            const visited = new Set<string>();
-            const path: string[] = [];
-
-            this.dfsForCycles(
-                startNode,
-                dependencyGraph,
-                visited,
-                path,
-                circularDependencies
-            );
+        return this.findCircularDependencyGroups(dependencyGraph).flatMap(group => group.cycles);
+    }
+
+    /**
+     * Finds groups of files that depend on each other, using Tarjan's strongly
+     * connected components algorithm (linear in the size of the graph)
+     * @param dependencyGraph Dependency graph from buildDependencyGraph
+     * @param maxCyclesPerGroup Maximum number of representative cycles listed per group
+     * @returns Groups, largest first
+     */
+    public findCircularDependencyGroups(
+        dependencyGraph: DependencyGraph,
+        maxCyclesPerGroup: number = 10
+    ): CircularDependencyGroup[] {
+        const groups: CircularDependencyGroup[] = [];
+
+        for (const component of this.findStronglyConnectedComponents(dependencyGraph)) {
+            const members = new Set(component);
+            let edgeCount = 0;
+            for (const file of component) {
+                edgeCount += this.getInternalTargets(dependencyGraph, file).filter(target => members.has(target)).length;
+            }
+
+            // A single file is only circular when it imports itself
+            if (edgeCount === 0) {
+                continue;
+            }
+
+            const files = [...component].sort();
+            groups.push({
+                files,
+                edgeCount,
+                cycles: this.findRepresentativeCycles(dependencyGraph, files, members, maxCyclesPerGroup)
+            });
         }
 
-        return circularDependencies;
+        return groups.sort((a, b) => b.files.length - a.files.length || (a.files[0] < b.files[0] ? -1 : 1));
     }
 
     /**
-     * Performs depth-first search to find cycles in the dependency graph
-     * @param current Current node
+     * Computes strongly connected components iteratively, so that long import
+     * chains cannot overflow the call stack
      * @param graph Dependency graph
-     * @param visited Set of visited nodes
-     * @param path Current path
-     * @param cycles Array to collect cycles into
+     * @returns Components, each a list of file paths
      */
-    private dfsForCycles(
-        current: string,
-        graph: DependencyGraph,
-        visited: Set<string>,
-        path: string[],
-        cycles: string[][]
-    ): void {
-        // If we've already completely processed this node, skip it
-        if (visited.has(current)) {
-            return;
-        }
+    private findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const onStack = new Set<string>();
+        const stack: string[] = [];
+        const components: string[][] = [];
+        let nextIndex = 0;
+
+        for (const root of graph.nodes.keys()) {
+            if (index.has(root)) {
+                continue;
+            }
 
-        // If this node is already in the current path, we've found a cycle
-        const cycleIndex = path.indexOf(current);
-        if (cycleIndex !== -1) {
-            // Extract the cycle
-            const cycle = path.slice(cycleIndex).concat(current);
+            // Explicit DFS stack of files and the dependencies still to visit
+            const work: { node: string; targets: string[]; next: number }[] = [];
+            const visit = (node: string) => {
+                index.set(node, nextIndex);
+                lowLink.set(node, nextIndex);
+                nextIndex++;
+                stack.push(node);
+                onStack.add(node);
+                work.push({ node, targets: this.getInternalTargets(graph, node), next: 0 });
+            };
+            visit(root);
+
+            while (work.length > 0) {
+                const frame = work[work.length - 1];
+
+                if (frame.next < frame.targets.length) {
+                    const target = frame.targets[frame.next++];
+                    if (!index.has(target)) {
+                        visit(target);
+                    } else if (onStack.has(target)) {
+                        lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(target)!));
+                    }
+                    continue;
+                }
 
-            // Check if this cycle is already recorded
-            const isCycleRecorded = cycles.some(recordedCycle => {
-                if (recordedCycle.length !== cycle.length) {
-                    return false;
+                // All dependencies visited: propagate the low link and close the component at its root
+                work.pop();
+                if (work.length > 0) {
+                    const parent = work[work.length - 1].node;
+                    lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
                 }
 
-                // Check if it's the same cycle regardless of rotation
-                for (let i = 0; i < recordedCycle.length; i++) {
-                    let match = true;
-                    for (let j = 0; j < recordedCycle.length; j++) {
-                        if (recordedCycle[j] !== cycle[(i + j) % cycle.length]) {
-                            match = false;
-                            break;
-                        }
-                    }
-                    if (match) {
-                        return true;
-                    }
+                if (lowLink.get(frame.node) === index.get(frame.node)) {
+                    const component: string[] = [];
+                    let member: string;
+                    do {
+                        member = stack.pop()!;
+                        onStack.delete(member);
+                        component.push(member);
+                    } while (member !== frame.node);
+                    components.push(component);
                 }
+            }
+        }
 
-                return false;
-            });
+        return components;
+    }
+
+    /**
+     * Picks shortest cycles until every file of a group is on one of them
+     * @param graph Dependency graph
+     * @param files Files of the group, sorted
+     * @param members Files of the group, for lookups
+     * @param maxCycles Maximum number of cycles to return
+     * @returns Cycles, each starting at its smallest path and ending with it again
+     */
+    private findRepresentativeCycles(
+        graph: DependencyGraph,
+        files: string[],
+        members: Set<string>,
+        maxCycles: number
+    ): string[][] {
+        const cycles: string[][] = [];
+        const covered = new Set<string>();
+
+        for (const start of files) {
+            if (cycles.length >= maxCycles) {
+                break;
+            }
+            if (covered.has(start)) {
+                continue;
+            }
 
-            if (!isCycleRecorded) {
-                cycles.push(cycle);
+            const cycle = this.findShortestCycle(graph, start, members);
+            if (!cycle) {
+                continue;
             }
 
-            return;
+            cycle.forEach(file => covered.add(file));
+            const first = cycle.indexOf([...cycle].sort()[0]);
+            const rotated = [...cycle.slice(first), ...cycle.slice(0, first)];
+            cycles.push([...rotated, rotated[0]]);
         }
 
-        // Add current node to path
-        path.push(current);
+        return cycles;
+    }
+
+    /**
+     * Finds a shortest cycle through a file with a breadth-first search inside its group
+     * @param graph Dependency graph
+     * @param start File the cycle must pass through
+     * @param members Files of the group
+     * @returns Files of the cycle starting at start (without repeating it), or undefined
+     */
+    private findShortestCycle(graph: DependencyGraph, start: string, members: Set<string>): string[] | undefined {
+        const previous = new Map<string, string>();
+        const queue = [start];
+
+        for (let i = 0; i < queue.length; i++) {
+            const current = queue[i];
+            for (const target of this.getInternalTargets(graph, current)) {
+                if (!members.has(target)) {
+                    continue;
+                }
 
-        // Visit all dependencies
-        const dependencies = graph.edges.get(current);
-        if (dependencies) {
-            for (const [target, _] of dependencies) {
-                this.dfsForCycles(target, graph, visited, [...path], cycles);
+                if (target === start) {
+                    const cycle = [current];
+                    while (cycle[cycle.length - 1] !== start) {
+                        cycle.push(previous.get(cycle[cycle.length - 1])!);
+                    }
+                    return cycle.reverse();
+                }
+
+                if (!previous.has(target)) {
+                    previous.set(target, current);
+                    queue.push(target);
+                }
             }
         }
 
-        // Mark this node as completely visited
-        visited.add(current);
+        return undefined;
+    }
+
+    /**
+     * Lists the files of the graph a file depends on
+     * @param graph Dependency graph
+     * @param filePath Source file
+     * @returns Paths of internal dependencies that are nodes of the graph
+     */
+    private getInternalTargets(graph: DependencyGraph, filePath: string): string[] {
+        const targets: string[] = [];
+        for (const [target, dependency] of graph.edges.get(filePath) ?? []) {
+            if (!dependency.isExternal && graph.nodes.has(target)) {
+                targets.push(target);
+            }
+        }
+        return targets;
     }
 
     /**
      * Generates a summary of dependencies for a file
      * @param filePath Path to the file
+     * @param graph Dependency graph of the project, used to find circular dependencies
+     * through the file (the workspace is scanned when omitted)
      * @returns Promise resolving to dependency summary
      */
-    public async generateDependencySummary(filePath: string): Promise<string> {
+    public async generateDependencySummary(filePath: string, graph?: DependencyGraph): Promise<string> {
         // Ensure path is absolute
         const absolutePath = path.isAbsolute(filePath)
             ? filePath
-            : path.join(this.workspaceRoot!, filePath);
+            : path.join(this.getWorkspaceRoot()!, filePath);
 
         // Get direct dependencies
         const fileStats = await promisify(fs.stat)(absolutePath);
@@ -822,10 +1615,10 @@ export class DependencyManager {
 
         const fileInfo: FileInfo = {
             path: absolutePath,
-            relativePath: this.workspaceRoot ? path.relative(this.workspaceRoot, absolutePath) : absolutePath,
+            relativePath: path.relative(this.getWorkspaceRoot(absolutePath) ?? '', absolutePath),
             name: fileName,
             extension: extension,
-            type: determineFileTypeFromPath(extension),
+            type: determineFileTypeFromPath(absolutePath),
             size: fileStats.size,
             lastModified: fileStats.mtime
         };
@@ -855,11 +1648,7 @@ export class DependencyManager {
             if (internal.length > 0) {
                 summary += `  Internal:\n`;
                 for (const dep of internal) {
-                    const relativePath = this.workspaceRoot
-                        ? path.relative(this.workspaceRoot, dep.target)
-                        : dep.target;
-
-                    summary += `    - ${relativePath}`;
+                    summary += `    - ${this.displayPath(dep.target)}`;
 
                     if (dep.lineNumbers && dep.lineNumbers.length > 0) {
                         summary += ` (line${dep.lineNumbers.length > 1 ? 's' : ''} ${dep.lineNumbers.map(n => n + 1).join(', ')})`;
@@ -882,21 +1671,15 @@ export class DependencyManager {
             summary += '\n';
         }
 
-        // Add circular dependency check
-        const graph = await this.buildDependencyGraph({
-            workspaceRoot: this.workspaceRoot || '',
-            rootDirectories: [],
-            rootFiles: [],
-            allFiles: [fileInfo]
-        });
-
-        const circularDeps = this.findCircularDependencies(graph);
-        if (circularDeps.length > 0) {
-            summary += '\n⚠️ Circular Dependencies Found:\n';
-            for (const cycle of circularDeps) {
-                const relativeCycle = cycle.map(p =>
-                    this.workspaceRoot ? path.relative(this.workspaceRoot, p) : p
-                );
+        // Cycles can only be found in the whole project's graph
+        graph ??= await this.buildDependencyGraph(await new ProjectScanner().scanWorkspace());
+
+        const group = this.findCircularDependencyGroups(graph).find(candidate => candidate.files.includes(absolutePath));
+        if (group) {
+            summary += `\n⚠️ Circular Dependencies Found (${group.files.length} files, ${group.edgeCount} dependencies between them):\n`;
+            const cycles = group.cycles.filter(cycle => cycle.includes(absolutePath));
+            for (const cycle of cycles.length > 0 ? cycles : group.cycles) {
+                const relativeCycle = cycle.map(p => this.displayPath(p));
                 summary += `↻ ${relativeCycle.join(' → ')}\n`;
             }
         }
@@ -0,0 +1,599 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// A change proposed by the model, before it is matched against a document
+export interface EditProposal {
+    kind: 'diff' | 'code';
+    language?: string;      // Fence language, e.g. "ts"
+    filePath?: string;      // File named in a unified diff header
+    text: string;           // Raw diff or code block content
+}
+
+// A contiguous change to a document, in 0-based line numbers of the original
+export interface EditHunk {
+    originalStart: number;  // First replaced line
+    originalEnd: number;    // Line after the last replaced line (equal to originalStart for pure insertions)
+    newLines: string[];     // Lines that replace the range
+    removedLines: string[]; // Lines being replaced, for display
+}
+
+// A hunk parsed from a unified diff, not yet located in the document
+interface DiffHunk {
+    oldStart: number;       // 1-based start line from the @@ header
+    oldLines: string[];     // Context and removed lines
+    newLines: string[];     // Context and added lines
+}
+
+// Largest changed region diffed line-by-line; larger regions become a single hunk
+const MAX_DIFF_CELLS = 4_000_000;
+
+export class EditApplier implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'aion-proposed';
+
+    // Proposed document contents served to the diff editor, keyed by URI path
+    private proposals: Map<string, string> = new Map();
+    private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.proposals.get(uri.path) ?? '';
+    }
+
+    /**
+     * Parses fenced code blocks and unified diffs from a model response
+     * @param response Model response text
+     * @returns Proposals in the order they appear
+     */
+    public parseProposals(response: string): EditProposal[] {
+        const proposals: EditProposal[] = [];
+        const fencePattern = /```([\w+#.-]*)[^\n]*\n([\s\S]*?)```/g;
+
+        for (const match of response.matchAll(fencePattern)) {
+            const language = match[1].toLowerCase();
+            // The line break before the closing fence is not part of the block, whatever its style
+            const text = match[2].replace(/\r?\n$/, '');
+
+            if (language === 'diff' || language === 'patch' || this.looksLikeUnifiedDiff(text)) {
+                proposals.push({ kind: 'diff', language, filePath: this.getDiffFilePath(text), text });
+            } else {
+                proposals.push({ kind: 'code', language, text });
+            }
+        }
+
+        // An unfenced diff is still a diff
+        if (proposals.length === 0 && this.looksLikeUnifiedDiff(response)) {
+            proposals.push({ kind: 'diff', filePath: this.getDiffFilePath(response), text: response });
+        }
+
+        return proposals;
+    }
+
+    /**
+     * Lets the user pick a proposal from a response, previews it in the diff
+     * editor and applies the accepted hunks as a single undoable edit
+     * @param response Model response text
+     */
+    public async applyFromResponse(response: string): Promise<void> {
+        const proposals = this.parseProposals(response);
+        if (proposals.length === 0) {
+            vscode.window.showWarningMessage('The answer contains no code block or diff to apply.');
+            return;
+        }
+
+        const proposal = proposals.length === 1
+            ? proposals[0]
+            : await this.pickProposal(proposals);
+        if (!proposal) {
+            return;
+        }
+
+        const editor = await this.getTargetEditor(proposal);
+        if (!editor) {
+            vscode.window.showWarningMessage('Open the file you want to change before applying an answer.');
+            return;
+        }
+
+        const document = editor.document;
+        const originalLines = this.splitLines(document.getText());
+        const hunks = proposal.kind === 'diff'
+            ? this.hunksFromDiff(originalLines, proposal.text)
+            : await this.hunksFromCode(document, originalLines, proposal.text, editor.selection);
+
+        if (hunks === undefined) {
+            if (proposal.kind === 'diff') {
+                vscode.window.showErrorMessage('The diff does not match the current content of the file.');
+            }
+            return;
+        }
+        if (hunks.length === 0) {
+            vscode.window.showInformationMessage('The proposed code is identical to the file.');
+            return;
+        }
+
+        // The hunks are line numbers of this version; edits made during the preview would shift them
+        const version = document.version;
+        const proposedUri = await this.showDiff(document, originalLines, hunks);
+        let accepted: EditHunk[] | undefined;
+        try {
+            accepted = await this.pickHunks(hunks);
+        } finally {
+            this.proposals.delete(proposedUri.path);
+        }
+        if (!accepted || accepted.length === 0) {
+            return;
+        }
+        if (document.version !== version) {
+            vscode.window.showErrorMessage('The file changed while the changes were previewed. Apply the answer again.');
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        for (const hunk of accepted) {
+            edit.replace(document.uri, this.getHunkRange(document, hunk), this.getHunkText(document, hunk, eol));
+        }
+
+        if (await vscode.workspace.applyEdit(edit)) {
+            await vscode.window.showTextDocument(document, editor.viewColumn);
+            vscode.window.showInformationMessage(`Applied ${accepted.length} of ${hunks.length} change${hunks.length > 1 ? 's' : ''}.`);
+        } else {
+            vscode.window.showErrorMessage('The edit could not be applied.');
+        }
+    }
+
+    /**
+     * Turns a code block into hunks. It replaces the selection when there is
+     * one; otherwise it replaces the lines between its first and last lines'
+     * matches in the document, or the symbol named on its first line. Code
+     * that matches neither is only inserted at the cursor when the user agrees.
+     * @param document Document being changed
+     * @param originalLines Current document lines
+     * @param code Code block content
+     * @param selection Current selection
+     * @returns Promise resolving to the hunks that turn the original into the proposal, or undefined when cancelled
+     */
+    private async hunksFromCode(
+        document: vscode.TextDocument,
+        originalLines: string[],
+        code: string,
+        selection: vscode.Selection
+    ): Promise<EditHunk[] | undefined> {
+        let codeLines = this.splitLines(code);
+
+        let range: { start: number; end: number } | undefined;
+        if (!selection.isEmpty) {
+            const start = selection.start.line;
+            const end = selection.end.character === 0 && selection.end.line > start
+                ? selection.end.line
+                : selection.end.line + 1;
+            range = { start, end };
+        } else {
+            // Blank lines around a snippet would otherwise replace the lines next to its match
+            const first = codeLines.findIndex(line => line.trim());
+            const last = codeLines.length - [...codeLines].reverse().findIndex(line => line.trim());
+            codeLines = first === -1 ? [] : codeLines.slice(first, last);
+            range = this.anchorLines(originalLines, codeLines) ?? await this.findNamedSymbol(document, codeLines);
+        }
+
+        if (!range) {
+            const choice = await vscode.window.showWarningMessage(
+                `The code does not match any part of ${path.basename(document.fileName)}. ` +
+                    'Select the code it replaces and apply it again, or insert it at the cursor.',
+                'Insert at Cursor'
+            );
+            if (!choice) {
+                return undefined;
+            }
+            const line = selection.active.line;
+            return [{ originalStart: line, originalEnd: line, newLines: codeLines, removedLines: [] }];
+        }
+
+        const { start, end } = range;
+        return this.diffLines(originalLines.slice(start, end), codeLines).map(hunk => ({
+            ...hunk,
+            originalStart: hunk.originalStart + start,
+            originalEnd: hunk.originalEnd + start
+        }));
+    }
+
+    /**
+     * Finds the lines a code snippet replaces by its first and last non-blank
+     * lines. When they occur several times, the pair spanning about as many
+     * lines as the snippet wins.
+     * @param lines Document lines
+     * @param codeLines Snippet lines, without blank lines around them
+     * @returns Replaced line range (end exclusive), or undefined when either line is not in the document
+     */
+    private anchorLines(lines: string[], codeLines: string[]): { start: number; end: number } | undefined {
+        if (codeLines.length === 0) {
+            return undefined;
+        }
+
+        const first = codeLines[0].trim();
+        const last = codeLines[codeLines.length - 1].trim();
+        const starts: number[] = [];
+        const ends: number[] = [];
+        lines.forEach((line, index) => {
+            if (line.trim() === first) {
+                starts.push(index);
+            }
+            if (line.trim() === last) {
+                ends.push(index);
+            }
+        });
+
+        let best: { start: number; end: number } | undefined;
+        let bestDistance = Infinity;
+        for (const start of starts) {
+            for (const end of ends) {
+                if (end < start || (codeLines.length > 1 && end === start)) {
+                    continue;
+                }
+                const distance = Math.abs(end - start + 1 - codeLines.length);
+                if (distance < bestDistance) {
+                    best = { start, end: end + 1 };
+                    bestDistance = distance;
+                }
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Finds the symbol whose name appears on the snippet's first line, for a
+     * rewritten function or class whose first and last lines both changed
+     * @param document Document being changed
+     * @param codeLines Snippet lines
+     * @returns Promise resolving to the symbol's line range (end exclusive), or undefined when no symbol is named
+     */
+    private async findNamedSymbol(
+        document: vscode.TextDocument,
+        codeLines: string[]
+    ): Promise<{ start: number; end: number } | undefined> {
+        const header = codeLines.find(line => line.trim());
+        if (!header) {
+            return undefined;
+        }
+
+        let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+        try {
+            symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider',
+                document.uri
+            );
+        } catch (error) {
+            console.error('Error getting document symbols:', error);
+        }
+
+        // Outer symbols come first, so a rewritten class wins over its method of the same name
+        const queue = [...symbols ?? []];
+        while (queue.length > 0) {
+            const symbol = queue.shift()!;
+            const name = symbol.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            if (name && new RegExp(`(^|[^\\w$])${name}([^\\w$]|$)`).test(header)) {
+                const range = 'location' in symbol ? symbol.location.range : symbol.range;
+                return { start: range.start.line, end: range.end.line + 1 };
+            }
+            if ('children' in symbol) {
+                queue.push(...symbol.children);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Locates the hunks of a unified diff in the document
+     * @param originalLines Current document lines
+     * @param diff Unified diff text
+     * @returns Located hunks, or undefined when a hunk does not match the document
+     */
+    private hunksFromDiff(originalLines: string[], diff: string): EditHunk[] | undefined {
+        const located: EditHunk[] = [];
+        let searchFrom = 0;
+
+        for (const hunk of this.parseUnifiedDiff(diff)) {
+            const start = this.locateLines(originalLines, hunk.oldLines, Math.max(hunk.oldStart - 1, searchFrom));
+            if (start === -1) {
+                return undefined;
+            }
+
+            // Narrow the hunk down to the lines that actually change
+            for (const change of this.diffLines(hunk.oldLines, hunk.newLines)) {
+                located.push({
+                    ...change,
+                    originalStart: change.originalStart + start,
+                    originalEnd: change.originalEnd + start
+                });
+            }
+            searchFrom = start + hunk.oldLines.length;
+        }
+
+        return located;
+    }
+
+    /**
+     * Parses the hunks of a unified diff
+     * @param diff Unified diff text
+     * @returns Parsed hunks
+     */
+    private parseUnifiedDiff(diff: string): DiffHunk[] {
+        const hunks: DiffHunk[] = [];
+        let current: DiffHunk | undefined;
+
+        for (const line of this.splitLines(diff)) {
+            const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+            if (header) {
+                current = { oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+                hunks.push(current);
+                continue;
+            }
+
+            if (!current || line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) {
+                continue;
+            }
+
+            if (line.startsWith('-')) {
+                current.oldLines.push(line.slice(1));
+            } else if (line.startsWith('+')) {
+                current.newLines.push(line.slice(1));
+            } else {
+                // Context line; models sometimes drop the leading space on blank lines
+                const text = line.startsWith(' ') ? line.slice(1) : line;
+                current.oldLines.push(text);
+                current.newLines.push(text);
+            }
+        }
+
+        return hunks;
+    }
+
+    /**
+     * Finds a run of lines in the document, preferring the hinted position
+     * @param lines Document lines
+     * @param needle Lines to find
+     * @param hint Line where the run is expected to start
+     * @returns Start line of the run, or -1 when not found
+     */
+    private locateLines(lines: string[], needle: string[], hint: number): number {
+        const matchesAt = (start: number) =>
+            needle.every((line, i) => lines[start + i]?.trimEnd() === line.trimEnd());
+
+        if (needle.length === 0) {
+            return Math.min(hint, lines.length);
+        }
+        if (matchesAt(hint)) {
+            return hint;
+        }
+
+        // Line numbers in model-written diffs are often off, so search outwards from the hint
+        for (let offset = 1; offset < lines.length; offset++) {
+            if (hint - offset >= 0 && matchesAt(hint - offset)) {
+                return hint - offset;
+            }
+            if (hint + offset < lines.length && matchesAt(hint + offset)) {
+                return hint + offset;
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * Computes the changed regions between two versions of a text, line by line
+     * @param oldLines Original lines
+     * @param newLines Proposed lines
+     * @returns Hunks relative to the original lines
+     */
+    private diffLines(oldLines: string[], newLines: string[]): EditHunk[] {
+        // Strip the common prefix and suffix so the quadratic part stays small
+        let prefix = 0;
+        while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (
+            suffix < oldLines.length - prefix &&
+            suffix < newLines.length - prefix &&
+            oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+        ) {
+            suffix++;
+        }
+
+        const a = oldLines.slice(prefix, oldLines.length - suffix);
+        const b = newLines.slice(prefix, newLines.length - suffix);
+        if (a.length === 0 && b.length === 0) {
+            return [];
+        }
+
+        if (a.length * b.length > MAX_DIFF_CELLS) {
+            return [{ originalStart: prefix, originalEnd: prefix + a.length, newLines: b, removedLines: a }];
+        }
+
+        // Longest common subsequence table, filled from the end
+        const width = b.length + 1;
+        const lcs = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i * width + j] = a[i] === b[j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+
+        const hunks: EditHunk[] = [];
+        let current: EditHunk | undefined;
+        let i = 0;
+        let j = 0;
+
+        const flush = () => {
+            if (current) {
+                hunks.push(current);
+                current = undefined;
+            }
+        };
+        const open = () => current ??= { originalStart: prefix + i, originalEnd: prefix + i, newLines: [], removedLines: [] };
+
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                flush();
+                i++;
+                j++;
+            } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+                open().newLines.push(b[j]);
+                j++;
+            } else {
+                const hunk = open();
+                hunk.removedLines.push(a[i]);
+                hunk.originalEnd = prefix + i + 1;
+                i++;
+            }
+        }
+        flush();
+
+        return hunks;
+    }
+
+    /**
+     * Opens VS Code's diff editor comparing the document with all hunks applied
+     * @param document Document being changed
+     * @param originalLines Current document lines
+     * @param hunks Proposed hunks
+     * @returns Promise resolving to the URI of the proposed content, to drop once the preview is done
+     */
+    private async showDiff(document: vscode.TextDocument, originalLines: string[], hunks: EditHunk[]): Promise<vscode.Uri> {
+        const proposed: string[] = [];
+        let line = 0;
+        for (const hunk of [...hunks].sort((x, y) => x.originalStart - y.originalStart)) {
+            proposed.push(...originalLines.slice(line, hunk.originalStart), ...hunk.newLines);
+            line = hunk.originalEnd;
+        }
+        proposed.push(...originalLines.slice(line));
+
+        const proposedUri = vscode.Uri.from({
+            scheme: EditApplier.scheme,
+            path: document.uri.path,
+            query: Date.now().toString()
+        });
+        this.proposals.set(proposedUri.path, proposed.join('\n'));
+        this.onDidChangeEmitter.fire(proposedUri);
+
+        const title = `${path.basename(document.fileName)} ↔ DeepSeek proposal`;
+        await vscode.commands.executeCommand('vscode.diff', document.uri, proposedUri, title, { preview: true });
+        return proposedUri;
+    }
+
+    /**
+     * Asks which hunks to apply; all hunks are selected initially
+     * @param hunks Proposed hunks
+     * @returns Promise resolving to the accepted hunks, or undefined when cancelled
+     */
+    private async pickHunks(hunks: EditHunk[]): Promise<EditHunk[] | undefined> {
+        const items = hunks.map(hunk => ({
+            label: this.describeHunk(hunk),
+            detail: (hunk.newLines.find(line => line.trim()) ?? hunk.removedLines.find(line => line.trim()) ?? '').trim(),
+            picked: true,
+            hunk
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Apply DeepSeek changes',
+            placeHolder: 'Select the changes to apply (see the diff editor)',
+            canPickMany: true,
+            ignoreFocusOut: true
+        });
+
+        return picked?.map(item => item.hunk);
+    }
+
+    private async pickProposal(proposals: EditProposal[]): Promise<EditProposal | undefined> {
+        const items = proposals.map((proposal, index) => ({
+            label: `${proposal.kind === 'diff' ? 'Diff' : 'Code block'} ${index + 1}`,
+            description: proposal.filePath ?? proposal.language,
+            detail: proposal.text.split('\n').find(line => line.trim())?.trim(),
+            proposal
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Apply DeepSeek answer',
+            placeHolder: 'The answer contains several code blocks, choose one to apply'
+        });
+
+        return picked?.proposal;
+    }
+
+    /**
+     * Finds the editor to apply a proposal to: the file named in a diff, or
+     * the active (or last visible) text editor
+     * @param proposal Proposal to apply
+     * @returns Promise resolving to the editor, or undefined when none is open
+     */
+    private async getTargetEditor(proposal: EditProposal): Promise<vscode.TextEditor | undefined> {
+        if (proposal.filePath) {
+            const matches = await vscode.workspace.findFiles(proposal.filePath, undefined, 1);
+            if (matches.length > 0) {
+                const document = await vscode.workspace.openTextDocument(matches[0]);
+                return vscode.window.showTextDocument(document, { preview: false });
+            }
+        }
+
+        // The chat view has focus when "apply" is clicked, so fall back to a visible editor
+        return vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors.find(
+            editor => editor.document.uri.scheme === 'file' || editor.document.uri.scheme === 'untitled'
+        );
+    }
+
+    private getHunkRange(document: vscode.TextDocument, hunk: EditHunk): vscode.Range {
+        const start = new vscode.Position(hunk.originalStart, 0);
+        if (hunk.originalEnd < document.lineCount) {
+            return new vscode.Range(start, new vscode.Position(hunk.originalEnd, 0));
+        }
+        // The hunk runs to the end of the document, which has no trailing line to stop at
+        const documentEnd = document.lineAt(document.lineCount - 1).range.end;
+        if (hunk.originalStart >= document.lineCount) {
+            return new vscode.Range(documentEnd, documentEnd);
+        }
+        if (hunk.newLines.length === 0 && hunk.originalStart > 0) {
+            // Deleting the last lines also removes the line break before them
+            return new vscode.Range(document.lineAt(hunk.originalStart - 1).range.end, documentEnd);
+        }
+        return new vscode.Range(start, documentEnd);
+    }
+
+    private getHunkText(document: vscode.TextDocument, hunk: EditHunk, eol: string): string {
+        if (hunk.newLines.length === 0) {
+            return '';
+        }
+        if (hunk.originalEnd < document.lineCount) {
+            return hunk.newLines.join(eol) + eol;
+        }
+        // Appending after the last line needs a leading line break instead of a trailing one
+        return hunk.originalStart < document.lineCount
+            ? hunk.newLines.join(eol)
+            : eol + hunk.newLines.join(eol);
+    }
+
+    private describeHunk(hunk: EditHunk): string {
+        const line = hunk.originalStart + 1;
+        if (hunk.removedLines.length === 0) {
+            return `Insert ${hunk.newLines.length} line(s) at line ${line}`;
+        }
+        if (hunk.newLines.length === 0) {
+            return `Delete lines ${line}-${hunk.originalEnd}`;
+        }
+        return `Replace lines ${line}-${hunk.originalEnd} with ${hunk.newLines.length} line(s)`;
+    }
+
+    private looksLikeUnifiedDiff(text: string): boolean {
+        return /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(text);
+    }
+
+    private getDiffFilePath(diff: string): string | undefined {
+        const match = diff.match(/^\+\+\+ (?:b\/)?(\S+)/m);
+        return match && match[1] !== '/dev/null' ? match[1] : undefined;
+    }
+
+    private splitLines(text: string): string[] {
+        return text.split(/\r?\n/);
+    }
+}
@@ -1,21 +1,89 @@
 import * as vscode from 'vscode';
-import { ProjectScanner } from './projectScanner.js';
 import { ChatViewProvider } from './chatView.js';
+import { ApiKeyManager } from './apiKeyManager.js';
+import { DeepSeekAPI } from './deepseekapi.js';
+import { createModelProvider } from './modelProvider.js';
+import { ContextManager } from './contextManager.js';
+import { DeepSeekInlineCompletionProvider } from './inlineCompletionProvider.js';
+import { askDeepseek } from './askDeepseek.js';
+import { EditApplier } from './editApplier.js';
+import { ProjectIndex } from './projectIndex.js';
+import { DependencyGraphPanel } from './dependencyGraphView.js';
+import {
+    GraphExport,
+    GraphExportFormat,
+    GraphExportOptions,
+    createGraphExport,
+    exportDependencyGraphCommand,
+    formatGraphExport
+} from './graphExport.js';
+import { ArchitectureCodeActionProvider, ArchitectureGuard, askArchitectureRefactoring } from './architectureRules.js';
+import { UnusedCodeProvider, askWhetherUnusedIsSafeToRemove, deleteUnusedFile } from './unusedCodeView.js';
+import { SemanticIndex, semanticSearchCommand } from './semanticIndex.js';
+import { SymbolIndex } from './symbolIndex.js';
+import { UsageTracker } from './usageTracker.js';
+import { UsageReportPanel, UsageStatusBar } from './usageView.js';
 
-export function activate(context: vscode.ExtensionContext) {
+// API returned from activate, for other extensions and scripts
+export interface AionApi {
+    /**
+     * Exports the dependency graph, or the dependencies of one file
+     * @param format Output format
+     * @param options What to export
+     * @returns Promise resolving to DOT source, a Mermaid flowchart or JSON text
+     */
+    exportDependencyGraph(format: GraphExportFormat, options?: GraphExportOptions): Promise<string>;
+
+    /**
+     * Gets the dependency graph as plain data in the JSON export schema
+     * @param options What to export
+     * @returns Promise resolving to the export data
+     */
+    getDependencyGraph(options?: GraphExportOptions): Promise<GraphExport>;
+}
+
+export async function activate(context: vscode.ExtensionContext): Promise<AionApi> {
     console.log('AION EXTENSION ACTIVATED!');
     vscode.window.showInformationMessage('AION is now active!');
 
-    const config = vscode.workspace.getConfiguration('aion');
-    const apiKey = config.get<string>('openrouterApiKey');
+    const apiKeys = new ApiKeyManager(context.secrets, context.workspaceState);
+    context.subscriptions.push(apiKeys);
+    await apiKeys.migrateLegacySetting();
+
+    // Tokens and cost of every request, summed per chat session and per workspace
+    const usageTracker = new UsageTracker(context.globalState);
+    context.subscriptions.push(usageTracker, new UsageStatusBar(usageTracker));
+
+    const api = new DeepSeekAPI(apiKeys, usageTracker);
+
+    // Index the workspace once and keep it current from file system events
+    const projectIndex = new ProjectIndex(context.storageUri);
+    context.subscriptions.push(projectIndex);
+    if (vscode.workspace.workspaceFolders?.length) {
+        projectIndex.initialize().catch(error => console.error('Error indexing workspace:', error));
+    }
 
-    if (!apiKey) {
-        vscode.window.showErrorMessage('OpenRouter API key not found in settings!');
-        return;
+    // Code search index, built in the background and kept in workspace storage
+    const semanticIndex = new SemanticIndex(projectIndex, context.storageUri, apiKeys, context.globalState, usageTracker);
+    context.subscriptions.push(semanticIndex);
+    if (vscode.workspace.workspaceFolders?.length) {
+        semanticIndex.initialize();
     }
 
+    // Functions and classes with their callers and callees, from the language extensions
+    const symbolIndex = new SymbolIndex(projectIndex);
+    context.subscriptions.push(symbolIndex);
+
+    const contextManager = new ContextManager(projectIndex, semanticIndex, symbolIndex);
+
+    // Serves proposed file contents to the diff editor
+    const editApplier = new EditApplier();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(EditApplier.scheme, editApplier)
+    );
+
     // Register ChatViewProvider
-    const chatProvider = new ChatViewProvider(context, apiKey);
+    const chatProvider = new ChatViewProvider(context, api, editApplier, contextManager, usageTracker);
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
             ChatViewProvider.viewType,
@@ -23,24 +91,109 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Report imports that break the rules in .aion/architecture.json
+    const architectureGuard = new ArchitectureGuard(projectIndex);
+    context.subscriptions.push(
+        architectureGuard,
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' },
+            new ArchitectureCodeActionProvider(),
+            { providedCodeActionKinds: ArchitectureCodeActionProvider.providedCodeActionKinds }
+        )
+    );
+    if (vscode.workspace.workspaceFolders?.length) {
+        architectureGuard.start();
+    }
+
+    // Files and exports nothing uses, analysed when the view is first shown
+    const unusedCodeProvider = new UnusedCodeProvider(projectIndex);
+    context.subscriptions.push(
+        unusedCodeProvider,
+        vscode.window.registerTreeDataProvider(UnusedCodeProvider.viewType, unusedCodeProvider)
+    );
+
+    // Register inline (ghost text) completions for files on disk and new files only,
+    // so output, git and other virtual documents are never sent to the API
+    context.subscriptions.push(
+        vscode.languages.registerInlineCompletionItemProvider(
+            [{ scheme: 'file' }, { scheme: 'untitled' }],
+            new DeepSeekInlineCompletionProvider(api, contextManager)
+        )
+    );
+
     // Register commands
     context.subscriptions.push(
-        vscode.commands.registerCommand('aion.askDeepseek', async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showWarningMessage('No active editor!');
-                return;
+        vscode.commands.registerCommand('aion.askDeepseek', () => askDeepseek(api, contextManager, chatProvider)),
+
+        vscode.commands.registerCommand('aion.startChat', () => {
+            vscode.commands.executeCommand('workbench.view.extension.aion.chatView');
+        }),
+
+        vscode.commands.registerCommand('aion.setApiKey', async () => {
+            const provider = createModelProvider();
+            if (await apiKeys.promptForApiKey(provider.id, provider.displayName)) {
+                vscode.window.showInformationMessage(`${provider.displayName} API key saved.`);
             }
+        }),
 
-            const scanner = new ProjectScanner();
-            const structure = await scanner.scanWorkspace();
-            vscode.window.showInformationMessage(`Project scanned: ${structure.allFiles.length} files found`);
+        vscode.commands.registerCommand('aion.showDependencyGraph', () => {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                vscode.window.showWarningMessage('Open a folder to see its dependency graph.');
+                return;
+            }
+            DependencyGraphPanel.show(context.extensionUri, projectIndex);
         }),
 
-        vscode.commands.registerCommand('aion.startChat', () => {
-            vscode.commands.executeCommand('workbench.view.extension.aion.chatView');
-        })
+        vscode.commands.registerCommand('aion.refreshIndex', () => vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'AION: Indexing workspace' },
+            () => projectIndex.refresh()
+        )),
+
+        vscode.commands.registerCommand('aion.exportDependencyGraph', () => exportDependencyGraphCommand(projectIndex)),
+
+        vscode.commands.registerCommand('aion.semanticSearch', () => semanticSearchCommand(semanticIndex)),
+
+        vscode.commands.registerCommand('aion.showUsage', () => UsageReportPanel.show(context.extensionUri, usageTracker)),
+
+        vscode.commands.registerCommand('aion.unusedCode.refresh', () => unusedCodeProvider.refresh()),
+
+        vscode.commands.registerCommand('aion.unusedCode.delete', deleteUnusedFile),
+
+        vscode.commands.registerCommand(
+            'aion.unusedCode.askDeepseek',
+            item => askWhetherUnusedIsSafeToRemove(contextManager, chatProvider, item)
+        ),
+
+        vscode.commands.registerCommand(
+            'aion.askArchitectureRefactoring',
+            (uri: vscode.Uri, diagnostic: vscode.Diagnostic) =>
+                askArchitectureRefactoring(contextManager, chatProvider, uri, diagnostic)
+        )
     );
+
+    // Stay active without a key: offer a key found in `.env` or the environment, or to set one
+    const provider = createModelProvider();
+    apiKeys.offerEnvironmentKey(provider.id, provider.displayName).then(async imported => {
+        if (imported || !provider.requiresApiKey || await apiKeys.getApiKey(provider.id)) {
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `AION needs a ${provider.displayName} API key before it can answer questions.`,
+            'Set API Key'
+        );
+        if (choice) {
+            vscode.commands.executeCommand('aion.setApiKey');
+        }
+    }, error => console.error('Error offering the API key from the environment:', error));
+
+    return {
+        exportDependencyGraph: async (format, options) => formatGraphExport(
+            createGraphExport(await projectIndex.getDependencyGraph(), projectIndex.dependencyManager, options),
+            format
+        ),
+        getDependencyGraph: async (options) =>
+            createGraphExport(await projectIndex.getDependencyGraph(), projectIndex.dependencyManager, options)
+    };
 }
 
 export function deactivate() { }
\ No newline at end of file
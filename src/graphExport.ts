@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import { Dependency, DependencyGraph, DependencyManager, DependencyType } from './dependencyManager.js';
+import { FileType } from './projectScanner.js';
+import { ProjectIndex } from './projectIndex.js';
+
+// Formats the dependency graph can be exported to
+export type GraphExportFormat = 'dot' | 'mermaid' | 'json';
+
+// Version of the JSON export schema, increased on incompatible changes
+export const GRAPH_EXPORT_VERSION = 2;
+
+// What to export
+export interface GraphExportOptions {
+    root?: string;          // Absolute path of a file; only it and what it depends on are exported
+    depth?: number;         // Maximum number of imports followed from the root (unlimited by default)
+}
+
+// A file in the export. Modification times are left out: they differ between
+// checkouts of the same commit, so exports compared in CI would never match.
+export interface GraphExportNode {
+    id: string;             // Workspace-relative path, prefixed with the folder name in multi-root workspaces
+    workspaceFolder?: string;
+    relativePath: string;   // Path relative to its workspace folder
+    name: string;
+    extension: string;
+    type: FileType;
+    size: number;           // Size in bytes
+}
+
+// A dependency between two exported files
+export interface GraphExportEdge {
+    source: string;         // Node id of the importing file
+    target: string;         // Node id of the imported file
+    type: DependencyType;
+    isTypeOnly?: boolean;
+    inCycle?: boolean;      // Both files are part of the same circular dependency group
+    symbols?: string[];     // Sorted imported names
+    lines?: number[];       // Sorted 1-based lines of the references
+}
+
+// Serialisable dependency graph; arrays are sorted so that exports of an unchanged project are identical
+export interface GraphExport {
+    version: number;
+    root?: string;          // Node id of the root file when a subgraph was exported
+    nodes: GraphExportNode[];
+    edges: GraphExportEdge[];
+    cycles: string[][];     // Shortest cycles of every circular dependency group, each starting at its smallest node id
+}
+
+/**
+ * Gets the id a file has in exports
+ * @param filePath Absolute path
+ * @returns Workspace-relative path with '/' separators, prefixed with the folder name in multi-root workspaces
+ */
+export function graphNodeId(filePath: string): string {
+    const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    return vscode.workspace.asRelativePath(filePath, multiRoot).split('\\').join('/');
+}
+
+/**
+ * Converts a dependency graph, or the part reachable from a root file, to
+ * plain serialisable data. Dependencies on files outside the graph are left out.
+ * @param graph Dependency graph
+ * @param dependencyManager Manager used to find circular dependencies
+ * @param options What to export
+ * @returns Export data with sorted nodes, edges and cycles
+ */
+export function createGraphExport(
+    graph: DependencyGraph,
+    dependencyManager: DependencyManager,
+    options: GraphExportOptions = {}
+): GraphExport {
+    const subgraph = options.root ? extractSubgraph(graph, options.root, options.depth) : graph;
+
+    const nodes: GraphExportNode[] = [...subgraph.nodes.values()].map(file => ({
+        id: graphNodeId(file.path),
+        workspaceFolder: file.workspaceFolder,
+        relativePath: file.relativePath.split('\\').join('/'),
+        name: file.name,
+        extension: file.extension,
+        type: file.type,
+        size: file.size
+    }));
+
+    const groups = dependencyManager.findCircularDependencyGroups(subgraph);
+    const groupOf = new Map<string, number>();
+    groups.forEach((group, index) => group.files.forEach(file => groupOf.set(file, index)));
+
+    const edges: GraphExportEdge[] = [];
+    for (const [source, dependencies] of subgraph.edges) {
+        for (const [target, dependency] of dependencies) {
+            if (source !== target && subgraph.nodes.has(target)) {
+                const inCycle = groupOf.has(source) && groupOf.get(source) === groupOf.get(target);
+                edges.push(toExportEdge(dependency, inCycle));
+            }
+        }
+    }
+
+    // Each cycle ends with its first file again; drop it and start at the smallest id
+    const cycles = groups.flatMap(group => group.cycles).map(cycle => {
+        const ids = cycle.slice(0, -1).map(graphNodeId);
+        const start = ids.indexOf([...ids].sort(compare)[0]);
+        return [...ids.slice(start), ...ids.slice(0, start)];
+    });
+
+    return {
+        version: GRAPH_EXPORT_VERSION,
+        root: options.root ? graphNodeId(options.root) : undefined,
+        nodes: nodes.sort((a, b) => compare(a.id, b.id)),
+        edges: edges.sort((a, b) => compare(a.source, b.source) || compare(a.target, b.target)),
+        cycles: cycles.sort((a, b) => compare(a.join('\n'), b.join('\n')))
+    };
+}
+
+/**
+ * Formats export data
+ * @param data Data from createGraphExport
+ * @param format Output format
+ * @returns Graphviz DOT source, a Mermaid flowchart or JSON text
+ */
+export function formatGraphExport(data: GraphExport, format: GraphExportFormat): string {
+    switch (format) {
+        case 'dot':
+            return toDot(data);
+        case 'mermaid':
+            return toMermaid(data);
+        case 'json':
+            return JSON.stringify(data, null, 2) + '\n';
+    }
+}
+
+/**
+ * Exports a dependency graph in one step
+ * @param graph Dependency graph
+ * @param dependencyManager Manager used to find circular dependencies
+ * @param format Output format
+ * @param options What to export
+ * @returns Exported text
+ */
+export function exportDependencyGraph(
+    graph: DependencyGraph,
+    dependencyManager: DependencyManager,
+    format: GraphExportFormat,
+    options: GraphExportOptions = {}
+): string {
+    return formatGraphExport(createGraphExport(graph, dependencyManager, options), format);
+}
+
+/**
+ * Asks for a format, a scope and a target file, then exports the graph there
+ * @param projectIndex Index providing the graph
+ */
+export async function exportDependencyGraphCommand(projectIndex: ProjectIndex): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showWarningMessage('Open a folder to export its dependency graph.');
+        return;
+    }
+
+    const formats: (vscode.QuickPickItem & { format: GraphExportFormat; extension: string })[] = [
+        { label: 'Graphviz DOT', description: '.dot', format: 'dot', extension: 'dot' },
+        { label: 'Mermaid', description: '.mmd', format: 'mermaid', extension: 'mmd' },
+        { label: 'JSON', description: '.json', format: 'json', extension: 'json' }
+    ];
+    const format = await vscode.window.showQuickPick(formats, { placeHolder: 'Export the dependency graph as' });
+    if (!format) {
+        return;
+    }
+
+    const graph = await projectIndex.getDependencyGraph();
+
+    // Offer the active file's dependencies as an alternative to the whole project
+    let root: string | undefined;
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument?.uri.scheme === 'file' && graph.nodes.has(activeDocument.uri.fsPath)) {
+        const scope = await vscode.window.showQuickPick(
+            [
+                { label: 'Whole project', root: undefined },
+                { label: `Dependencies of ${graphNodeId(activeDocument.uri.fsPath)}`, root: activeDocument.uri.fsPath }
+            ],
+            { placeHolder: 'What to export' }
+        );
+        if (!scope) {
+            return;
+        }
+        root = scope.root;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, `dependency-graph.${format.extension}`) : undefined,
+        filters: { [format.label]: [format.extension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        const text = exportDependencyGraph(graph, projectIndex.dependencyManager, format.format, { root });
+        await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf-8'));
+
+        const choice = await vscode.window.showInformationMessage(
+            `Dependency graph exported to ${vscode.workspace.asRelativePath(target)}.`,
+            'Open',
+            'Copy to Clipboard'
+        );
+        if (choice === 'Open') {
+            await vscode.window.showTextDocument(target);
+        } else if (choice === 'Copy to Clipboard') {
+            await vscode.env.clipboard.writeText(text);
+        }
+    } catch (error) {
+        console.error('Error exporting dependency graph:', error);
+        vscode.window.showErrorMessage('The dependency graph could not be exported.');
+    }
+}
+
+/**
+ * Collects a file and everything it depends on, directly or indirectly
+ * @param graph Dependency graph
+ * @param root Absolute path of the root file
+ * @param depth Maximum number of imports to follow
+ * @returns Graph restricted to the reachable files
+ */
+function extractSubgraph(graph: DependencyGraph, root: string, depth: number = Infinity): DependencyGraph {
+    const subgraph: DependencyGraph = { nodes: new Map(), edges: new Map() };
+    const rootFile = graph.nodes.get(root);
+    if (!rootFile) {
+        return subgraph;
+    }
+
+    subgraph.nodes.set(root, rootFile);
+    let frontier = [root];
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+        const next: string[] = [];
+        for (const filePath of frontier) {
+            for (const target of graph.edges.get(filePath)?.keys() ?? []) {
+                const file = graph.nodes.get(target);
+                if (file && !subgraph.nodes.has(target)) {
+                    subgraph.nodes.set(target, file);
+                    next.push(target);
+                }
+            }
+        }
+        frontier = next;
+    }
+
+    // Keep every dependency between the collected files, not only the ones followed
+    for (const filePath of subgraph.nodes.keys()) {
+        const dependencies = new Map<string, Dependency>();
+        for (const [target, dependency] of graph.edges.get(filePath) ?? []) {
+            if (subgraph.nodes.has(target)) {
+                dependencies.set(target, dependency);
+            }
+        }
+        subgraph.edges.set(filePath, dependencies);
+    }
+
+    return subgraph;
+}
+
+function toExportEdge(dependency: Dependency, inCycle: boolean): GraphExportEdge {
+    const edge: GraphExportEdge = {
+        source: graphNodeId(dependency.source),
+        target: graphNodeId(dependency.target),
+        type: dependency.type
+    };
+    if (dependency.isTypeOnly) {
+        edge.isTypeOnly = true;
+    }
+    if (inCycle) {
+        edge.inCycle = true;
+    }
+    if (dependency.symbols?.length) {
+        edge.symbols = [...new Set(dependency.symbols)].sort(compare);
+    }
+    if (dependency.lineNumbers?.length) {
+        edge.lines = [...new Set(dependency.lineNumbers)].map(line => line + 1).sort((a, b) => a - b);
+    }
+    return edge;
+}
+
+/**
+ * Formats export data as a Graphviz digraph; circular dependencies are red,
+ * type-only references dashed
+ * @param data Export data
+ * @returns DOT source
+ */
+function toDot(data: GraphExport): string {
+    const lines = [
+        'digraph dependencies {',
+        '    rankdir=LR;',
+        '    node [shape=box, fontname="Helvetica", fontsize=10];'
+    ];
+
+    for (const node of data.nodes) {
+        const attributes = [`label=${dotString(node.id)}`, `tooltip=${dotString(node.type)}`];
+        if (node.id === data.root) {
+            attributes.push('penwidth=2');
+        }
+        lines.push(`    ${dotString(node.id)} [${attributes.join(', ')}];`);
+    }
+
+    for (const edge of data.edges) {
+        const attributes: string[] = [];
+        if (edge.type !== DependencyType.Import) {
+            attributes.push(`label=${dotString(edge.type)}`);
+        }
+        if (edge.isTypeOnly || edge.type === DependencyType.Reference) {
+            attributes.push('style=dashed');
+        }
+        if (edge.inCycle) {
+            attributes.push('color=red');
+        }
+        const suffix = attributes.length ? ` [${attributes.join(', ')}]` : '';
+        lines.push(`    ${dotString(edge.source)} -> ${dotString(edge.target)}${suffix};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats export data as a Mermaid flowchart; circular dependencies are red,
+ * type-only references dotted
+ * @param data Export data
+ * @returns Mermaid source (without a surrounding code fence)
+ */
+function toMermaid(data: GraphExport): string {
+    const keys = new Map(data.nodes.map((node, index) => [node.id, `n${index}`]));
+    const lines = ['graph LR'];
+
+    for (const node of data.nodes) {
+        lines.push(`    ${keys.get(node.id)}["${mermaidString(node.id)}"]`);
+    }
+
+    const cycleLinks: number[] = [];
+    data.edges.forEach((edge, index) => {
+        const arrow = edge.isTypeOnly || edge.type === DependencyType.Reference ? '-.->' : '-->';
+        const label = edge.type === DependencyType.Import ? '' : `|${mermaidString(edge.type)}|`;
+        lines.push(`    ${keys.get(edge.source)} ${arrow}${label} ${keys.get(edge.target)}`);
+        if (edge.inCycle) {
+            cycleLinks.push(index);
+        }
+    });
+
+    if (cycleLinks.length) {
+        lines.push(`    linkStyle ${cycleLinks.join(',')} stroke:#d33,stroke-width:2px`);
+    }
+    if (data.root && keys.has(data.root)) {
+        lines.push(`    style ${keys.get(data.root)} stroke-width:3px`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function dotString(text: string): string {
+    return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+function mermaidString(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;');
+}
+
+// Ordinal comparison, independent of the locale
+function compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,352 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { promisify } from 'util';
+
+const readFile = promisify(fs.readFile);
+
+// Ignore files read from every scanned directory, in gitignore syntax
+export const IGNORE_FILE_NAMES = ['.gitignore', '.aionignore'];
+
+// A single compiled gitignore-style pattern
+export interface IgnoreRule {
+    pattern: string;        // Pattern as written
+    regex: RegExp;          // Matches paths relative to baseDir, using '/' separators
+    negated: boolean;       // Pattern started with '!'
+    directoryOnly: boolean; // Pattern ended with '/'
+    baseDir: string;        // Directory the rule is relative to ('' for the root), using '/' separators
+}
+
+/**
+ * Compiles one line of a gitignore file
+ * @param line Line from the file
+ * @param baseDir Directory containing the file, relative to the root with '/' separators
+ * @returns Compiled rule, or undefined for blank lines and comments
+ */
+export function compileIgnoreRule(line: string, baseDir: string = ''): IgnoreRule | undefined {
+    // Trailing spaces are ignored unless escaped
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+        return undefined;
+    }
+
+    let negated = false;
+    if (pattern.startsWith('!')) {
+        negated = true;
+        pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+        pattern = pattern.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (pattern.endsWith('/')) {
+        directoryOnly = true;
+        pattern = pattern.replace(/\/+$/, '');
+    }
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    if (!pattern) {
+        return undefined;
+    }
+
+    const segments = pattern.split('/');
+    let body = '';
+    segments.forEach((segment, index) => {
+        const isLast = index === segments.length - 1;
+        if (segment === '**') {
+            // "**/" matches zero or more directories, a trailing "/**" everything inside
+            body += isLast ? '.*' : '(?:[^/]*/)*';
+            return;
+        }
+        body += segmentToRegex(segment) + (isLast ? '' : '/');
+    });
+
+    return {
+        pattern: line.trim(),
+        regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`),
+        negated,
+        directoryOnly,
+        baseDir
+    };
+}
+
+/**
+ * Compiles a VS Code style glob (e.g. `**\/.env*` or `src/{gen,build}/**`)
+ * @param glob Glob relative to the workspace root
+ * @returns Regular expression matching relative paths with '/' separators
+ */
+export function globToRegExp(glob: string): RegExp {
+    let regex = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" may match no directory at all
+                if (glob[i + 2] === '/') {
+                    regex += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    regex += '.*';
+                    i += 1;
+                }
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            regex += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            regex += ')';
+        } else if (char === ',' && inGroup) {
+            regex += '|';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                regex += '\\[';
+            } else {
+                regex += '[' + glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = end;
+            }
+        } else {
+            regex += escapeRegExp(char);
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Evaluates rules against a path; the last matching rule wins
+ * @param rules Rules in the order they apply (outer ignore files first)
+ * @param relativePath Path relative to the root, using '/' separators
+ * @param isDirectory Whether the path is a directory
+ * @returns True if ignored, false if explicitly re-included, undefined if no rule matches
+ */
+export function evaluateIgnoreRules(
+    rules: IgnoreRule[],
+    relativePath: string,
+    isDirectory: boolean
+): boolean | undefined {
+    let result: boolean | undefined;
+
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+            continue;
+        }
+
+        let candidate = relativePath;
+        if (rule.baseDir) {
+            if (!relativePath.startsWith(rule.baseDir + '/')) {
+                continue;
+            }
+            candidate = relativePath.slice(rule.baseDir.length + 1);
+        }
+
+        if (rule.regex.test(candidate)) {
+            result = !rule.negated;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Decides which workspace paths are ignored, combining nested `.gitignore`
+ * and `.aionignore` files with user-configured globs
+ */
+export class IgnoreMatcher {
+    // Rules per directory (relative, '/' separators), loaded lazily
+    private rulesByDirectory: Map<string, IgnoreRule[]> = new Map();
+    private excludeGlobs: RegExp[];
+
+    /**
+     * @param root Absolute path of the workspace root
+     * @param excludeGlobs Globs from the `aion.exclude` setting
+     * @param useGitignore Whether `.gitignore` files are honoured (`.aionignore` always is)
+     */
+    constructor(
+        private root: string,
+        excludeGlobs: string[] = [],
+        private useGitignore: boolean = true
+    ) {
+        this.excludeGlobs = excludeGlobs.map(globToRegExp);
+    }
+
+    /**
+     * Forgets loaded ignore files, e.g. after one of them changed
+     */
+    public clear(): void {
+        this.rulesByDirectory.clear();
+    }
+
+    /**
+     * Reads the ignore files of a directory, once
+     * @param dirPath Absolute directory path
+     */
+    public async loadDirectory(dirPath: string): Promise<void> {
+        const relativeDir = this.toRelative(dirPath);
+        if (this.rulesByDirectory.has(relativeDir)) {
+            return;
+        }
+
+        const rules: IgnoreRule[] = [];
+        for (const fileName of IGNORE_FILE_NAMES) {
+            if (fileName === '.gitignore' && !this.useGitignore) {
+                continue;
+            }
+
+            try {
+                const content = await readFile(path.join(dirPath, fileName), 'utf-8');
+                for (const line of content.split(/\r?\n/)) {
+                    const rule = compileIgnoreRule(line, relativeDir);
+                    if (rule) {
+                        rules.push(rule);
+                    }
+                }
+            } catch {
+                // Most directories have no ignore file
+            }
+        }
+
+        this.rulesByDirectory.set(relativeDir, rules);
+    }
+
+    /**
+     * Checks a path whose parent directories are known not to be ignored,
+     * as during a top-down scan where ignored directories are skipped.
+     * Ignore files of all parent directories must already be loaded.
+     * @param absolutePath Path to check
+     * @param isDirectory Whether the path is a directory
+     * @returns True if the path is ignored
+     */
+    public isIgnored(absolutePath: string, isDirectory: boolean): boolean {
+        const relativePath = this.toRelative(absolutePath);
+        if (!relativePath) {
+            return false;
+        }
+
+        if (this.excludeGlobs.some(glob => glob.test(relativePath))) {
+            return true;
+        }
+
+        return evaluateIgnoreRules(this.getRulesFor(relativePath), relativePath, isDirectory) ?? false;
+    }
+
+    /**
+     * Checks any path, including its parent directories, loading ignore
+     * files as needed. A file inside an ignored directory is always ignored.
+     * @param absolutePath Path to check
+     * @param isDirectory Whether the path is a directory
+     * @returns Promise resolving to true if the path or a parent is ignored
+     */
+    public async isPathIgnored(absolutePath: string, isDirectory: boolean): Promise<boolean> {
+        const relativePath = this.toRelative(absolutePath);
+        if (!relativePath || relativePath.startsWith('..')) {
+            return !!relativePath;
+        }
+
+        const segments = relativePath.split('/');
+        let current = this.root;
+        await this.loadDirectory(current);
+
+        for (let i = 0; i < segments.length; i++) {
+            current = path.join(current, segments[i]);
+            const isLast = i === segments.length - 1;
+            if (this.isIgnored(current, isLast ? isDirectory : true)) {
+                return true;
+            }
+            if (!isLast) {
+                await this.loadDirectory(current);
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Collects the rules of every ignore file above a path, outermost first
+     * @param relativePath Path relative to the root
+     * @returns Applicable rules
+     */
+    private getRulesFor(relativePath: string): IgnoreRule[] {
+        const rules: IgnoreRule[] = [...(this.rulesByDirectory.get('') ?? [])];
+        const segments = relativePath.split('/');
+
+        for (let i = 1; i < segments.length; i++) {
+            const dir = segments.slice(0, i).join('/');
+            rules.push(...(this.rulesByDirectory.get(dir) ?? []));
+        }
+
+        return rules;
+    }
+
+    private toRelative(absolutePath: string): string {
+        return path.relative(this.root, absolutePath).split(path.sep).join('/');
+    }
+}
+
+/**
+ * Creates a matcher for a workspace folder from the `aion.exclude` and
+ * `aion.respectGitignore` settings
+ * @param root Absolute path of the workspace folder
+ * @param includeGitignore Whether `.gitignore` files may apply at all; pass false to
+ * match only what must be kept out of AI context (`.aionignore` and `aion.exclude`)
+ * @returns New matcher with no ignore files loaded yet
+ */
+export function createIgnoreMatcher(root: string, includeGitignore: boolean = true): IgnoreMatcher {
+    const config = vscode.workspace.getConfiguration('aion');
+    return new IgnoreMatcher(
+        root,
+        config.get<string[]>('exclude', []),
+        includeGitignore && config.get<boolean>('respectGitignore', true)
+    );
+}
+
+/**
+ * Converts one glob segment (no '/') to a regular expression
+ * @param segment Glob segment
+ * @returns Regular expression source
+ */
+function segmentToRegex(segment: string): string {
+    let regex = '';
+
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+
+        if (char === '\\' && i + 1 < segment.length) {
+            regex += escapeRegExp(segment[++i]);
+        } else if (char === '*') {
+            // Consecutive stars inside a segment behave like one
+            while (segment[i + 1] === '*') {
+                i++;
+            }
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '[') {
+            const end = segment.indexOf(']', i + 2);
+            if (end === -1) {
+                regex += '\\[';
+            } else {
+                regex += '[' + segment.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = end;
+            }
+        } else {
+            regex += escapeRegExp(char);
+        }
+    }
+
+    return regex;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import { DeepSeekAPI } from './deepseekapi.js';
+import { ContextManager } from './contextManager.js';
+
+// Completion previously shown for a given prefix, used to follow the user typing through it
+interface RecentCompletion {
+    uri: string;
+    prefix: string;
+    text: string;
+}
+
+export class DeepSeekInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+    // Amount of text sent around the cursor
+    private static readonly MAX_PREFIX_CHARS = 6000;
+    private static readonly MAX_SUFFIX_CHARS = 2000;
+
+    // Characters of prefix and suffix used as the cache key
+    private static readonly CACHE_KEY_CHARS = 500;
+    private static readonly CACHE_SIZE = 50;
+
+    // How long related-file context is reused before it is rebuilt
+    private static readonly RELATED_CONTEXT_TTL = 30 * 1000;
+
+    // Recent completions keyed by document and surrounding text, oldest first
+    private cache: Map<string, string> = new Map();
+    private lastCompletion?: RecentCompletion;
+    private relatedContextCache: Map<string, { text: string; createdAt: number }> = new Map();
+
+    constructor(
+        private api: DeepSeekAPI,
+        private contextManager: ContextManager
+    ) { }
+
+    public async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[] | undefined> {
+        const config = vscode.workspace.getConfiguration('aion.inlineCompletion');
+        if (!config.get<boolean>('enabled', true)) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(position);
+        const text = document.getText();
+        const prefix = text.slice(Math.max(0, offset - DeepSeekInlineCompletionProvider.MAX_PREFIX_CHARS), offset);
+        const suffix = text.slice(offset, offset + DeepSeekInlineCompletionProvider.MAX_SUFFIX_CHARS);
+
+        // The user typed the beginning of the completion that is already showing
+        const continued = this.continueLastCompletion(document.uri.toString(), prefix);
+        if (continued) {
+            return [new vscode.InlineCompletionItem(continued, new vscode.Range(position, position))];
+        }
+
+        const cacheKey = this.getCacheKey(document.uri.toString(), prefix, suffix);
+        const cached = this.cache.get(cacheKey);
+        if (cached !== undefined) {
+            return this.toItems(document, prefix, cached, position);
+        }
+
+        // Debounce: a keystroke during the wait cancels this request
+        await new Promise(resolve => setTimeout(resolve, config.get<number>('debounceMs', 300)));
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        // Never send secrets such as .env files to the model
+        if (document.uri.scheme === 'file' && await this.contextManager.isExcludedFromContext(document.fileName)) {
+            return undefined;
+        }
+
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+
+        try {
+            const relatedContext = await this.getRelatedContext(document, config.get<number>('contextTokens', 1500));
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
+            const completion = await this.api.getFillInMiddleCompletion(
+                relatedContext + prefix,
+                suffix,
+                config.get<number>('maxTokens', 128),
+                abortController.signal
+            );
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
+            // Empty results are usually failures, so they are retried rather than cached
+            if (completion.trim()) {
+                this.remember(cacheKey, completion);
+            }
+            return this.toItems(document, prefix, completion, position);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Turns a completion into inline items and remembers it as the one being shown
+     * @param document Document being edited
+     * @param prefix Text before the cursor
+     * @param completion Completion text
+     * @param position Cursor position
+     * @returns Inline completion items, or undefined when there is nothing to show
+     */
+    private toItems(
+        document: vscode.TextDocument,
+        prefix: string,
+        completion: string,
+        position: vscode.Position
+    ): vscode.InlineCompletionItem[] | undefined {
+        if (!completion.trim()) {
+            return undefined;
+        }
+
+        this.lastCompletion = { uri: document.uri.toString(), prefix, text: completion };
+        return [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))];
+    }
+
+    /**
+     * Gets the rest of the last completion when the user has typed part of it
+     * @param uri Document URI
+     * @param prefix Current text before the cursor
+     * @returns Remaining completion text, or undefined when it no longer applies
+     */
+    private continueLastCompletion(uri: string, prefix: string): string | undefined {
+        const last = this.lastCompletion;
+        if (!last || last.uri !== uri || !prefix.startsWith(last.prefix)) {
+            return undefined;
+        }
+
+        const typed = prefix.slice(last.prefix.length);
+        if (!typed || !last.text.startsWith(typed) || typed.length >= last.text.length) {
+            return undefined;
+        }
+
+        return last.text.slice(typed.length);
+    }
+
+    /**
+     * Builds a comment block with files the document imports, reused for a short time
+     * @param document Document being edited
+     * @param maxTokens Token budget for related files
+     * @returns Promise resolving to text to prepend to the prefix
+     */
+    private async getRelatedContext(document: vscode.TextDocument, maxTokens: number): Promise<string> {
+        if (document.isUntitled || maxTokens <= 0) {
+            return '';
+        }
+
+        const cached = this.relatedContextCache.get(document.fileName);
+        if (cached && Date.now() - cached.createdAt < DeepSeekInlineCompletionProvider.RELATED_CONTEXT_TTL) {
+            return cached.text;
+        }
+
+        // Reverse dependencies need a workspace scan, too slow to run while typing
+        const relatedFiles = await this.contextManager.getRelatedFiles(document.fileName, maxTokens, false);
+        const comment = this.getLineComment(document.languageId);
+        const text = relatedFiles
+            .map(file => {
+                const body = file.content.split('\n').map(line => `${comment} ${line}`).join('\n');
+                return `${comment} File: ${file.relativePath}\n${body}\n\n`;
+            })
+            .join('');
+
+        this.relatedContextCache.set(document.fileName, { text, createdAt: Date.now() });
+        return text;
+    }
+
+    private getCacheKey(uri: string, prefix: string, suffix: string): string {
+        return [
+            uri,
+            prefix.slice(-DeepSeekInlineCompletionProvider.CACHE_KEY_CHARS),
+            suffix.slice(0, DeepSeekInlineCompletionProvider.CACHE_KEY_CHARS)
+        ].join('\u0000');
+    }
+
+    private remember(cacheKey: string, completion: string): void {
+        // Re-inserting moves the key to the end, so the first key is always the least recent
+        this.cache.delete(cacheKey);
+        this.cache.set(cacheKey, completion);
+
+        if (this.cache.size > DeepSeekInlineCompletionProvider.CACHE_SIZE) {
+            const oldest = this.cache.keys().next().value;
+            if (oldest !== undefined) {
+                this.cache.delete(oldest);
+            }
+        }
+    }
+
+    private getLineComment(languageId: string): string {
+        switch (languageId) {
+            case 'python':
+            case 'ruby':
+            case 'shellscript':
+            case 'yaml':
+            case 'perl':
+            case 'r':
+            case 'powershell':
+            case 'dockerfile':
+            case 'makefile':
+                return '#';
+            case 'sql':
+            case 'lua':
+            case 'haskell':
+                return '--';
+            default:
+                return '//';
+        }
+    }
+}
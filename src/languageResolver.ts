@@ -0,0 +1,563 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Project files whose changes affect how Python, Go, Rust and Java imports resolve
+export const LANGUAGE_CONFIG_FILES = ['go.mod', 'go.work', 'Cargo.toml', 'pyproject.toml', 'setup.py', 'setup.cfg'];
+
+// A Go module found from a go.mod file
+interface GoModule {
+    path: string;           // Module path (e.g. github.com/acme/api)
+    dir: string;            // Directory containing go.mod
+    replacements: Map<string, string>; // Module path -> local directory, from replace directives
+}
+
+// A Rust crate found from a Cargo.toml file
+interface RustCrate {
+    name: string;           // Crate name as used in paths (hyphens become underscores)
+    dir: string;            // Directory containing Cargo.toml
+    srcDir: string;         // Directory of lib.rs/main.rs
+    dependencies: Map<string, string>; // Crate name -> directory, for path dependencies
+}
+
+/**
+ * Maps Python, Go, Rust and Java imports to files, based on the project
+ * layout conventions of each language (package roots, go.mod, Cargo.toml
+ * and Java source roots)
+ */
+export class LanguageResolver {
+    // Conventional Java source roots below a module directory
+    private static readonly JAVA_SOURCE_DIRS = ['src/main/java', 'src/test/java', 'src'];
+
+    private goModules: Map<string, GoModule | undefined> = new Map();
+    private goWorkspaceModules?: GoModule[];
+    private rustCrates: Map<string, RustCrate | undefined> = new Map();
+    private workspaceCrates: Map<string, string | undefined> = new Map();
+    private javaSourceRoots: Set<string> = new Set();
+
+    /**
+     * Forgets parsed project files, e.g. after a go.mod or Cargo.toml changed
+     * @param filePaths Files of the project, used to find Java source roots
+     */
+    public reset(filePaths: string[] = []): void {
+        this.goModules.clear();
+        this.goWorkspaceModules = undefined;
+        this.rustCrates.clear();
+        this.workspaceCrates.clear();
+        this.javaSourceRoots.clear();
+
+        for (const filePath of filePaths) {
+            if (filePath.endsWith('.java')) {
+                this.addJavaSourceRootFromPath(filePath);
+            }
+        }
+    }
+
+    /**
+     * Resolves a Python import
+     * @param sourcePath Importing file
+     * @param module Module as written, with leading dots for relative imports (e.g. `..utils.io`)
+     * @param names Names imported with `from ... import`, which may be submodules
+     * @returns Files the import loads (empty for the standard library and installed packages)
+     */
+    public resolvePythonImport(sourcePath: string, module: string, names: string[] = []): string[] {
+        const dots = module.match(/^\.*/)![0].length;
+        const parts = module.slice(dots).split('.').filter(Boolean);
+
+        let roots: string[];
+        if (dots > 0) {
+            let base = path.dirname(sourcePath);
+            for (let i = 1; i < dots; i++) {
+                base = path.dirname(base);
+            }
+            roots = [base];
+        } else {
+            roots = this.getPythonRoots(sourcePath);
+        }
+
+        const targets = new Set<string>();
+        for (const root of roots) {
+            const moduleDir = path.join(root, ...parts);
+
+            // `from package import submodule` loads the submodule files
+            for (const name of names) {
+                const submodule = this.findPythonModule(path.join(moduleDir, name));
+                if (submodule) {
+                    targets.add(submodule);
+                }
+            }
+
+            const target = parts.length > 0 ? this.findPythonModule(moduleDir) : this.findPythonModule(root, true);
+            if (target) {
+                targets.add(target);
+            }
+            if (targets.size > 0) {
+                break;
+            }
+        }
+
+        return [...targets];
+    }
+
+    /**
+     * Resolves a Go import path to the files of the package
+     * @param sourcePath Importing file
+     * @param importPath Import path (e.g. github.com/acme/api/internal/store)
+     * @returns Non-test .go files of the package (empty for the standard library and external modules)
+     */
+    public resolveGoImport(sourcePath: string, importPath: string): string[] {
+        const current = this.findGoModule(path.dirname(sourcePath));
+        const modules = [...(current ? [current] : []), ...this.getGoWorkspaceModules(sourcePath)];
+
+        for (const module of modules) {
+            let packageDir: string | undefined;
+            if (importPath === module.path || importPath.startsWith(module.path + '/')) {
+                packageDir = path.join(module.dir, importPath.slice(module.path.length));
+            } else {
+                for (const [replaced, dir] of module.replacements) {
+                    if (importPath === replaced || importPath.startsWith(replaced + '/')) {
+                        packageDir = path.join(dir, importPath.slice(replaced.length));
+                        break;
+                    }
+                }
+            }
+
+            if (packageDir) {
+                return this.listFiles(packageDir, file => file.endsWith('.go') && !file.endsWith('_test.go'));
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Resolves a Rust `mod name;` declaration
+     * @param sourcePath File declaring the module
+     * @param name Module name
+     * @param explicitPath Path from a `#[path = "..."]` attribute, if any
+     * @returns File of the module, or undefined
+     */
+    public resolveRustMod(sourcePath: string, name: string, explicitPath?: string): string | undefined {
+        if (explicitPath) {
+            const target = path.resolve(path.dirname(sourcePath), explicitPath);
+            return this.isFile(target) ? target : undefined;
+        }
+        return this.findRustModule(this.getRustModuleDir(sourcePath), name);
+    }
+
+    /**
+     * Resolves a Rust `use` path to the file of the deepest module it names
+     * @param sourcePath File containing the `use`
+     * @param segments Path segments (e.g. ['crate', 'store', 'User'])
+     * @returns File of the module, or undefined for external crates and the standard library
+     */
+    public resolveRustUse(sourcePath: string, segments: string[]): string | undefined {
+        const crate = this.findRustCrate(path.dirname(sourcePath));
+        if (!crate || segments.length === 0) {
+            return undefined;
+        }
+
+        let dir: string;
+        let file: string | undefined;
+        let rest = segments;
+        const [first] = segments;
+
+        if (first === 'crate') {
+            dir = crate.srcDir;
+            rest = segments.slice(1);
+        } else if (first === 'self' || first === 'super') {
+            dir = this.getRustModuleDir(sourcePath);
+            file = sourcePath;
+            while (rest[0] === 'self' || rest[0] === 'super') {
+                if (rest[0] === 'super') {
+                    // The parent module owns the directory this module lives in
+                    dir = path.dirname(dir);
+                    file = this.rustModuleFileForDir(dir);
+                }
+                rest = rest.slice(1);
+            }
+        } else {
+            // Another crate of the workspace, or a submodule that is in scope
+            const dependencyDir = crate.dependencies.get(first) ?? this.findWorkspaceCrate(crate, first);
+            const dependency = dependencyDir ? this.findRustCrate(dependencyDir) : undefined;
+            if (dependency) {
+                dir = dependency.srcDir;
+                file = this.rustModuleFileForDir(dir);
+                rest = segments.slice(1);
+            } else {
+                dir = this.getRustModuleDir(sourcePath);
+            }
+        }
+
+        file ??= this.rustModuleFileForDir(dir);
+
+        // Walk down as long as segments name modules; the rest are items
+        for (const segment of rest) {
+            const moduleFile = this.findRustModule(dir, segment);
+            if (!moduleFile) {
+                break;
+            }
+            file = moduleFile;
+            dir = path.join(dir, segment);
+        }
+
+        return file && file !== sourcePath ? file : undefined;
+    }
+
+    /**
+     * Resolves a Java import to source files
+     * @param sourcePath Importing file
+     * @param packageName Package declared by the importing file, used to find its source root
+     * @param importName Imported name (e.g. com.acme.api.User, com.acme.api.*, or a static member)
+     * @returns Files the import refers to (all files of the package for wildcard imports)
+     */
+    public resolveJavaImport(sourcePath: string, packageName: string | undefined, importName: string): string[] {
+        if (packageName) {
+            this.addJavaSourceRoot(sourcePath, packageName);
+        } else {
+            this.addJavaSourceRootFromPath(sourcePath);
+        }
+
+        const parts = importName.split('.');
+        const isWildcard = parts[parts.length - 1] === '*';
+        const nameParts = isWildcard ? parts.slice(0, -1) : parts;
+
+        for (const root of this.javaSourceRoots) {
+            if (isWildcard) {
+                // Either all classes of a package or all nested classes of a class
+                const files = this.listFiles(path.join(root, ...nameParts), file => file.endsWith('.java'));
+                if (files.length > 0) {
+                    return files;
+                }
+            }
+
+            // Nested classes and static members: the longest prefix naming a file wins
+            for (let i = nameParts.length; i > 0; i--) {
+                const candidate = path.join(root, ...nameParts.slice(0, i)) + '.java';
+                if (this.isFile(candidate)) {
+                    return [candidate];
+                }
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Finds the roots Python resolves absolute imports against: the folder above
+     * the file's top-level package, the project root (where pyproject.toml or
+     * setup.py lives) and its src folder, and the workspace folder
+     * @param sourcePath Importing file
+     * @returns Candidate roots, most specific first
+     */
+    private getPythonRoots(sourcePath: string): string[] {
+        const roots: string[] = [];
+
+        let packageDir = path.dirname(sourcePath);
+        while (this.isFile(path.join(packageDir, '__init__.py')) && path.dirname(packageDir) !== packageDir) {
+            packageDir = path.dirname(packageDir);
+        }
+        roots.push(packageDir);
+
+        const workspaceRoot = this.getWorkspaceRoot(sourcePath);
+        const projectRoot = this.findUp(path.dirname(sourcePath), ['pyproject.toml', 'setup.py', 'setup.cfg']);
+        for (const root of [projectRoot, workspaceRoot]) {
+            if (root) {
+                roots.push(root, path.join(root, 'src'));
+            }
+        }
+
+        return [...new Set(roots)];
+    }
+
+    /**
+     * Finds the file of a Python module or package
+     * @param modulePath Path without extension
+     * @param packageOnly Only accept a package (used for `from . import x`)
+     * @returns Path of the .py file or the package's __init__.py
+     */
+    private findPythonModule(modulePath: string, packageOnly: boolean = false): string | undefined {
+        if (!packageOnly) {
+            for (const ext of ['.py', '.pyi']) {
+                if (this.isFile(modulePath + ext)) {
+                    return modulePath + ext;
+                }
+            }
+        }
+        const init = path.join(modulePath, '__init__.py');
+        return this.isFile(init) ? init : undefined;
+    }
+
+    /**
+     * Finds and parses the nearest go.mod
+     * @param dirPath Directory to start from
+     * @returns Module, or undefined outside a Go module
+     */
+    private findGoModule(dirPath: string): GoModule | undefined {
+        const moduleDir = this.findUp(dirPath, ['go.mod']);
+        if (!moduleDir) {
+            return undefined;
+        }
+        if (this.goModules.has(moduleDir)) {
+            return this.goModules.get(moduleDir);
+        }
+
+        let module: GoModule | undefined;
+        const content = this.readText(path.join(moduleDir, 'go.mod'));
+        const modulePath = content?.match(/^\s*module\s+("?)([^\s"]+)\1/m)?.[2];
+        if (content && modulePath) {
+            module = { path: modulePath, dir: moduleDir, replacements: new Map() };
+
+            // replace example.com/x => ../x (single line or inside a replace block)
+            for (const match of content.matchAll(/^\s*(?:replace\s+)?(\S+)(?:\s+v\S+)?\s+=>\s+(\.{1,2}\/\S*)\s*$/gm)) {
+                module.replacements.set(match[1], path.resolve(moduleDir, match[2]));
+            }
+        }
+
+        this.goModules.set(moduleDir, module);
+        return module;
+    }
+
+    /**
+     * Reads the modules listed by the nearest go.work
+     * @param sourcePath File inside the workspace
+     * @returns Modules used by the Go workspace
+     */
+    private getGoWorkspaceModules(sourcePath: string): GoModule[] {
+        if (this.goWorkspaceModules) {
+            return this.goWorkspaceModules;
+        }
+
+        this.goWorkspaceModules = [];
+        const workDir = this.findUp(path.dirname(sourcePath), ['go.work']);
+        const content = workDir ? this.readText(path.join(workDir, 'go.work')) : undefined;
+        if (workDir && content) {
+            // use ./api, or a use ( ... ) block
+            const useBlock = content.match(/^\s*use\s*\(([\s\S]*?)\)/m)?.[1] ?? '';
+            const single = [...content.matchAll(/^\s*use\s+([^\s(]+)/gm)].map(match => match[1]);
+            const dirs = [...useBlock.split(/\r?\n/).map(line => line.replace(/\/\/.*$/, '').trim()).filter(Boolean), ...single];
+            for (const dir of dirs) {
+                const module = this.findGoModule(path.resolve(workDir, dir.replace(/"/g, '')));
+                if (module) {
+                    this.goWorkspaceModules.push(module);
+                }
+            }
+        }
+        return this.goWorkspaceModules;
+    }
+
+    /**
+     * Finds and parses the nearest Cargo.toml that defines a package
+     * @param dirPath Directory to start from
+     * @returns Crate, or undefined outside a crate
+     */
+    private findRustCrate(dirPath: string): RustCrate | undefined {
+        const crateDir = this.findUp(dirPath, ['Cargo.toml']);
+        if (!crateDir) {
+            return undefined;
+        }
+        if (this.rustCrates.has(crateDir)) {
+            return this.rustCrates.get(crateDir);
+        }
+
+        let crate: RustCrate | undefined;
+        const manifest = this.readText(path.join(crateDir, 'Cargo.toml'));
+        const packageSection = manifest ? this.getTomlSection(manifest, 'package') : '';
+        const name = packageSection.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1];
+        if (manifest && name) {
+            const libPath = this.getTomlSection(manifest, 'lib').match(/^\s*path\s*=\s*"([^"]+)"/m)?.[1];
+            crate = {
+                name: name.replace(/-/g, '_'),
+                dir: crateDir,
+                srcDir: libPath ? path.dirname(path.join(crateDir, libPath)) : path.join(crateDir, 'src'),
+                dependencies: new Map()
+            };
+
+            // foo = { path = "../foo" } in any dependencies section
+            for (const match of manifest.matchAll(/^\s*([\w-]+)\s*=\s*\{[^}]*\bpath\s*=\s*"([^"]+)"[^}]*\}/gm)) {
+                crate.dependencies.set(match[1].replace(/-/g, '_'), path.resolve(crateDir, match[2]));
+            }
+        } else if (manifest) {
+            // A virtual workspace manifest: keep looking for the crate above
+            this.rustCrates.set(crateDir, undefined);
+            const parent = path.dirname(crateDir);
+            return parent !== crateDir && path.dirname(dirPath) !== dirPath ? this.findRustCrate(parent) : undefined;
+        }
+
+        this.rustCrates.set(crateDir, crate);
+        return crate;
+    }
+
+    /**
+     * Finds a sibling crate of a Cargo workspace by name
+     * @param crate Crate doing the lookup
+     * @param name Crate name as used in paths
+     * @returns Directory of the crate, or undefined
+     */
+    private findWorkspaceCrate(crate: RustCrate, name: string): string | undefined {
+        const cacheKey = `${crate.dir}\0${name}`;
+        if (!this.workspaceCrates.has(cacheKey)) {
+            this.workspaceCrates.set(cacheKey, this.findWorkspaceCrateUncached(crate, name));
+        }
+        return this.workspaceCrates.get(cacheKey);
+    }
+
+    private findWorkspaceCrateUncached(crate: RustCrate, name: string): string | undefined {
+        const workspaceDir = this.findUp(path.dirname(crate.dir), ['Cargo.toml']);
+        const manifest = workspaceDir ? this.readText(path.join(workspaceDir, 'Cargo.toml')) : undefined;
+        const members = manifest ? this.getTomlSection(manifest, 'workspace').match(/members\s*=\s*\[([^\]]*)\]/)?.[1] : undefined;
+        if (!workspaceDir || !members) {
+            return undefined;
+        }
+
+        for (const member of members.match(/"([^"]+)"/g) ?? []) {
+            const pattern = member.slice(1, -1);
+            const dirs = pattern.endsWith('/*')
+                ? this.listDirectories(path.join(workspaceDir, pattern.slice(0, -2)))
+                : [path.join(workspaceDir, pattern)];
+            for (const dir of dirs) {
+                if (this.findRustCrate(dir)?.name === name) {
+                    return dir;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Gets the directory holding the submodules of a Rust source file
+     * @param sourcePath Rust file
+     * @returns `src/` for lib.rs/main.rs/mod.rs, otherwise `<dir>/<file stem>/`
+     */
+    private getRustModuleDir(sourcePath: string): string {
+        const name = path.basename(sourcePath);
+        const isModuleRoot = ['lib.rs', 'main.rs', 'mod.rs'].includes(name) || path.basename(path.dirname(sourcePath)) === 'bin';
+        return isModuleRoot ? path.dirname(sourcePath) : path.join(path.dirname(sourcePath), path.basename(name, '.rs'));
+    }
+
+    private findRustModule(dir: string, name: string): string | undefined {
+        for (const candidate of [path.join(dir, `${name}.rs`), path.join(dir, name, 'mod.rs')]) {
+            if (this.isFile(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    private rustModuleFileForDir(dir: string): string | undefined {
+        for (const name of ['lib.rs', 'main.rs', 'mod.rs']) {
+            if (this.isFile(path.join(dir, name))) {
+                return path.join(dir, name);
+            }
+        }
+        const parentFile = `${dir}.rs`;
+        return this.isFile(parentFile) ? parentFile : undefined;
+    }
+
+    /**
+     * Records the source root of a Java file from its declared package
+     * @param sourcePath Java file
+     * @param packageName Declared package (e.g. com.acme.api)
+     */
+    private addJavaSourceRoot(sourcePath: string, packageName: string): void {
+        const packageDir = path.join(...packageName.split('.'));
+        const dir = path.dirname(sourcePath);
+        if (dir.endsWith(path.sep + packageDir)) {
+            this.javaSourceRoots.add(dir.slice(0, -(packageDir.length + 1)));
+        }
+    }
+
+    /**
+     * Records the source root of a Java file from the conventional Maven/Gradle layout
+     * @param sourcePath Java file
+     */
+    private addJavaSourceRootFromPath(sourcePath: string): void {
+        const normalized = sourcePath.split(path.sep).join('/');
+        for (const sourceDir of LanguageResolver.JAVA_SOURCE_DIRS) {
+            const index = normalized.lastIndexOf(`/${sourceDir}/`);
+            if (index !== -1) {
+                this.javaSourceRoots.add(path.join(sourcePath.slice(0, index), ...sourceDir.split('/')));
+                return;
+            }
+        }
+    }
+
+    /**
+     * Gets the body of a TOML table, up to the next table header
+     * @param content TOML text
+     * @param table Table name (e.g. package)
+     * @returns Lines of the table, or an empty string
+     */
+    private getTomlSection(content: string, table: string): string {
+        const header = new RegExp(`^\\s*\\[${table.replace('.', '\\.')}\\]\\s*$`, 'm');
+        const match = header.exec(content);
+        if (!match) {
+            return '';
+        }
+        const rest = content.slice(match.index + match[0].length);
+        const next = rest.search(/^\s*\[/m);
+        return next === -1 ? rest : rest.slice(0, next);
+    }
+
+    /**
+     * Walks up from a directory to the first one containing any of the given files,
+     * without leaving the workspace folder
+     * @param dirPath Directory to start from
+     * @param fileNames Marker files
+     * @returns Directory containing a marker, or undefined
+     */
+    private findUp(dirPath: string, fileNames: string[]): string | undefined {
+        const workspaceRoot = this.getWorkspaceRoot(dirPath);
+        let current = dirPath;
+        while (true) {
+            if (fileNames.some(name => this.isFile(path.join(current, name)))) {
+                return current;
+            }
+            const parent = path.dirname(current);
+            if (current === workspaceRoot || parent === current) {
+                return undefined;
+            }
+            current = parent;
+        }
+    }
+
+    private getWorkspaceRoot(filePath: string): string | undefined {
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+    }
+
+    private listFiles(dirPath: string, filter: (fileName: string) => boolean): string[] {
+        try {
+            return fs.readdirSync(dirPath, { withFileTypes: true })
+                .filter(entry => entry.isFile() && filter(entry.name))
+                .map(entry => path.join(dirPath, entry.name));
+        } catch {
+            return [];
+        }
+    }
+
+    private listDirectories(dirPath: string): string[] {
+        try {
+            return fs.readdirSync(dirPath, { withFileTypes: true })
+                .filter(entry => entry.isDirectory())
+                .map(entry => path.join(dirPath, entry.name));
+        } catch {
+            return [];
+        }
+    }
+
+    private isFile(filePath: string): boolean {
+        try {
+            return fs.statSync(filePath).isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    private readText(filePath: string): string | undefined {
+        try {
+            return fs.readFileSync(filePath, 'utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,79 @@
+import MarkdownIt from 'markdown-it';
+import hljs from 'highlight.js';
+
+export class MarkdownRenderer {
+    private md: MarkdownIt;
+
+    constructor() {
+        this.md = new MarkdownIt({
+            // Raw HTML in model output is escaped, never rendered
+            html: false,
+            linkify: true,
+            breaks: true,
+            highlight: (code, language) => this.highlight(code, language)
+        });
+
+        // Images are shown as links: loading them would let an answer send context to any URL
+        this.md.renderer.rules.image = (tokens, idx) => {
+            const src = tokens[idx].attrGet('src') ?? '';
+            const label = tokens[idx].content || src;
+            return `<a href="${this.md.utils.escapeHtml(src)}">${this.md.utils.escapeHtml(label)}</a>`;
+        };
+
+        // Wrap fenced blocks in a container carrying the per-block actions
+        const defaultFence = this.md.renderer.rules.fence!;
+        this.md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+            const language = tokens[idx].info.trim().split(/\s+/)[0] ?? '';
+            const escapedLanguage = this.md.utils.escapeHtml(language);
+            return `<div class="code-block" data-language="${escapedLanguage}">` +
+                '<div class="code-actions">' +
+                (escapedLanguage ? `<span class="code-language">${escapedLanguage}</span>` : '') +
+                '<button class="code-action" data-action="copy">Copy</button>' +
+                '<button class="code-action" data-action="insert">Insert</button>' +
+                '<button class="code-action" data-action="apply">Apply</button>' +
+                '</div>' +
+                defaultFence(tokens, idx, options, env, self) +
+                '</div>';
+        };
+    }
+
+    /**
+     * Renders markdown to HTML that is safe to insert into the chat webview
+     * @param markdown Markdown text, possibly an incomplete streaming answer
+     * @returns Rendered HTML
+     */
+    public render(markdown: string): string {
+        return this.md.render(this.closeOpenFence(markdown));
+    }
+
+    /**
+     * Highlights a code block
+     * @param code Code to highlight
+     * @param language Fence language
+     * @returns Highlighted HTML, or an empty string to let markdown-it escape the code
+     */
+    private highlight(code: string, language: string): string {
+        try {
+            // Unlabeled blocks stay plain: detecting the language tries every grammar,
+            // which is too slow for answers that are rendered while they stream
+            if (language && hljs.getLanguage(language)) {
+                return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+            }
+            return '';
+        } catch (error) {
+            console.error('Error highlighting code block:', error);
+            return '';
+        }
+    }
+
+    /**
+     * Closes a code fence left open by a partially streamed answer, so the
+     * rest of the text is not rendered as markdown until the fence ends
+     * @param markdown Markdown text
+     * @returns Markdown with balanced fences
+     */
+    private closeOpenFence(markdown: string): string {
+        const fences = markdown.match(/^\s*(```|~~~)/gm);
+        return fences && fences.length % 2 === 1 ? `${markdown}\n\`\`\`` : markdown;
+    }
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { getContextWindow } from './tokenBudget.js';
+
+// Supported backends, values match the `aion.provider` setting
+export enum ProviderId {
+    OpenRouter = 'openrouter',
+    DeepSeek = 'deepseek',
+    OpenAICompatible = 'openaiCompatible'
+}
+
+// Per-provider request settings, read from `aion.<provider>.*`
+export interface ModelSettings {
+    baseUrl: string;        // API root, e.g. https://api.deepseek.com/v1
+    model: string;          // Model id sent with each request
+    temperature: number;    // Sampling temperature
+    maxTokens: number;      // Default completion length
+    contextWindow: number;  // Tokens the model accepts, prompt and answer together
+}
+
+// Settings with a fixed default; the context window default depends on the model
+export type ModelDefaults = Omit<ModelSettings, 'contextWindow'>;
+
+// A chat backend speaking the OpenAI chat completions wire format
+export interface ModelProvider {
+    readonly id: ProviderId;
+    readonly displayName: string;
+    readonly settings: ModelSettings;
+    readonly requiresApiKey: boolean;
+
+    /**
+     * Gets the URL of the chat completions endpoint
+     * @returns Absolute endpoint URL
+     */
+    getChatCompletionsUrl(): string;
+
+    /**
+     * Gets the URL of the fill-in-the-middle (prompt + suffix) completions endpoint
+     * @returns Absolute endpoint URL
+     */
+    getCompletionsUrl(): string;
+
+    /**
+     * Gets the HTTP headers for a request
+     * @param apiKey API key, if one is configured
+     * @returns Request headers
+     */
+    getHeaders(apiKey: string | undefined): Record<string, string>;
+
+    /**
+     * Gets provider-specific fields added to every request body
+     * @returns Extra body fields
+     */
+    getRequestExtras(): Record<string, unknown>;
+}
+
+abstract class BaseModelProvider implements ModelProvider {
+    public abstract readonly id: ProviderId;
+    public abstract readonly displayName: string;
+    public readonly requiresApiKey: boolean = true;
+
+    constructor(public readonly settings: ModelSettings) { }
+
+    public getChatCompletionsUrl(): string {
+        return `${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    }
+
+    public getCompletionsUrl(): string {
+        return `${this.settings.baseUrl.replace(/\/+$/, '')}/completions`;
+    }
+
+    public getHeaders(apiKey: string | undefined): Record<string, string> {
+        return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+    }
+
+    public getRequestExtras(): Record<string, unknown> {
+        return {};
+    }
+}
+
+export class OpenRouterProvider extends BaseModelProvider {
+    public static readonly DEFAULTS: ModelDefaults = {
+        baseUrl: 'https://openrouter.ai/api/v1',
+        model: 'deepseek/deepseek-chat',
+        temperature: 0.7,
+        maxTokens: 1000
+    };
+
+    public readonly id = ProviderId.OpenRouter;
+    public readonly displayName = 'OpenRouter';
+
+    public getHeaders(apiKey: string | undefined): Record<string, string> {
+        // OpenRouter uses these to attribute traffic to the app
+        return {
+            ...super.getHeaders(apiKey),
+            'HTTP-Referer': 'https://github.com/AIForHindustan/aion-deepseekcoder',
+            'X-Title': 'AION DeepSeek',
+            'X-OpenRouter-Client': 'aion-deepseekcoder'
+        };
+    }
+
+    public getRequestExtras(): Record<string, unknown> {
+        // Adds the charged cost to the reported usage
+        return { usage: { include: true } };
+    }
+}
+
+export class DeepSeekProvider extends BaseModelProvider {
+    public static readonly DEFAULTS: ModelDefaults = {
+        baseUrl: 'https://api.deepseek.com/v1',
+        model: 'deepseek-chat',
+        temperature: 0.7,
+        maxTokens: 1000
+    };
+
+    public readonly id = ProviderId.DeepSeek;
+    public readonly displayName = 'DeepSeek';
+
+    public getCompletionsUrl(): string {
+        // DeepSeek only serves FIM completions from its beta API
+        return `${this.settings.baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '')}/beta/completions`;
+    }
+}
+
+export class OpenAICompatibleProvider extends BaseModelProvider {
+    public static readonly DEFAULTS: ModelDefaults = {
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'deepseek-coder-v2',
+        temperature: 0.7,
+        maxTokens: 1000
+    };
+
+    public readonly id = ProviderId.OpenAICompatible;
+    public readonly displayName = 'OpenAI-compatible endpoint';
+
+    // Self-hosted servers and internal gateways often run without a key
+    public readonly requiresApiKey = false;
+}
+
+/**
+ * Creates the provider selected in the `aion.provider` setting
+ * @returns Provider configured from the current settings
+ */
+export function createModelProvider(): ModelProvider {
+    const config = vscode.workspace.getConfiguration('aion');
+    const id = config.get<ProviderId>('provider', ProviderId.OpenRouter);
+
+    switch (id) {
+        case ProviderId.DeepSeek:
+            return new DeepSeekProvider(readModelSettings(config, id, DeepSeekProvider.DEFAULTS));
+        case ProviderId.OpenAICompatible:
+            return new OpenAICompatibleProvider(readModelSettings(config, id, OpenAICompatibleProvider.DEFAULTS));
+        case ProviderId.OpenRouter:
+        default:
+            return new OpenRouterProvider(readModelSettings(config, ProviderId.OpenRouter, OpenRouterProvider.DEFAULTS));
+    }
+}
+
+/**
+ * Reads `aion.<provider>.*` settings, falling back to the provider defaults
+ * @param config The `aion` configuration section
+ * @param id Provider whose settings to read
+ * @param defaults Provider defaults
+ * @returns Effective model settings
+ */
+function readModelSettings(
+    config: vscode.WorkspaceConfiguration,
+    id: ProviderId,
+    defaults: ModelDefaults
+): ModelSettings {
+    // Empty strings and zero in settings mean "use the default"
+    const model = config.get<string>(`${id}.model`) || defaults.model;
+    return {
+        baseUrl: config.get<string>(`${id}.baseUrl`) || defaults.baseUrl,
+        model,
+        temperature: config.get<number>(`${id}.temperature`) ?? defaults.temperature,
+        maxTokens: config.get<number>(`${id}.maxTokens`) ?? defaults.maxTokens,
+        contextWindow: config.get<number>(`${id}.contextWindow`) || getContextWindow(model)
+    };
+}
@@ -0,0 +1,515 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as ts from 'typescript';
+
+// Outcome of resolving a module specifier
+export interface ModuleResolution {
+    resolvedPath: string;   // Absolute file path, or the specifier itself for external packages
+    isExternal: boolean;    // Resolved into node_modules rather than the workspace
+}
+
+// Files whose changes affect how imports resolve
+export const RESOLUTION_CONFIG_FILES = ['tsconfig.json', 'jsconfig.json', 'package.json', 'pnpm-workspace.yaml'];
+
+// package.json fields used for resolution
+interface PackageManifest {
+    name?: string;
+    source?: string;
+    types?: string;
+    typings?: string;
+    module?: string;
+    main?: string;
+    exports?: unknown;
+    workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Resolves import specifiers the way the project's tooling does: through
+ * tsconfig/jsconfig `baseUrl` and `paths` (including `extends`), package.json
+ * `exports`/`main`, and npm, yarn and pnpm workspace packages
+ */
+export class ModuleResolver {
+    // Export conditions, in order of preference; sources beat build output
+    private static readonly CONDITIONS = ['source', 'development', 'types', 'import', 'module', 'require', 'node', 'default'];
+
+    // Build output folders that usually mirror a src folder
+    private static readonly OUTPUT_DIRS = ['dist', 'build', 'lib', 'out'];
+
+    private static readonly EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+    private static readonly DEFAULT_OPTIONS: ts.CompilerOptions = {
+        allowJs: true,
+        resolveJsonModule: true,
+        moduleResolution: ts.ModuleResolutionKind.Bundler
+    };
+
+    // Nearest tsconfig/jsconfig of a directory, and the parsed options of each config
+    private configForDirectory: Map<string, string | undefined> = new Map();
+    private compilerOptions: Map<string, ts.CompilerOptions> = new Map();
+
+    // Resolutions by directory and specifier
+    private resolutionCache: Map<string, ModuleResolution | undefined> = new Map();
+
+    // Workspace packages (package name -> package directory)
+    private packages?: Map<string, string>;
+    private manifests: string[] = [];
+
+    /**
+     * Forgets parsed configs, packages and resolutions, e.g. after a tsconfig or package.json changed
+     * @param manifests package.json files found in the project, whose packages can be imported by name
+     */
+    public reset(manifests: string[] = this.manifests): void {
+        this.manifests = manifests;
+        this.packages = undefined;
+        this.configForDirectory.clear();
+        this.compilerOptions.clear();
+        this.resolutionCache.clear();
+    }
+
+    /**
+     * Forgets resolutions only, e.g. after files were added or removed
+     */
+    public clearResolutions(): void {
+        this.resolutionCache.clear();
+    }
+
+    /**
+     * Resolves a module specifier
+     * @param specifier Specifier as written in the import
+     * @param containingFile Absolute path of the importing file
+     * @returns Resolution, or undefined when the specifier cannot be resolved
+     */
+    public resolve(specifier: string, containingFile: string): ModuleResolution | undefined {
+        const cacheKey = `${path.dirname(containingFile)}\0${specifier}`;
+        if (this.resolutionCache.has(cacheKey)) {
+            return this.resolutionCache.get(cacheKey);
+        }
+
+        const resolution = this.resolveUncached(specifier, containingFile);
+        this.resolutionCache.set(cacheKey, resolution);
+        return resolution;
+    }
+
+    private resolveUncached(specifier: string, containingFile: string): ModuleResolution | undefined {
+        // Workspace packages resolve to their sources, even when a built copy sits in node_modules
+        const packageTarget = this.resolveWorkspacePackage(specifier);
+        if (packageTarget) {
+            return { resolvedPath: packageTarget, isExternal: false };
+        }
+
+        const options = this.getCompilerOptions(containingFile);
+        const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, options, ts.sys);
+        if (resolvedModule) {
+            const resolvedPath = path.normalize(resolvedModule.resolvedFileName);
+            const isExternal = resolvedModule.isExternalLibraryImport === true ||
+                resolvedPath.split(path.sep).includes('node_modules');
+            return isExternal
+                ? { resolvedPath: specifier, isExternal: true }
+                : { resolvedPath: this.toSourceFile(resolvedPath), isExternal: false };
+        }
+
+        // Bare specifiers nobody could resolve are packages that are not installed
+        if (!specifier.startsWith('.') && !path.isAbsolute(specifier)) {
+            return { resolvedPath: specifier, isExternal: true };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Gets the compiler options that apply to a file, from its nearest tsconfig or jsconfig
+     * @param filePath Absolute path of the file
+     * @returns Options with module resolution that understands `exports` and extensionless imports
+     */
+    private getCompilerOptions(filePath: string): ts.CompilerOptions {
+        const configPath = this.findConfig(path.dirname(filePath));
+        if (!configPath) {
+            return ModuleResolver.DEFAULT_OPTIONS;
+        }
+
+        let options = this.compilerOptions.get(configPath);
+        if (options) {
+            return options;
+        }
+
+        options = { ...ModuleResolver.DEFAULT_OPTIONS };
+        const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+        if (!error) {
+            // Only the options are needed, so skip enumerating the project's files
+            const host: ts.ParseConfigHost = {
+                useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+                readDirectory: () => [],
+                fileExists: ts.sys.fileExists,
+                readFile: ts.sys.readFile
+            };
+            const parsed = ts.parseJsonConfigFileContent(config, host, path.dirname(configPath), undefined, configPath);
+            options = { ...options, ...parsed.options };
+        } else {
+            console.error(`Error reading ${configPath}:`, ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+        }
+
+        // Classic resolution (the default for some module settings) ignores node_modules and exports
+        if (!options.moduleResolution || options.moduleResolution === ts.ModuleResolutionKind.Classic) {
+            options.moduleResolution = ts.ModuleResolutionKind.Bundler;
+        }
+        options.allowJs = true;
+        options.resolveJsonModule = true;
+
+        this.compilerOptions.set(configPath, options);
+        return options;
+    }
+
+    /**
+     * Finds the nearest tsconfig.json or jsconfig.json, without leaving the workspace folder
+     * @param dirPath Directory to start from
+     * @returns Path of the config, or undefined when there is none
+     */
+    private findConfig(dirPath: string): string | undefined {
+        if (this.configForDirectory.has(dirPath)) {
+            return this.configForDirectory.get(dirPath);
+        }
+
+        let configPath: string | undefined;
+        for (const name of ['tsconfig.json', 'jsconfig.json']) {
+            if (fs.existsSync(path.join(dirPath, name))) {
+                configPath = path.join(dirPath, name);
+                break;
+            }
+        }
+
+        const parent = path.dirname(dirPath);
+        const isWorkspaceRoot = (vscode.workspace.workspaceFolders ?? []).some(folder => folder.uri.fsPath === dirPath);
+        if (!configPath && !isWorkspaceRoot && parent !== dirPath) {
+            configPath = this.findConfig(parent);
+        }
+
+        this.configForDirectory.set(dirPath, configPath);
+        return configPath;
+    }
+
+    /**
+     * Resolves a bare specifier such as `@ourorg/shared/foo` to a file of a workspace package
+     * @param specifier Specifier as written in the import
+     * @returns Absolute path, or undefined when the specifier does not name a workspace package
+     */
+    private resolveWorkspacePackage(specifier: string): string | undefined {
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            return undefined;
+        }
+
+        // Package names are one segment, or two when scoped
+        const segments = specifier.split('/');
+        const nameLength = specifier.startsWith('@') ? 2 : 1;
+        const packageDir = this.getPackages().get(segments.slice(0, nameLength).join('/'));
+        if (!packageDir) {
+            return undefined;
+        }
+
+        const subpath = segments.slice(nameLength).join('/');
+        const manifest = this.readManifest(path.join(packageDir, 'package.json')) ?? {};
+
+        // "exports" is authoritative when present
+        if (manifest.exports !== undefined) {
+            const target = this.resolveExports(manifest.exports, subpath ? `./${subpath}` : '.');
+            const resolved = target && this.probeFile(path.join(packageDir, target));
+            if (resolved) {
+                return resolved;
+            }
+        }
+
+        if (subpath) {
+            return this.probeFile(path.join(packageDir, subpath)) ??
+                this.probeFile(path.join(packageDir, 'src', subpath));
+        }
+
+        const entries = [manifest.source, manifest.types, manifest.typings, manifest.module, manifest.main, 'src/index', 'index'];
+        for (const entry of entries) {
+            const resolved = entry && this.probeFile(path.join(packageDir, entry));
+            if (resolved) {
+                return resolved;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Looks up a subpath in a package.json `exports` field
+     * @param exports Value of the field
+     * @param subpath Subpath starting with '.' (e.g. './utils')
+     * @returns Target relative to the package directory, or undefined
+     */
+    private resolveExports(exports: unknown, subpath: string): string | undefined {
+        // Shorthand forms only export the main entry
+        const isSubpathMap = typeof exports === 'object' && exports !== null && !Array.isArray(exports) &&
+            Object.keys(exports).some(key => key.startsWith('.'));
+        if (!isSubpathMap) {
+            return subpath === '.' ? this.resolveExportTarget(exports, '') : undefined;
+        }
+
+        const map = exports as Record<string, unknown>;
+        if (subpath in map) {
+            return this.resolveExportTarget(map[subpath], '');
+        }
+
+        // Pattern keys such as "./*" or "./features/*.js"; the longest prefix wins
+        let best: { key: string; match: string } | undefined;
+        for (const key of Object.keys(map)) {
+            const star = key.indexOf('*');
+            if (star === -1) {
+                continue;
+            }
+            const prefix = key.slice(0, star);
+            const suffix = key.slice(star + 1);
+            if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1 &&
+                (!best || prefix.length > best.key.indexOf('*'))) {
+                best = { key, match: subpath.slice(prefix.length, subpath.length - suffix.length) };
+            }
+        }
+
+        return best ? this.resolveExportTarget(map[best.key], best.match) : undefined;
+    }
+
+    /**
+     * Picks a target from an `exports` value, following conditions in preference order
+     * @param target String, condition object or fallback array
+     * @param match Text matched by '*' in the key, substituted into the target
+     * @returns Target path, or undefined
+     */
+    private resolveExportTarget(target: unknown, match: string): string | undefined {
+        if (typeof target === 'string') {
+            return target.replace(/\*/g, match);
+        }
+
+        if (Array.isArray(target)) {
+            for (const candidate of target) {
+                const resolved = this.resolveExportTarget(candidate, match);
+                if (resolved) {
+                    return resolved;
+                }
+            }
+            return undefined;
+        }
+
+        if (typeof target === 'object' && target !== null) {
+            const conditions = target as Record<string, unknown>;
+            for (const condition of ModuleResolver.CONDITIONS) {
+                if (condition in conditions) {
+                    const resolved = this.resolveExportTarget(conditions[condition], match);
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Finds the file a path refers to, trying extensions, index files and the
+     * source that build output was compiled from
+     * @param candidate Absolute path, possibly without extension
+     * @returns Path of an existing file, or undefined
+     */
+    public probeFile(candidate: string): string | undefined {
+        const isFile = (filePath: string) => {
+            try {
+                return fs.statSync(filePath).isFile();
+            } catch {
+                return false;
+            }
+        };
+
+        const source = this.toSourceFile(candidate);
+        if (source !== candidate && isFile(source)) {
+            return source;
+        }
+        if (isFile(candidate)) {
+            return candidate;
+        }
+
+        // `./foo.mjs` and `./foo.cjs` refer to foo.mts and foo.cts
+        const moduleSource = candidate.replace(/\.([cm])js$/, '.$1ts');
+        if (moduleSource !== candidate && isFile(moduleSource)) {
+            return moduleSource;
+        }
+
+        // `./foo.js` may refer to foo.ts
+        const withoutJsExtension = candidate.replace(/\.(c|m)?jsx?$/, '');
+        for (const base of [withoutJsExtension, candidate]) {
+            for (const ext of ModuleResolver.EXTENSIONS) {
+                if (isFile(base + ext)) {
+                    return base + ext;
+                }
+            }
+        }
+        for (const ext of ModuleResolver.EXTENSIONS) {
+            const indexPath = path.join(candidate, `index${ext}`);
+            if (isFile(indexPath)) {
+                return indexPath;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Maps a build output file (e.g. `dist/index.d.ts`) to the source it was built from,
+     * since output folders are not indexed
+     * @param filePath Absolute path
+     * @returns Path of the source file when one exists, otherwise the input path
+     */
+    private toSourceFile(filePath: string): string {
+        if (!/(\.d\.(c|m)?ts|\.(c|m)?js)$/.test(filePath)) {
+            return filePath;
+        }
+
+        const segments = filePath.split(path.sep);
+        const outputIndex = segments.findIndex(segment => ModuleResolver.OUTPUT_DIRS.includes(segment));
+        if (outputIndex === -1) {
+            return filePath;
+        }
+
+        const base = [...segments.slice(0, outputIndex), 'src', ...segments.slice(outputIndex + 1)]
+            .join(path.sep)
+            .replace(/(\.d)?\.(c|m)?(t|j)sx?$/, '');
+        for (const ext of ['.ts', '.tsx', '.js', '.jsx']) {
+            if (fs.existsSync(base + ext)) {
+                return base + ext;
+            }
+        }
+        return filePath;
+    }
+
+    /**
+     * Collects workspace packages from the known manifests, the workspace folder
+     * roots and the npm/yarn `workspaces` and pnpm-workspace.yaml globs
+     * @returns Map of package name to package directory
+     */
+    private getPackages(): Map<string, string> {
+        if (this.packages) {
+            return this.packages;
+        }
+
+        const manifests = new Set(this.manifests);
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const root = folder.uri.fsPath;
+            manifests.add(path.join(root, 'package.json'));
+
+            const rootManifest = this.readManifest(path.join(root, 'package.json'));
+            const workspaces = Array.isArray(rootManifest?.workspaces)
+                ? rootManifest.workspaces
+                : rootManifest?.workspaces?.packages ?? [];
+            for (const dir of this.expandWorkspaceGlobs(root, [...workspaces, ...this.readPnpmWorkspaces(root)])) {
+                manifests.add(path.join(dir, 'package.json'));
+            }
+        }
+
+        this.packages = new Map();
+        for (const manifestPath of manifests) {
+            const name = this.readManifest(manifestPath)?.name;
+            if (name && !this.packages.has(name)) {
+                this.packages.set(name, path.dirname(manifestPath));
+            }
+        }
+        return this.packages;
+    }
+
+    /**
+     * Reads the package globs of a pnpm workspace
+     * @param root Workspace folder
+     * @returns Globs listed under `packages:` in pnpm-workspace.yaml
+     */
+    private readPnpmWorkspaces(root: string): string[] {
+        let content: string;
+        try {
+            content = fs.readFileSync(path.join(root, 'pnpm-workspace.yaml'), 'utf-8');
+        } catch {
+            return [];
+        }
+
+        const globs: string[] = [];
+        let inPackages = false;
+        for (const line of content.split(/\r?\n/)) {
+            if (/^packages\s*:/.test(line)) {
+                inPackages = true;
+            } else if (inPackages && /^\s*-/.test(line)) {
+                globs.push(line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '').replace(/^['"]|['"]$/g, ''));
+            } else if (inPackages && /^\S/.test(line)) {
+                inPackages = false;
+            }
+        }
+        return globs;
+    }
+
+    /**
+     * Expands workspace globs such as `packages/*` or `apps/**` into package directories
+     * @param root Directory the globs are relative to
+     * @param globs Globs; those starting with '!' remove matches
+     * @returns Directories containing a package.json
+     */
+    private expandWorkspaceGlobs(root: string, globs: string[]): string[] {
+        const included = new Set<string>();
+        const excluded = new Set<string>();
+
+        for (const glob of globs) {
+            const negated = glob.startsWith('!');
+            const segments = glob.replace(/^!/, '').replace(/^\.\//, '').split('/').filter(Boolean);
+            for (const dir of this.expandSegments(root, segments, 0)) {
+                (negated ? excluded : included).add(dir);
+            }
+        }
+
+        return [...included].filter(dir => !excluded.has(dir) && fs.existsSync(path.join(dir, 'package.json')));
+    }
+
+    private expandSegments(dir: string, segments: string[], depth: number): string[] {
+        if (segments.length === 0) {
+            return [dir];
+        }
+
+        const [segment, ...rest] = segments;
+        if (!segment.includes('*')) {
+            return this.expandSegments(path.join(dir, segment), rest, depth);
+        }
+
+        let children: string[];
+        try {
+            children = fs.readdirSync(dir, { withFileTypes: true })
+                .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+                .map(entry => entry.name);
+        } catch {
+            return [];
+        }
+
+        const results: string[] = [];
+        if (segment === '**') {
+            // Zero or more directories, with a depth limit to keep large trees cheap
+            results.push(...this.expandSegments(dir, rest, depth));
+            if (depth < 4) {
+                for (const child of children) {
+                    results.push(...this.expandSegments(path.join(dir, child), segments, depth + 1));
+                }
+            }
+            return results;
+        }
+
+        const pattern = new RegExp('^' + segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+        for (const child of children) {
+            if (pattern.test(child)) {
+                results.push(...this.expandSegments(path.join(dir, child), rest, depth));
+            }
+        }
+        return results;
+    }
+
+    private readManifest(manifestPath: string): PackageManifest | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+        } catch {
+            return undefined;
+        }
+    }
+}
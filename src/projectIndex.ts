@@ -0,0 +1,376 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { FileInfo, ProjectScanner, ProjectStructure } from './projectScanner.js';
+import { Dependency, DependencyGraph, DependencyGraphDelta, DependencyManager, affectsImportResolution } from './dependencyManager.js';
+import { IGNORE_FILE_NAMES } from './ignoreRules.js';
+
+const stat = promisify(fs.stat);
+
+// On-disk format of the index, stored under the workspace storage folder
+interface PersistedIndex {
+    version: number;
+    workspaceRoots: string[];
+    settings: string;       // Settings that decide which files are indexed, when the index was written
+    files: (Omit<FileInfo, 'lastModified' | 'content'> & { lastModified: number })[];
+    dependencies: [string, Dependency[]][];
+}
+
+/**
+ * Long-lived index of the workspace files and their dependency graph. It is
+ * kept up to date from file system events and persisted between sessions, so
+ * queries never need a full rescan.
+ */
+export class ProjectIndex implements vscode.Disposable {
+    private static readonly INDEX_FILE = 'project-index.json';
+    private static readonly INDEX_VERSION = 4;
+
+    // Delay used to batch bursts of file events (e.g. a branch switch) and index writes
+    private static readonly EVENT_DELAY = 300;
+    private static readonly SAVE_DELAY = 5000;
+
+    public readonly dependencyManager: DependencyManager;
+
+    private scanner = new ProjectScanner();
+    private files: Map<string, FileInfo> = new Map();
+    private structure?: ProjectStructure;
+    private graph?: Promise<DependencyGraph>;
+    private ready?: Promise<void>;
+
+    // Deltas are applied one at a time so the graph is never updated concurrently
+    private updates: Promise<void> = Promise.resolve();
+
+    private pendingEvents: Map<string, 'change' | 'delete'> = new Map();
+    private eventTimer?: NodeJS.Timeout;
+    private saveTimer?: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    private onDidChangeEmitter = new vscode.EventEmitter<DependencyGraphDelta>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    // Fires when an ignore file or the exclusion settings change, so cached ignore matchers are stale
+    private onDidChangeIgnoreRulesEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeIgnoreRules = this.onDidChangeIgnoreRulesEmitter.event;
+
+    constructor(
+        private storageUri: vscode.Uri | undefined,
+        dependencyManager: DependencyManager = new DependencyManager()
+    ) {
+        this.dependencyManager = dependencyManager;
+    }
+
+    /**
+     * Loads the persisted index (or scans the workspace when there is none)
+     * and starts watching the file system
+     * @returns Promise resolving once the index can answer queries
+     */
+    public initialize(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.load();
+            this.watch();
+        }
+        return this.ready;
+    }
+
+    /**
+     * Gets the current project structure
+     * @returns Promise resolving to the structure built from the index
+     */
+    public async getStructure(): Promise<ProjectStructure> {
+        await this.initialize();
+        this.structure ??= this.scanner.createStructure([...this.files.values()]);
+        return this.structure;
+    }
+
+    /**
+     * Gets the dependency graph, built on first use and then updated incrementally
+     * @returns Promise resolving to the live graph (do not modify it)
+     */
+    public async getDependencyGraph(): Promise<DependencyGraph> {
+        await this.initialize();
+        this.graph ??= this.getStructure().then(structure => this.dependencyManager.buildDependencyGraph(structure));
+        return this.graph;
+    }
+
+    /**
+     * Rescans the workspace and applies the differences, for changes the
+     * file watcher cannot see (e.g. made while the editor was closed)
+     * @returns Promise resolving once the index is up to date
+     */
+    public async refresh(): Promise<void> {
+        await this.initialize();
+        await this.reconcile();
+    }
+
+    /**
+     * Gets an indexed file
+     * @param filePath Absolute path
+     * @returns File info, or undefined when the file is not indexed
+     */
+    public getFile(filePath: string): FileInfo | undefined {
+        return this.files.get(filePath);
+    }
+
+    public dispose(): void {
+        clearTimeout(this.eventTimer);
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            void this.save();
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.onDidChangeEmitter.dispose();
+        this.onDidChangeIgnoreRulesEmitter.dispose();
+    }
+
+    /**
+     * Restores the persisted index and reconciles it with the disk in the
+     * background, or performs a full scan when there is none or it was
+     * written by another version or with other settings
+     */
+    private async load(): Promise<void> {
+        const persisted = await this.readPersistedIndex();
+        if (!persisted) {
+            const structure = await this.scanner.scanWorkspace();
+            for (const file of structure.allFiles) {
+                this.files.set(file.path, file);
+            }
+            this.scheduleSave();
+            return;
+        }
+
+        for (const file of persisted.files) {
+            this.files.set(file.path, { ...file, lastModified: new Date(file.lastModified) });
+        }
+        this.dependencyManager.restoreCachedDependencies(new Map(persisted.dependencies));
+
+        // Pick up changes made while the editor was closed without blocking queries. The
+        // listing only stats files, and unchanged files keep their cached dependencies
+        void this.reconcile();
+    }
+
+    /**
+     * Compares the index with a fresh listing of the workspace and applies the differences
+     */
+    private async reconcile(): Promise<void> {
+        try {
+            const structure = await this.scanner.scanWorkspace();
+            const delta: DependencyGraphDelta = { added: [], changed: [], removed: [] };
+            const seen = new Set<string>();
+
+            for (const file of structure.allFiles) {
+                seen.add(file.path);
+                const known = this.files.get(file.path);
+                if (!known) {
+                    delta.added.push(file);
+                } else if (known.size !== file.size || known.lastModified.getTime() !== file.lastModified.getTime()) {
+                    delta.changed.push(file);
+                }
+            }
+            for (const filePath of this.files.keys()) {
+                if (!seen.has(filePath)) {
+                    delta.removed.push(filePath);
+                }
+            }
+
+            await this.applyDelta(delta);
+        } catch (error) {
+            console.error('Error reconciling project index:', error);
+        }
+    }
+
+    private watch(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.queueEvent(uri, 'change')),
+            watcher.onDidChange(uri => this.queueEvent(uri, 'change')),
+            watcher.onDidDelete(uri => this.queueEvent(uri, 'delete')),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.onDidChangeIgnoreRulesEmitter.fire();
+                void this.reconcile();
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('aion.exclude') || event.affectsConfiguration('aion.respectGitignore')) {
+                    this.onDidChangeIgnoreRulesEmitter.fire();
+                    void this.reconcile();
+                }
+            })
+        );
+    }
+
+    private queueEvent(uri: vscode.Uri, kind: 'change' | 'delete'): void {
+        if (uri.scheme !== 'file' || this.scanner.isExcludedByDefault(uri.fsPath)) {
+            return;
+        }
+
+        this.pendingEvents.set(uri.fsPath, kind);
+        clearTimeout(this.eventTimer);
+        this.eventTimer = setTimeout(() => void this.flushEvents(), ProjectIndex.EVENT_DELAY);
+    }
+
+    /**
+     * Turns the queued file system events into a delta and applies it
+     */
+    private async flushEvents(): Promise<void> {
+        await this.ready;
+
+        const events = [...this.pendingEvents];
+        this.pendingEvents.clear();
+        const delta: DependencyGraphDelta = { added: [], changed: [], removed: [] };
+        let ignoreFileChanged = false;
+
+        for (const [eventPath, kind] of events) {
+            if (IGNORE_FILE_NAMES.includes(path.basename(eventPath))) {
+                ignoreFileChanged = true;
+            }
+
+            if (kind === 'delete') {
+                // A deleted folder only reports itself, so drop everything below it too
+                for (const filePath of this.files.keys()) {
+                    if (filePath === eventPath || filePath.startsWith(eventPath + path.sep)) {
+                        delta.removed.push(filePath);
+                    }
+                }
+                continue;
+            }
+
+            try {
+                if (await this.scanner.isExcluded(eventPath)) {
+                    continue;
+                }
+                const stats = await stat(eventPath);
+                if (!stats.isFile()) {
+                    continue;
+                }
+                const file = await this.scanner.getFileMetadata(eventPath);
+                (this.files.has(eventPath) ? delta.changed : delta.added).push(file);
+            } catch {
+                // The file disappeared before we got to it
+                if (this.files.has(eventPath)) {
+                    delta.removed.push(eventPath);
+                }
+            }
+        }
+
+        await this.applyDelta(delta);
+
+        // Files may have become ignored or visible again, which only a full listing can tell
+        if (ignoreFileChanged) {
+            this.onDidChangeIgnoreRulesEmitter.fire();
+            await this.reconcile();
+        }
+    }
+
+    /**
+     * Queues a delta behind any update that is still running
+     * @param delta Files added, changed and removed
+     */
+    private applyDelta(delta: DependencyGraphDelta): Promise<void> {
+        this.updates = this.updates
+            .then(() => this.updateIndex(delta))
+            .catch(error => console.error('Error updating project index:', error));
+        return this.updates;
+    }
+
+    /**
+     * Updates files, structure and graph for a delta and notifies listeners
+     * @param delta Files added, changed and removed
+     */
+    private async updateIndex(delta: DependencyGraphDelta): Promise<void> {
+        if (delta.added.length === 0 && delta.changed.length === 0 && delta.removed.length === 0) {
+            return;
+        }
+
+        for (const filePath of delta.removed) {
+            this.files.delete(filePath);
+        }
+        for (const file of [...delta.added, ...delta.changed]) {
+            this.files.set(file.path, file);
+        }
+        this.structure = undefined;
+
+        if (this.graph) {
+            await this.dependencyManager.applyDelta(await this.graph, delta);
+        } else {
+            // No graph yet: only make sure stale cached dependencies are not reused
+            const changedPaths = [...delta.changed.map(file => file.path), ...delta.removed];
+            if ([...delta.added.map(file => file.path), ...changedPaths]
+                .some(affectsImportResolution)) {
+                this.dependencyManager.clearCache();
+            }
+            for (const filePath of changedPaths) {
+                this.dependencyManager.clearCache(filePath);
+            }
+        }
+
+        this.onDidChangeEmitter.fire(delta);
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        if (!this.storageUri) {
+            return;
+        }
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => void this.save(), ProjectIndex.SAVE_DELAY);
+    }
+
+    private async readPersistedIndex(): Promise<PersistedIndex | undefined> {
+        if (!this.storageUri) {
+            return undefined;
+        }
+
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, ProjectIndex.INDEX_FILE));
+            const index = JSON.parse(Buffer.from(data).toString('utf-8')) as PersistedIndex;
+            if (index.version !== ProjectIndex.INDEX_VERSION ||
+                index.workspaceRoots.join('\n') !== this.getWorkspaceRoots().join('\n') ||
+                index.settings !== this.getIndexSettings()) {
+                return undefined;
+            }
+            return index;
+        } catch {
+            // No index yet, or it is unreadable; a fresh scan will replace it
+            return undefined;
+        }
+    }
+
+    private getWorkspaceRoots(): string[] {
+        return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    }
+
+    private getIndexSettings(): string {
+        const config = vscode.workspace.getConfiguration('aion');
+        return JSON.stringify([config.get<string[]>('exclude', []), config.get<boolean>('respectGitignore', true)]);
+    }
+
+    private async save(): Promise<void> {
+        this.saveTimer = undefined;
+        if (!this.storageUri) {
+            return;
+        }
+
+        const index: PersistedIndex = {
+            version: ProjectIndex.INDEX_VERSION,
+            workspaceRoots: this.getWorkspaceRoots(),
+            settings: this.getIndexSettings(),
+            files: [...this.files.values()].map(({ content, ...file }) => ({
+                ...file,
+                lastModified: file.lastModified.getTime()
+            })),
+            dependencies: [...this.dependencyManager.getCachedDependencies()]
+                .filter(([filePath]) => this.files.has(filePath))
+        };
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this.storageUri, ProjectIndex.INDEX_FILE),
+                Buffer.from(JSON.stringify(index), 'utf-8')
+            );
+        } catch (error) {
+            console.error('Error saving project index:', error);
+        }
+    }
+}
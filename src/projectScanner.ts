@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { promisify } from 'util';
+import { IgnoreMatcher, IgnoreRule, compileIgnoreRule, createIgnoreMatcher, evaluateIgnoreRules } from './ignoreRules.js';
 
 // Convert fs methods to promise-based
 const readdir = promisify(fs.readdir);
@@ -16,6 +17,10 @@ export enum FileType {
     CSS = 'css',
     JSON = 'json',
     Markdown = 'markdown',
+    Python = 'python',
+    Go = 'go',
+    Rust = 'rust',
+    Java = 'java',
     Image = 'image',
     Unknown = 'unknown'
 }
@@ -23,7 +28,8 @@ export enum FileType {
 // Structure representing a file in the workspace
 export interface FileInfo {
     path: string;           // Full path to the file
-    relativePath: string;   // Path relative to workspace root
+    relativePath: string;   // Path relative to its workspace folder
+    workspaceFolder?: string; // Name of the workspace folder containing the file
     name: string;           // File name with extension
     extension: string;      // File extension
     type: FileType;         // Type of file
@@ -41,62 +47,113 @@ export interface DirectoryInfo {
     directories: DirectoryInfo[]; // Subdirectories
 }
 
-// Complete project structure
-export interface ProjectStructure {
-    workspaceRoot: string;  // Root path of the workspace
+// A workspace folder and its top-level content
+export interface WorkspaceRootInfo {
+    name: string;           // Workspace folder name
+    path: string;           // Root path of the folder
     rootDirectories: DirectoryInfo[]; // Top-level directories
     rootFiles: FileInfo[];  // Top-level files
-    allFiles: FileInfo[];   // Flat list of all files for easy access
+}
+
+// Complete project structure
+export interface ProjectStructure {
+    workspaceRoot: string;  // Root path of the first workspace folder
+    workspaceRoots: WorkspaceRootInfo[]; // Every workspace folder, in workspace order
+    rootDirectories: DirectoryInfo[]; // Top-level directories of the first folder
+    rootFiles: FileInfo[];  // Top-level files of the first folder
+    allFiles: FileInfo[];   // Flat list of all files of all folders for easy access
+}
+
+// A workspace folder being scanned
+interface ScanRoot {
+    name: string;           // Workspace folder name
+    path: string;           // Root path of the folder
+    ignoreMatcher: IgnoreMatcher; // .gitignore, .aionignore and aion.exclude rules of the folder
 }
 
 // Filter criteria for files
 export interface FilterCriteria {
     extensions?: string[];  // File extensions to include
-    excludePatterns?: string[]; // Glob patterns to exclude
+    excludePatterns?: string[]; // Gitignore-style patterns to exclude, relative to the workspace root
     maxSize?: number;       // Maximum file size in bytes
     modifiedSince?: Date;   // Only files modified since this date
 }
 
 export class ProjectScanner {
     private workspaceRoot: string | undefined;
+    private roots: ScanRoot[] = [];
     private excludedFolders: Set<string> = new Set([
         'node_modules', '.git', 'dist', 'out', 'build',
         'coverage', '.vscode-test', '.vscode'
     ]);
-    private excludedFiles: Set<string> = new Set([
-        'package-lock.json', 'yarn.lock', '*.log'
-    ]);
+    private excludedFiles: IgnoreRule[] = ['package-lock.json', 'yarn.lock', '*.log']
+        .map(pattern => compileIgnoreRule(pattern)!);
 
     // Default file size limit (1MB)
     private DEFAULT_FILE_SIZE_LIMIT = 1024 * 1024;
 
     constructor() {
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            this.workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        }
+        this.updateRoots();
     }
 
     /**
-     * Scans the entire workspace and builds a project structure
+     * Scans every workspace folder and builds a project structure
      * @param progressCallback Optional callback for reporting progress (0-100)
      * @returns Promise resolving to the complete project structure
      */
     public async scanWorkspace(
         progressCallback?: (progress: number) => void
     ): Promise<ProjectStructure> {
+        // Pick up added folders, edited ignore files and settings
+        this.updateRoots();
         if (!this.workspaceRoot) {
             throw new Error('No workspace folder is open');
         }
 
         const structure: ProjectStructure = {
             workspaceRoot: this.workspaceRoot,
+            workspaceRoots: [],
             rootDirectories: [],
             rootFiles: [],
             allFiles: []
         };
 
+        for (let i = 0; i < this.roots.length; i++) {
+            const rootInfo = await this.scanRoot(this.roots[i], structure.allFiles, progress => {
+                progressCallback?.(((i + progress / 100) / this.roots.length) * 100);
+            });
+            structure.workspaceRoots.push(rootInfo);
+        }
+
+        structure.rootDirectories = structure.workspaceRoots[0].rootDirectories;
+        structure.rootFiles = structure.workspaceRoots[0].rootFiles;
+
+        return structure;
+    }
+
+    /**
+     * Scans one workspace folder
+     * @param root Folder to scan
+     * @param allFiles Array to collect all files into
+     * @param progressCallback Optional callback for reporting progress within the folder (0-100)
+     * @returns Promise resolving to the folder's top-level content
+     */
+    private async scanRoot(
+        root: ScanRoot,
+        allFiles: FileInfo[],
+        progressCallback?: (progress: number) => void
+    ): Promise<WorkspaceRootInfo> {
+        const rootInfo: WorkspaceRootInfo = {
+            name: root.name,
+            path: root.path,
+            rootDirectories: [],
+            rootFiles: []
+        };
+
+        await root.ignoreMatcher.loadDirectory(root.path);
+
         // Get entries in the root directory
-        const entries = await readdir(this.workspaceRoot, { withFileTypes: true });
+        const entries = await readdir(root.path, { withFileTypes: true });
 
         // Track progress
         let processedCount = 0;
@@ -109,7 +166,7 @@ export class ProjectScanner {
 
         // Process each entry
         const processingPromises = entries.map(async (entry) => {
-            const entryPath = path.join(this.workspaceRoot!, entry.name);
+            const entryPath = path.join(root.path, entry.name);
 
             // Skip excluded folders
             if (entry.isDirectory() && this.excludedFolders.has(entry.name)) {
@@ -123,18 +180,24 @@ export class ProjectScanner {
                 return;
             }
 
+            // Skip ignored files and folders, and folders scanned as workspace folders of their own
+            if (root.ignoreMatcher.isIgnored(entryPath, entry.isDirectory()) || this.isOtherRoot(entryPath)) {
+                reportProgress();
+                return;
+            }
+
             if (entry.isDirectory()) {
                 // Process directory
-                const dirInfo = await this.scanDirectory(entryPath, entry.name, '');
-                structure.rootDirectories.push(dirInfo);
+                const dirInfo = await this.scanDirectory(entryPath, entry.name, '', root);
+                rootInfo.rootDirectories.push(dirInfo);
 
                 // Add all files from this directory to the flat list
-                this.collectAllFiles(dirInfo, structure.allFiles);
+                this.collectAllFiles(dirInfo, allFiles);
             } else if (entry.isFile()) {
                 // Process file
-                const fileInfo = await this.getFileInfo(entryPath, '');
-                structure.rootFiles.push(fileInfo);
-                structure.allFiles.push(fileInfo);
+                const fileInfo = await this.getFileInfo(entryPath, '', root.name);
+                rootInfo.rootFiles.push(fileInfo);
+                allFiles.push(fileInfo);
             }
 
             reportProgress();
@@ -142,20 +205,22 @@ export class ProjectScanner {
 
         await Promise.all(processingPromises);
 
-        return structure;
+        return rootInfo;
     }
 
     /**
      * Scans a directory and returns its structure
      * @param dirPath Full path to the directory
      * @param dirName Name of the directory
-     * @param relativePath Path relative to workspace root
+     * @param relativePath Path relative to the workspace folder
+     * @param root Workspace folder being scanned
      * @returns Promise resolving to directory info
      */
     private async scanDirectory(
         dirPath: string,
         dirName: string,
-        relativePath: string
+        relativePath: string,
+        root: ScanRoot
     ): Promise<DirectoryInfo> {
         const dirRelativePath = path.join(relativePath, dirName);
 
@@ -167,8 +232,9 @@ export class ProjectScanner {
             directories: []
         };
 
-        // Read directory contents
+        // Read directory contents and any ignore files it holds
         const entries = await readdir(dirPath, { withFileTypes: true });
+        await root.ignoreMatcher.loadDirectory(dirPath);
 
         // Process each entry
         const processingPromises = entries.map(async (entry) => {
@@ -184,17 +250,23 @@ export class ProjectScanner {
                 return;
             }
 
+            // Skip ignored files and folders, and nested workspace folders
+            if (root.ignoreMatcher.isIgnored(entryPath, entry.isDirectory()) || this.isOtherRoot(entryPath)) {
+                return;
+            }
+
             if (entry.isDirectory()) {
                 // Recursively scan subdirectory
                 const subDirInfo = await this.scanDirectory(
                     entryPath,
                     entry.name,
-                    dirRelativePath
+                    dirRelativePath,
+                    root
                 );
                 dirInfo.directories.push(subDirInfo);
             } else if (entry.isFile()) {
                 // Get file info
-                const fileInfo = await this.getFileInfo(entryPath, dirRelativePath);
+                const fileInfo = await this.getFileInfo(entryPath, dirRelativePath, root.name);
                 dirInfo.files.push(fileInfo);
             }
         });
@@ -208,9 +280,10 @@ export class ProjectScanner {
      * Gets detailed information about a file
      * @param filePath Full path to the file
      * @param relativeDirPath Relative path to the directory containing the file
+     * @param workspaceFolder Name of the workspace folder containing the file
      * @returns Promise resolving to file info
      */
-    private async getFileInfo(filePath: string, relativeDirPath: string): Promise<FileInfo> {
+    private async getFileInfo(filePath: string, relativeDirPath: string, workspaceFolder?: string): Promise<FileInfo> {
         const fileStats = await stat(filePath);
         const fileName = path.basename(filePath);
         const extension = path.extname(filePath).toLowerCase();
@@ -218,9 +291,10 @@ export class ProjectScanner {
         return {
             path: filePath,
             relativePath: path.join(relativeDirPath, fileName),
+            workspaceFolder,
             name: fileName,
             extension: extension,
-            type: this.determineFileType(extension),
+            type: determineFileTypeFromPath(filePath),
             size: fileStats.size,
             lastModified: fileStats.mtime
         };
@@ -237,15 +311,7 @@ export class ProjectScanner {
             ? filePath
             : path.join(this.workspaceRoot!, filePath);
 
-        // Get basic file info
-        const fileName = path.basename(absolutePath);
-        const dirPath = path.dirname(absolutePath);
-        const relativePath = this.workspaceRoot
-            ? path.relative(this.workspaceRoot, absolutePath)
-            : absolutePath;
-        const relativeDirPath = path.dirname(relativePath);
-
-        const fileInfo = await this.getFileInfo(absolutePath, relativeDirPath);
+        const fileInfo = await this.getFileMetadata(absolutePath);
 
         // Load file content
         try {
@@ -262,41 +328,170 @@ export class ProjectScanner {
     }
 
     /**
-     * Determines the file type based on extension
-     * @param extension File extension
-     * @returns FileType
+     * Gets metadata for a single file without loading its content
+     * @param filePath Absolute path to the file
+     * @returns Promise resolving to file info
+     */
+    public async getFileMetadata(filePath: string): Promise<FileInfo> {
+        const root = this.findRoot(filePath);
+        const relativePath = root ? path.relative(root.path, filePath) : filePath;
+        const relativeDirPath = path.dirname(relativePath);
+        return this.getFileInfo(filePath, relativeDirPath === '.' ? '' : relativeDirPath, root?.name);
+    }
+
+    /**
+     * Checks whether a path is skipped by the built-in exclusions, either
+     * itself or because one of its parent folders is excluded. Cheap enough
+     * for every file system event; see isExcluded for the full check.
+     * @param filePath Absolute path to check
+     * @returns True if the path is outside the workspace or excluded
+     */
+    public isExcludedByDefault(filePath: string): boolean {
+        const root = this.findRoot(filePath);
+        if (!root) {
+            return true;
+        }
+
+        const relativePath = path.relative(root.path, filePath);
+        if (!relativePath) {
+            return true;
+        }
+
+        const segments = relativePath.split(path.sep);
+        const fileName = segments[segments.length - 1];
+        return segments.some(segment => this.excludedFolders.has(segment)) || this.shouldExcludeFile(fileName);
+    }
+
+    /**
+     * Checks whether a file is skipped by the scanner, including the
+     * .gitignore, .aionignore and aion.exclude rules of its parent folders
+     * @param filePath Absolute path to check
+     * @returns Promise resolving to true if the path is outside the workspace, excluded or ignored
+     */
+    public async isExcluded(filePath: string): Promise<boolean> {
+        const root = this.findRoot(filePath);
+        if (!root || this.isExcludedByDefault(filePath)) {
+            return true;
+        }
+
+        return root.ignoreMatcher.isPathIgnored(filePath, false);
+    }
+
+    /**
+     * Builds a project structure from a flat list of files
+     * @param files Files in the workspace
+     * @returns Project structure with the directory trees rebuilt from relative paths
+     */
+    public createStructure(files: FileInfo[]): ProjectStructure {
+        if (!this.workspaceRoot) {
+            throw new Error('No workspace folder is open');
+        }
+
+        const workspaceRoots = this.roots.map(root => this.createRootStructure(
+            root,
+            files.filter(file => (file.workspaceFolder ?? this.roots[0].name) === root.name)
+        ));
+
+        return {
+            workspaceRoot: this.workspaceRoot,
+            workspaceRoots,
+            rootDirectories: workspaceRoots[0].rootDirectories,
+            rootFiles: workspaceRoots[0].rootFiles,
+            allFiles: [...files]
+        };
+    }
+
+    /**
+     * Rebuilds the directory tree of one workspace folder
+     * @param root Workspace folder
+     * @param files Files of that folder
+     * @returns The folder's top-level content
+     */
+    private createRootStructure(root: ScanRoot, files: FileInfo[]): WorkspaceRootInfo {
+        const structure: WorkspaceRootInfo = {
+            name: root.name,
+            path: root.path,
+            rootDirectories: [],
+            rootFiles: []
+        };
+        const directories = new Map<string, DirectoryInfo>();
+
+        const getDirectory = (relativeDirPath: string): DirectoryInfo => {
+            let dirInfo = directories.get(relativeDirPath);
+            if (dirInfo) {
+                return dirInfo;
+            }
+
+            dirInfo = {
+                path: path.join(root.path, relativeDirPath),
+                relativePath: relativeDirPath,
+                name: path.basename(relativeDirPath),
+                files: [],
+                directories: []
+            };
+            directories.set(relativeDirPath, dirInfo);
+
+            // Attach to the parent, creating intermediate directories as needed
+            const parentPath = path.dirname(relativeDirPath);
+            if (parentPath === '.') {
+                structure.rootDirectories.push(dirInfo);
+            } else {
+                getDirectory(parentPath).directories.push(dirInfo);
+            }
+
+            return dirInfo;
+        };
+
+        for (const file of files) {
+            const relativeDirPath = path.dirname(file.relativePath);
+            if (relativeDirPath === '.') {
+                structure.rootFiles.push(file);
+            } else {
+                getDirectory(relativeDirPath).files.push(file);
+            }
+        }
+
+        return structure;
+    }
+
+    /**
+     * Reads the workspace folders, creating fresh ignore rules for each
      */
-    private determineFileType(extension: string): FileType {
-        switch (extension) {
-            case '.js':
-            case '.jsx':
-            case '.mjs':
-                return FileType.JavaScript;
-            case '.ts':
-            case '.tsx':
-                return FileType.TypeScript;
-            case '.html':
-            case '.htm':
-            case '.xhtml':
-                return FileType.HTML;
-            case '.css':
-            case '.scss':
-            case '.less':
-                return FileType.CSS;
-            case '.json':
-                return FileType.JSON;
-            case '.md':
-            case '.markdown':
-                return FileType.Markdown;
-            case '.png':
-            case '.jpg':
-            case '.jpeg':
-            case '.gif':
-            case '.svg':
-                return FileType.Image;
-            default:
-                return FileType.Unknown;
+    private updateRoots(): void {
+        this.roots = (vscode.workspace.workspaceFolders ?? [])
+            .filter(folder => folder.uri.scheme === 'file')
+            .map(folder => ({
+                name: folder.name,
+                path: folder.uri.fsPath,
+                ignoreMatcher: createIgnoreMatcher(folder.uri.fsPath)
+            }));
+        this.workspaceRoot = this.roots[0]?.path;
+    }
+
+    /**
+     * Finds the workspace folder containing a path; with nested folders the innermost wins
+     * @param filePath Absolute path
+     * @returns The folder, or undefined when the path is outside the workspace
+     */
+    private findRoot(filePath: string): ScanRoot | undefined {
+        let found: ScanRoot | undefined;
+        for (const root of this.roots) {
+            const relativePath = path.relative(root.path, filePath);
+            if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath) &&
+                (!found || root.path.length > found.path.length)) {
+                found = root;
+            }
         }
+        return found;
+    }
+
+    /**
+     * Checks whether a directory is itself a workspace folder, nested in the one being scanned
+     * @param dirPath Absolute path
+     * @returns True if the directory is scanned separately
+     */
+    private isOtherRoot(dirPath: string): boolean {
+        return this.roots.some(root => root.path === dirPath);
     }
 
     /**
@@ -305,18 +500,7 @@ export class ProjectScanner {
      * @returns True if file should be excluded
      */
     private shouldExcludeFile(fileName: string): boolean {
-        for (const pattern of this.excludedFiles) {
-            if (pattern.includes('*')) {
-                // Simple glob handling for *.ext patterns
-                const ext = pattern.replace('*', '');
-                if (fileName.endsWith(ext)) {
-                    return true;
-                }
-            } else if (pattern === fileName) {
-                return true;
-            }
-        }
-        return false;
+        return evaluateIgnoreRules(this.excludedFiles, fileName, false) ?? false;
     }
 
     /**
@@ -337,22 +521,27 @@ export class ProjectScanner {
     /**
      * Filters files based on given criteria
      * @param criteria Filter criteria
+     * @param projectStructure Already scanned structure (e.g. from ProjectIndex); the workspace is scanned when omitted
      * @returns Array of file paths matching the criteria
      */
-    public async filterFiles(criteria: FilterCriteria): Promise<string[]> {
+    public async filterFiles(criteria: FilterCriteria, projectStructure?: ProjectStructure): Promise<string[]> {
         if (!this.workspaceRoot) {
             throw new Error('No workspace folder is open');
         }
 
-        // First scan the workspace if we haven't already
+        // Scan the workspace only if no structure was provided
         let structure: ProjectStructure;
         try {
-            structure = await this.scanWorkspace();
+            structure = projectStructure ?? await this.scanWorkspace();
         } catch (error) {
             console.error('Error scanning workspace:', error);
             throw error;
         }
 
+        const excludeRules = (criteria.excludePatterns ?? [])
+            .map(pattern => compileIgnoreRule(pattern))
+            .filter((rule): rule is IgnoreRule => rule !== undefined);
+
         // Apply filters
         return structure.allFiles
             .filter(file => {
@@ -373,16 +562,12 @@ export class ProjectScanner {
                     return false;
                 }
 
-                // Filter by exclude patterns
-                if (criteria.excludePatterns) {
-                    for (const pattern of criteria.excludePatterns) {
-                        // Simple glob handling
-                        if (pattern.endsWith('*')) {
-                            const prefix = pattern.slice(0, -1);
-                            if (file.relativePath.startsWith(prefix)) {
-                                return false;
-                            }
-                        } else if (pattern === file.relativePath) {
+                // Filter by exclude patterns, which also exclude everything below a matching folder
+                if (excludeRules.length > 0) {
+                    const segments = file.relativePath.split(path.sep);
+                    for (let i = 1; i <= segments.length; i++) {
+                        const isFile = i === segments.length;
+                        if (evaluateIgnoreRules(excludeRules, segments.slice(0, i).join('/'), !isFile)) {
                             return false;
                         }
                     }
@@ -394,15 +579,23 @@ export class ProjectScanner {
     }
 
 }
+
+/**
+ * Determines the file type from a path's extension
+ * @param filePath Path of the file
+ * @returns File type, or Unknown for extensions the scanner does not know
+ */
 export function determineFileTypeFromPath(filePath: string): FileType {
-    const ext = path.extname(filePath).toLowerCase();
-    switch (ext) {
+    switch (path.extname(filePath).toLowerCase()) {
         case '.js':
         case '.jsx':
         case '.mjs':
+        case '.cjs':
             return FileType.JavaScript;
         case '.ts':
         case '.tsx':
+        case '.mts':
+        case '.cts':
             return FileType.TypeScript;
         case '.html':
         case '.htm':
@@ -417,6 +610,15 @@ export function determineFileTypeFromPath(filePath: string): FileType {
         case '.md':
         case '.markdown':
             return FileType.Markdown;
+        case '.py':
+        case '.pyi':
+            return FileType.Python;
+        case '.go':
+            return FileType.Go;
+        case '.rs':
+            return FileType.Rust;
+        case '.java':
+            return FileType.Java;
         case '.png':
         case '.jpg':
         case '.jpeg':
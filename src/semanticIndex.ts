@@ -0,0 +1,748 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import axios from 'axios';
+import { FileInfo, FileType } from './projectScanner.js';
+import { ProjectIndex } from './projectIndex.js';
+import { ApiKeyManager } from './apiKeyManager.js';
+import { ProviderId, createModelProvider } from './modelProvider.js';
+import { ChunkKind, chunkFile } from './codeChunker.js';
+import { UsageTracker } from './usageTracker.js';
+import { countTokens } from './tokenBudget.js';
+
+const readFile = promisify(fs.readFile);
+
+// A chunk that matched a search, best first
+export interface SearchResult {
+    path: string;           // Absolute path of the file
+    relativePath: string;
+    name: string;           // Declaration or section name
+    kind: ChunkKind;
+    startLine: number;      // 0-based, inclusive
+    endLine: number;        // 0-based, inclusive
+    score: number;          // Cosine similarity, or BM25 score without embeddings
+}
+
+// A chunk as held in the index
+interface IndexedChunk {
+    name: string;
+    kind: ChunkKind;
+    startLine: number;
+    endLine: number;
+    hash: string;                   // Hash of the chunk text, to reuse embeddings of unchanged chunks
+    terms: Map<string, number>;     // Term frequencies for BM25
+    length: number;                 // Number of terms
+    vector?: Float32Array;          // Normalized embedding
+}
+
+interface IndexedFile {
+    lastModified: number;
+    chunks: IndexedChunk[];
+}
+
+// On-disk format of the index, stored under the workspace storage folder
+interface PersistedSemanticIndex {
+    version: number;
+    workspaceRoots: string[];
+    embeddings?: string;    // Endpoint and model the vectors were computed with
+    files: {
+        path: string;
+        lastModified: number;
+        chunks: (Omit<IndexedChunk, 'terms' | 'vector'> & { terms: Record<string, number>; vector?: string })[];
+    }[];
+}
+
+// File types whose content is chunked and indexed
+const INDEXED_TYPES = new Set([
+    FileType.JavaScript,
+    FileType.TypeScript,
+    FileType.Python,
+    FileType.Go,
+    FileType.Rust,
+    FileType.Java,
+    FileType.Markdown
+]);
+
+// Words too common in questions and code to tell chunks apart
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+    'of', 'on', 'or', 'our', 'should', 'that', 'the', 'this', 'to', 'we', 'what', 'when', 'where', 'which', 'why',
+    'with', 'const', 'let', 'var', 'def', 'fn', 'func', 'function', 'return', 'import', 'export', 'new', 'self',
+    'true', 'false', 'null', 'undefined', 'none', 'void', 'public', 'private', 'static'
+]);
+
+// Suffixes removed so that e.g. "validate", "validates" and "validation" share a term
+const SUFFIXES: [string, string][] = [
+    ['ations', 'at'], ['ation', 'at'], ['ies', 'y'], ['ied', 'y'], ['ings', ''], ['ing', ''],
+    ['ers', ''], ['er', ''], ['ed', ''], ['es', ''], ['s', ''], ['e', '']
+];
+
+/**
+ * Index of the workspace code split into functions, classes and sections,
+ * searched by embedding similarity when an embeddings endpoint is configured
+ * and by BM25 keyword ranking otherwise. The index is built in the background,
+ * follows the project index and is persisted between sessions.
+ */
+export class SemanticIndex implements vscode.Disposable {
+    private static readonly INDEX_FILE = 'semantic-index.json';
+    private static readonly INDEX_VERSION = 1;
+
+    // Files larger than this are generated or vendored more often than not
+    private static readonly MAX_FILE_SIZE = 512 * 1024;
+
+    // Chunks sent per embeddings request, and characters sent per chunk
+    private static readonly EMBEDDING_BATCH_SIZE = 32;
+    private static readonly EMBEDDING_MAX_CHARS = 8000;
+
+    // Global state key of the embeddings hosts the user agreed to send code to
+    private static readonly APPROVED_HOSTS = 'aion.semanticSearch.approvedHosts';
+
+    // BM25 parameters
+    private static readonly K1 = 1.2;
+    private static readonly B = 0.75;
+
+    private files: Map<string, IndexedFile> = new Map();
+    private embeddings?: string;
+    private loaded = false;
+
+    // Set when the project changed since the index was last brought up to date
+    private stale = true;
+
+    // Updates run one at a time
+    private updates: Promise<void> = Promise.resolve();
+
+    // Update started without a search waiting for it, so changes do not queue one per event
+    private backgroundUpdate?: Promise<void>;
+
+    // The embeddings endpoint failed or was declined; keyword search is used until the settings change
+    private embeddingsFailed = false;
+
+    // Pending confirmations by host, so concurrent requests ask only once
+    private hostApprovals: Map<string, Promise<boolean>> = new Map();
+
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param projectIndex Index listing the workspace files
+     * @param storageUri Workspace storage folder, or undefined to keep the index in memory only
+     * @param apiKeys Key storage, for the embeddings endpoint
+     * @param globalState Global state remembering the embeddings hosts code may be sent to
+     * @param usage Tracker the tokens sent for embedding are recorded in
+     */
+    constructor(
+        private projectIndex: ProjectIndex,
+        private storageUri: vscode.Uri | undefined,
+        private apiKeys: ApiKeyManager,
+        private globalState: vscode.Memento,
+        private usage?: UsageTracker
+    ) {
+        this.disposables.push(
+            this.projectIndex.onDidChange(() => {
+                this.stale = true;
+                this.updateInBackground();
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('aion.semanticSearch.embeddings')) {
+                    this.embeddingsFailed = false;
+                    this.stale = true;
+                    this.updateInBackground();
+                }
+            })
+        );
+    }
+
+    /**
+     * Starts building the index in the background. Code is only embedded
+     * here when its endpoint was approved before; otherwise the first search
+     * command asks.
+     */
+    public initialize(): void {
+        this.updateInBackground();
+    }
+
+    /**
+     * Brings the index up to date, asking before code is first sent to the
+     * embeddings endpoint, and finds the chunks most relevant to a query
+     * @param query Natural language question or keywords
+     * @param limit Maximum number of results
+     * @returns Promise resolving to the results, best first
+     */
+    public async search(query: string, limit: number = 10): Promise<SearchResult[]> {
+        await this.update(true);
+        return this.rank(query, limit, true);
+    }
+
+    /**
+     * Finds the chunks most relevant to a query among those indexed so far,
+     * without waiting for the index to be brought up to date or asking
+     * anything. Keyword ranking is used until every chunk is embedded.
+     * @param query Natural language question or keywords
+     * @param limit Maximum number of results
+     * @returns Promise resolving to the results, best first
+     */
+    public async searchIndexed(query: string, limit: number = 10): Promise<SearchResult[]> {
+        if (this.stale) {
+            this.updateInBackground();
+        }
+        return this.rank(query, limit, false);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    /**
+     * Ranks the indexed chunks against a query
+     * @param query Natural language question or keywords
+     * @param limit Maximum number of results
+     * @param interactive Whether the user may be asked before the query is sent for embedding
+     * @returns Promise resolving to the results, best first
+     */
+    private async rank(query: string, limit: number, interactive: boolean): Promise<SearchResult[]> {
+        const chunks = [...this.files].flatMap(([filePath, file]) => file.chunks.map(chunk => ({ filePath, chunk })));
+        if (chunks.length === 0) {
+            return [];
+        }
+
+        let scored: { filePath: string; chunk: IndexedChunk; score: number }[] | undefined;
+
+        // Vectors are only compared when every chunk has one
+        if (this.embeddings && !this.embeddingsFailed && chunks.every(({ chunk }) => chunk.vector)) {
+            const [queryVector] = await this.embed([query], interactive) ?? [];
+            if (queryVector) {
+                scored = chunks.map(({ filePath, chunk }) => ({ filePath, chunk, score: dot(queryVector, chunk.vector!) }));
+            }
+        }
+
+        scored ??= this.rankByKeywords(query, chunks);
+
+        return scored
+            .filter(result => result.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(({ filePath, chunk, score }) => ({
+                path: filePath,
+                relativePath: vscode.workspace.asRelativePath(filePath),
+                name: chunk.name,
+                kind: chunk.kind,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+                score
+            }));
+    }
+
+    /**
+     * Scores chunks against a query with BM25
+     * @param query Query text
+     * @param chunks Chunks to score
+     * @returns Chunks with their scores
+     */
+    private rankByKeywords(
+        query: string,
+        chunks: { filePath: string; chunk: IndexedChunk }[]
+    ): { filePath: string; chunk: IndexedChunk; score: number }[] {
+        const queryTerms = [...new Set(tokenize(query))];
+        const averageLength = chunks.reduce((sum, { chunk }) => sum + chunk.length, 0) / chunks.length || 1;
+
+        const idf = new Map(queryTerms.map(term => {
+            const documentFrequency = chunks.filter(({ chunk }) => chunk.terms.has(term)).length;
+            return [term, Math.log(1 + (chunks.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+        }));
+
+        return chunks.map(({ filePath, chunk }) => {
+            let score = 0;
+            for (const term of queryTerms) {
+                const frequency = chunk.terms.get(term) ?? 0;
+                if (frequency > 0) {
+                    const norm = SemanticIndex.K1 * (1 - SemanticIndex.B + SemanticIndex.B * chunk.length / averageLength);
+                    score += idf.get(term)! * frequency * (SemanticIndex.K1 + 1) / (frequency + norm);
+                }
+            }
+            return { filePath, chunk, score };
+        });
+    }
+
+    /**
+     * Starts an update unless one started in the background is still pending
+     */
+    private updateInBackground(): void {
+        this.backgroundUpdate ??= this.update(false).finally(() => this.backgroundUpdate = undefined);
+    }
+
+    /**
+     * Brings the index up to date with the project, then embeds chunks that
+     * have no vector yet. Files are indexed one by one, so searches that do
+     * not wait see the chunks indexed so far.
+     * @param interactive Whether the user may be asked before code is sent for embedding
+     * @returns Promise resolving once the update is done
+     */
+    private update(interactive: boolean): Promise<void> {
+        this.updates = this.updates.then(async () => {
+            if (!this.loaded) {
+                this.loaded = true;
+                await this.restore();
+            }
+
+            const embeddings = this.getEmbeddingsKey();
+            let changed = false;
+            if (embeddings !== this.embeddings) {
+                // Vectors from another model cannot be compared with new ones
+                this.embeddings = embeddings;
+                this.files.forEach(file => file.chunks.forEach(chunk => chunk.vector = undefined));
+                changed = true;
+            }
+
+            if (this.stale) {
+                this.stale = false;
+                changed = await this.reconcile() || changed;
+            }
+
+            if (this.embeddings && !this.embeddingsFailed) {
+                changed = await this.embedMissingChunks(interactive) || changed;
+            }
+
+            if (changed) {
+                await this.save();
+            }
+        }).catch(error => console.error('Error updating semantic index:', error));
+        return this.updates;
+    }
+
+    /**
+     * Re-chunks new and modified files and drops deleted ones
+     * @returns Promise resolving to true when the index changed
+     */
+    private async reconcile(): Promise<boolean> {
+        const structure = await this.projectIndex.getStructure();
+        const current = new Map(structure.allFiles
+            .filter(file => INDEXED_TYPES.has(file.type) && file.size <= SemanticIndex.MAX_FILE_SIZE && !/\.min\.js$/.test(file.name))
+            .map(file => [file.path, file]));
+        let changed = false;
+
+        for (const filePath of this.files.keys()) {
+            if (!current.has(filePath)) {
+                this.files.delete(filePath);
+                changed = true;
+            }
+        }
+
+        for (const file of current.values()) {
+            const known = this.files.get(file.path);
+            if (known?.lastModified === file.lastModified.getTime()) {
+                continue;
+            }
+
+            const indexed = await this.indexFile(file, known);
+            if (indexed) {
+                this.files.set(file.path, indexed);
+            } else {
+                this.files.delete(file.path);
+            }
+            changed = true;
+        }
+
+        return changed;
+    }
+
+    /**
+     * Chunks a file and computes its term frequencies
+     * @param file File to index
+     * @param previous Earlier index entry of the file, whose vectors are reused for unchanged chunks
+     * @returns Promise resolving to the entry, or undefined when the file cannot be read
+     */
+    private async indexFile(file: FileInfo, previous?: IndexedFile): Promise<IndexedFile | undefined> {
+        let content: string;
+        try {
+            content = await readFile(file.path, 'utf-8');
+        } catch (error) {
+            console.error(`Error reading file ${file.path}:`, error);
+            return undefined;
+        }
+
+        const vectors = new Map(previous?.chunks.map(chunk => [chunk.hash, chunk.vector]) ?? []);
+        const chunks = chunkFile(content, file.type, file.name).map(chunk => {
+            // Names and paths are weighted like extra mentions in the text
+            const terms = new Map<string, number>();
+            const allTerms = [...tokenize(chunk.text), ...tokenize(chunk.name), ...tokenize(chunk.name), ...tokenize(file.relativePath)];
+            allTerms.forEach(term => terms.set(term, (terms.get(term) ?? 0) + 1));
+
+            const hash = crypto.createHash('sha1').update(`${file.relativePath}\n${chunk.name}\n${chunk.text}`).digest('hex');
+            return {
+                name: chunk.name,
+                kind: chunk.kind,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+                hash,
+                terms,
+                length: allTerms.length,
+                vector: vectors.get(hash)
+            };
+        });
+
+        return { lastModified: file.lastModified.getTime(), chunks };
+    }
+
+    /**
+     * Computes embeddings for chunks that have none, showing progress in the status bar
+     * @param interactive Whether the user may be asked before code is sent for embedding
+     * @returns Promise resolving to true when vectors were added
+     */
+    private async embedMissingChunks(interactive: boolean): Promise<boolean> {
+        const missing = [...this.files].flatMap(([filePath, file]) =>
+            file.chunks.filter(chunk => !chunk.vector).map(chunk => ({ filePath, chunk })));
+        if (missing.length === 0) {
+            return false;
+        }
+
+        return vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'AION: Indexing code for search' },
+            async progress => {
+                // Files are read once even when many of their chunks are embedded
+                const contents = new Map<string, Promise<string[]>>();
+                let added = false;
+                for (let start = 0; start < missing.length; start += SemanticIndex.EMBEDDING_BATCH_SIZE) {
+                    progress.report({ message: `${start}/${missing.length}` });
+                    const batch = missing.slice(start, start + SemanticIndex.EMBEDDING_BATCH_SIZE);
+                    const texts = await Promise.all(batch.map(({ filePath, chunk }) => this.readChunkText(filePath, chunk, contents)));
+
+                    const vectors = await this.embed(texts, interactive);
+                    if (!vectors) {
+                        break;
+                    }
+                    batch.forEach(({ chunk }, i) => chunk.vector = vectors[i]);
+                    added = true;
+                }
+                return added;
+            }
+        );
+    }
+
+    /**
+     * Reads the text of a chunk, prefixed with its location, as sent for embedding
+     * @param filePath File containing the chunk
+     * @param chunk Chunk to read
+     * @param contents Lines of the files read so far
+     * @returns Promise resolving to the text
+     */
+    private async readChunkText(filePath: string, chunk: IndexedChunk, contents: Map<string, Promise<string[]>>): Promise<string> {
+        if (!contents.has(filePath)) {
+            contents.set(filePath, readFile(filePath, 'utf-8').then(content => content.split('\n'), error => {
+                console.error(`Error reading file ${filePath}:`, error);
+                return [];
+            }));
+        }
+        const lines = await contents.get(filePath)!;
+
+        const text = `${vscode.workspace.asRelativePath(filePath)} ${chunk.name}\n` +
+            lines.slice(chunk.startLine, chunk.endLine + 1).join('\n');
+        return text.slice(0, SemanticIndex.EMBEDDING_MAX_CHARS);
+    }
+
+    /**
+     * Requests embeddings from the configured OpenAI-compatible endpoint
+     * @param texts Texts to embed
+     * @param interactive Whether the user may be asked before code is first sent to the endpoint
+     * @returns Promise resolving to normalized vectors in input order, or undefined when the request failed
+     */
+    private async embed(texts: string[], interactive: boolean): Promise<Float32Array[] | undefined> {
+        const config = vscode.workspace.getConfiguration('aion');
+        const url = config.get<string>('semanticSearch.embeddings.url', '');
+        const model = config.get<string>('semanticSearch.embeddings.model', '');
+
+        try {
+            const host = new URL(url).host;
+            if (!interactive && !this.isApprovedHost(host)) {
+                // Not asked yet; the first search command asks
+                return undefined;
+            }
+            if (!await this.confirmHost(host)) {
+                this.embeddingsFailed = true;
+                return undefined;
+            }
+
+            const providerId = this.getEmbeddingsProvider(url);
+            const apiKey = await this.apiKeys.getApiKey(providerId);
+            const response = await axios.post(url, { model, input: texts }, {
+                headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+                timeout: 60000
+            });
+
+            // Embedding endpoints bill the input only; count it locally when the server reports nothing
+            const reported = response.data?.usage?.prompt_tokens;
+            this.usage?.record(providerId, model, typeof reported === 'number'
+                ? { promptTokens: reported, completionTokens: 0, estimated: false }
+                : { promptTokens: texts.reduce((total, text) => total + countTokens(text), 0), completionTokens: 0, estimated: true }
+            ).catch(error => console.error('Error recording usage:', error));
+
+            const data: { index: number; embedding: number[] }[] = response.data?.data ?? [];
+            const vectors = new Array<Float32Array>(texts.length);
+            for (const item of data) {
+                vectors[item.index] = normalize(Float32Array.from(item.embedding));
+            }
+            if (vectors.filter(Boolean).length !== texts.length) {
+                throw new Error(`Expected ${texts.length} embeddings, received ${data.length}`);
+            }
+            return vectors;
+        } catch (error) {
+            console.error('Error requesting embeddings:', error);
+            if (!this.embeddingsFailed) {
+                this.embeddingsFailed = true;
+                vscode.window.showWarningMessage(
+                    `The embeddings endpoint failed (${error instanceof Error ? error.message : 'unknown error'}). ` +
+                    'Semantic search uses keyword ranking until the setting changes.'
+                );
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * Asks once per host before code is first sent to it for embedding.
+     * Endpoints on this machine need no confirmation.
+     * @param host Host of the embeddings endpoint, with the port
+     * @returns Promise resolving to true when code may be sent to the host
+     */
+    private confirmHost(host: string): Promise<boolean> {
+        if (this.isApprovedHost(host)) {
+            return Promise.resolve(true);
+        }
+
+        let approval = this.hostApprovals.get(host);
+        if (!approval) {
+            approval = Promise.resolve(vscode.window.showWarningMessage(
+                `Send code from this workspace to ${host} to index it for semantic search?`,
+                { modal: true, detail: 'Set by aion.semanticSearch.embeddings.url. Without it, search ranks by keywords and sends nothing.' },
+                'Send Code'
+            )).then(async choice => {
+                this.hostApprovals.delete(host);
+                if (!choice) {
+                    return false;
+                }
+                await this.globalState.update(SemanticIndex.APPROVED_HOSTS, [
+                    ...this.globalState.get<string[]>(SemanticIndex.APPROVED_HOSTS, []),
+                    host
+                ]);
+                return true;
+            });
+            this.hostApprovals.set(host, approval);
+        }
+        return approval;
+    }
+
+    /**
+     * Checks whether code may be sent to a host without asking
+     * @param host Host of the embeddings endpoint, with the port
+     * @returns True for approved hosts and this machine
+     */
+    private isApprovedHost(host: string): boolean {
+        const hostname = host.replace(/:\d+$/, '');
+        return this.globalState.get<string[]>(SemanticIndex.APPROVED_HOSTS, []).includes(host) ||
+            ['localhost', '127.0.0.1', '[::1]'].includes(hostname);
+    }
+
+    /**
+     * Picks the provider whose key is sent to the embeddings endpoint, and that
+     * its usage is recorded under: the selected provider when the endpoint is
+     * on the same host, otherwise the OpenAI-compatible provider
+     * @param url Embeddings endpoint
+     * @returns Provider of the endpoint
+     */
+    private getEmbeddingsProvider(url: string): ProviderId {
+        const provider = createModelProvider();
+        const sameHost = new URL(url).host === new URL(provider.settings.baseUrl).host;
+        return sameHost ? provider.id : ProviderId.OpenAICompatible;
+    }
+
+    /**
+     * Identifies the configured embeddings endpoint and model
+     * @returns Key stored with the vectors, or undefined when embeddings are off
+     */
+    private getEmbeddingsKey(): string | undefined {
+        const config = vscode.workspace.getConfiguration('aion');
+        const url = config.get<string>('semanticSearch.embeddings.url', '');
+        return url ? `${url} ${config.get<string>('semanticSearch.embeddings.model', '')}` : undefined;
+    }
+
+    private getWorkspaceRoots(): string[] {
+        return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    }
+
+    private async restore(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, SemanticIndex.INDEX_FILE));
+            const index = JSON.parse(Buffer.from(data).toString('utf-8')) as PersistedSemanticIndex;
+            if (index.version !== SemanticIndex.INDEX_VERSION ||
+                index.workspaceRoots.join('\n') !== this.getWorkspaceRoots().join('\n')) {
+                return;
+            }
+
+            this.embeddings = index.embeddings;
+            for (const file of index.files) {
+                this.files.set(file.path, {
+                    lastModified: file.lastModified,
+                    chunks: file.chunks.map(chunk => ({
+                        ...chunk,
+                        terms: new Map(Object.entries(chunk.terms)),
+                        vector: chunk.vector ? decodeVector(chunk.vector) : undefined
+                    }))
+                });
+            }
+        } catch {
+            // No index yet, or it is unreadable; it is rebuilt from the project
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        const index: PersistedSemanticIndex = {
+            version: SemanticIndex.INDEX_VERSION,
+            workspaceRoots: this.getWorkspaceRoots(),
+            embeddings: this.embeddings,
+            files: [...this.files].map(([filePath, file]) => ({
+                path: filePath,
+                lastModified: file.lastModified,
+                chunks: file.chunks.map(chunk => ({
+                    ...chunk,
+                    terms: Object.fromEntries(chunk.terms),
+                    vector: chunk.vector ? encodeVector(chunk.vector) : undefined
+                }))
+            }))
+        };
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this.storageUri, SemanticIndex.INDEX_FILE),
+                Buffer.from(JSON.stringify(index), 'utf-8')
+            );
+        } catch (error) {
+            console.error('Error saving semantic index:', error);
+        }
+    }
+}
+
+/**
+ * Asks for a query, searches the code and opens the chosen result
+ * @param semanticIndex Index to search
+ */
+export async function semanticSearchCommand(semanticIndex: SemanticIndex): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showWarningMessage('Open a folder to search its code.');
+        return;
+    }
+
+    const query = await vscode.window.showInputBox({
+        title: 'Semantic Code Search',
+        prompt: 'Describe the code you are looking for',
+        placeHolder: 'e.g. where do we validate JWTs?',
+        ignoreFocusOut: true
+    });
+    if (!query?.trim()) {
+        return;
+    }
+
+    const results = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Searching code...' },
+        () => semanticIndex.search(query, 30)
+    );
+    if (results.length === 0) {
+        vscode.window.showInformationMessage(`No code matches "${query}".`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        results.map(result => ({
+            label: result.name,
+            description: `${result.relativePath}:${result.startLine + 1}`,
+            detail: result.kind,
+            result
+        })),
+        { title: `Code matching "${query}"`, matchOnDescription: true }
+    );
+    if (!picked) {
+        return;
+    }
+
+    const { path: filePath, startLine, endLine } = picked.result;
+    try {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        const editor = await vscode.window.showTextDocument(document, {
+            selection: new vscode.Range(startLine, 0, startLine, 0)
+        });
+        editor.revealRange(new vscode.Range(startLine, 0, endLine, 0), vscode.TextEditorRevealType.AtTop);
+    } catch (error) {
+        console.error(`Error opening file ${filePath}:`, error);
+        vscode.window.showErrorMessage(`Could not open ${picked.result.relativePath}.`);
+    }
+}
+
+/**
+ * Splits text into search terms: identifiers are split at camelCase and
+ * snake_case boundaries (the whole identifier is kept too), lowercased,
+ * stemmed and stripped of stop words
+ * @param text Text to split
+ * @returns Terms in order of appearance
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+
+    for (const identifier of text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []) {
+        const parts = identifier
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .split(/[\s_]+/)
+            .map(part => part.toLowerCase())
+            .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+
+        terms.push(...parts.map(stem));
+        if (parts.length > 1) {
+            terms.push(parts.join(''));
+        }
+    }
+
+    return terms;
+}
+
+function stem(word: string): string {
+    if (word.endsWith('ss')) {
+        return word;
+    }
+    for (const [suffix, replacement] of SUFFIXES) {
+        if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+            return word.slice(0, -suffix.length) + replacement;
+        }
+    }
+    return word;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+    const length = Math.sqrt(dot(vector, vector)) || 1;
+    return vector.map(value => value / length);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+function encodeVector(vector: Float32Array): string {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    const bytes = Buffer.from(encoded, 'base64');
+    // Copy into an aligned buffer; Buffer slices may start at any offset
+    return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
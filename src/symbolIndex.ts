@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import { ProjectIndex } from './projectIndex.js';
+
+// A declaration reported by a document symbol provider
+export interface SymbolInfo {
+    name: string;
+    kind: vscode.SymbolKind;
+    containerName?: string;         // Enclosing class, namespace or function
+    uri: vscode.Uri;
+    range: vscode.Range;            // Whole declaration, including its body
+    selectionRange: vscode.Range;   // The declared name
+}
+
+// Symbols that behave like functions: they have callers and callees
+const FUNCTION_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor
+]);
+
+// Symbols worth showing as a definition; members such as fields resolve to their container
+const DEFINITION_KINDS = new Set([
+    ...FUNCTION_KINDS,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.TypeParameter,
+    vscode.SymbolKind.Variable,
+    vscode.SymbolKind.Constant
+]);
+
+// Keywords that never have a definition, skipped to save provider calls
+const KEYWORDS = new Set([
+    'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue', 'return', 'throw', 'try', 'catch',
+    'finally', 'new', 'delete', 'typeof', 'instanceof', 'in', 'of', 'void', 'await', 'async', 'yield', 'const',
+    'let', 'var', 'function', 'class', 'extends', 'implements', 'this', 'super', 'self', 'true', 'false', 'null',
+    'undefined', 'None', 'True', 'False', 'def', 'fn', 'func', 'pub', 'public', 'private', 'protected', 'static',
+    'import', 'export', 'from', 'as', 'is', 'not', 'and', 'or', 'pass', 'lambda', 'with', 'go', 'defer', 'impl',
+    'mut', 'match', 'string', 'number', 'boolean', 'any', 'unknown', 'never', 'int', 'bool', 'str'
+]);
+
+/**
+ * Symbol-level view of the workspace: the functions and classes of each file
+ * and which of them call or use each other, answered by the language
+ * extensions' document symbol, definition and reference providers. Results
+ * are cached until the files involved change.
+ */
+export class SymbolIndex implements vscode.Disposable {
+    // Distinct identifiers looked up per range, to bound the provider calls for long functions
+    private static readonly MAX_LOOKUPS = 100;
+
+    // Provider calls sent to the language extensions at once
+    private static readonly MAX_CONCURRENT_LOOKUPS = 8;
+
+    private symbols: Map<string, Promise<SymbolInfo[]>> = new Map();
+
+    // Callers and callees may live in any file, so these are dropped on every change
+    private callees: Map<string, Promise<SymbolInfo[]>> = new Map();
+    private callers: Map<string, Promise<SymbolInfo[]>> = new Map();
+
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param projectIndex Index reporting changes made outside the editor
+     */
+    constructor(projectIndex: ProjectIndex) {
+        this.disposables.push(
+            // Output channels, diff views and the like are documents too, but their symbols are never asked for
+            vscode.workspace.onDidChangeTextDocument(event => {
+                const scheme = event.document.uri.scheme;
+                if ((scheme === 'file' || scheme === 'untitled') && event.contentChanges.length > 0) {
+                    this.invalidate([event.document.uri.toString()]);
+                }
+            }),
+            projectIndex.onDidChange(delta => this.invalidate([
+                ...delta.added.map(file => vscode.Uri.file(file.path).toString()),
+                ...delta.changed.map(file => vscode.Uri.file(file.path).toString()),
+                ...delta.removed.map(filePath => vscode.Uri.file(filePath).toString())
+            ]))
+        );
+    }
+
+    /**
+     * Gets the declarations of a file, nested ones included
+     * @param uri File to get the symbols of
+     * @returns Promise resolving to the symbols, outer declarations before the ones they contain
+     */
+    public getSymbols(uri: vscode.Uri): Promise<SymbolInfo[]> {
+        const key = uri.toString();
+        let symbols = this.symbols.get(key);
+        if (!symbols) {
+            symbols = this.loadSymbols(uri);
+            this.symbols.set(key, symbols);
+        }
+        return symbols;
+    }
+
+    /**
+     * Finds the innermost function, method or constructor containing a position
+     * @param uri File to search
+     * @param position Position inside the function
+     * @returns Promise resolving to the function, or undefined when there is none
+     */
+    public async findFunctionAt(uri: vscode.Uri, position: vscode.Position): Promise<SymbolInfo | undefined> {
+        const symbols = await this.getSymbols(uri);
+        return innermost(symbols.filter(symbol => FUNCTION_KINDS.has(symbol.kind) && symbol.range.contains(position)));
+    }
+
+    /**
+     * Gets the functions, classes, types and variables a symbol uses
+     * @param symbol Function or class to analyse
+     * @returns Promise resolving to the definitions in order of first use, without the symbol itself
+     */
+    public getCallees(symbol: SymbolInfo): Promise<SymbolInfo[]> {
+        const key = symbolKey(symbol);
+        let callees = this.callees.get(key);
+        if (!callees) {
+            callees = this.getDefinitionsUsedIn(symbol.uri, symbol.range);
+            this.callees.set(key, callees);
+        }
+        return callees;
+    }
+
+    /**
+     * Gets the functions and other declarations that reference a symbol
+     * @param symbol Symbol to find the users of
+     * @returns Promise resolving to the enclosing declaration of each reference outside the symbol
+     */
+    public getCallers(symbol: SymbolInfo): Promise<SymbolInfo[]> {
+        const key = symbolKey(symbol);
+        let callers = this.callers.get(key);
+        if (!callers) {
+            callers = this.findCallers(symbol);
+            this.callers.set(key, callers);
+        }
+        return callers;
+    }
+
+    /**
+     * Resolves every identifier in a range to the declaration it refers to
+     * @param uri File containing the range
+     * @param range Code to analyse, e.g. a selection or a function body
+     * @returns Promise resolving to the declarations in order of first use; declarations inside the range are left out
+     */
+    public async getDefinitionsUsedIn(uri: vscode.Uri, range: vscode.Range): Promise<SymbolInfo[]> {
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(uri);
+        } catch (error) {
+            console.error(`Error opening ${uri.fsPath}:`, error);
+            return [];
+        }
+
+        // One lookup per name; repeated uses almost always resolve to the same declaration
+        const positions = new Map<string, vscode.Position>();
+        const startOffset = document.offsetAt(range.start);
+        const text = document.getText(range);
+        for (const match of text.matchAll(/[A-Za-z_$][\w$]*/g)) {
+            if (positions.size >= SymbolIndex.MAX_LOOKUPS) {
+                break;
+            }
+            if (!KEYWORDS.has(match[0]) && !positions.has(match[0])) {
+                positions.set(match[0], document.positionAt(startOffset + match.index!));
+            }
+        }
+
+        const lookups = await mapWithConcurrency(
+            [...positions.values()],
+            SymbolIndex.MAX_CONCURRENT_LOOKUPS,
+            position => this.getDefinitionLocations(uri, position)
+        );
+
+        const definitions = new Map<string, SymbolInfo>();
+        for (const locations of lookups) {
+            for (const location of locations) {
+                // Parameters and locals are declared inside the range itself
+                if (location.uri.toString() === uri.toString() && range.contains(location.range)) {
+                    continue;
+                }
+                // Library and standard library declarations are not part of the project
+                if (location.uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(location.uri)) {
+                    continue;
+                }
+
+                const definition = await this.findDefinitionAt(location);
+                if (definition && !definitions.has(symbolKey(definition)) &&
+                    !(definition.uri.toString() === uri.toString() && definition.range.contains(range))) {
+                    definitions.set(symbolKey(definition), definition);
+                }
+            }
+        }
+
+        return [...definitions.values()];
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    /**
+     * Forgets cached symbols of changed files and all call relations
+     * @param uris Changed files
+     */
+    private invalidate(uris: string[]): void {
+        if (uris.length === 0) {
+            return;
+        }
+        uris.forEach(uri => this.symbols.delete(uri));
+        this.callees.clear();
+        this.callers.clear();
+    }
+
+    /**
+     * Runs the document symbol provider and flattens its tree
+     * @param uri File to get the symbols of
+     * @returns Promise resolving to the symbols, or an empty list when no provider answered
+     */
+    private async loadSymbols(uri: vscode.Uri): Promise<SymbolInfo[]> {
+        let provided: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+        try {
+            provided = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider',
+                uri
+            );
+        } catch (error) {
+            console.error('Error getting document symbols:', error);
+        }
+
+        const symbols: SymbolInfo[] = [];
+        const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation, containerName?: string) => {
+            // Some providers still answer with flat SymbolInformation
+            if ('location' in symbol) {
+                symbols.push({
+                    name: symbol.name,
+                    kind: symbol.kind,
+                    containerName: symbol.containerName || undefined,
+                    uri,
+                    range: symbol.location.range,
+                    selectionRange: symbol.location.range
+                });
+                return;
+            }
+
+            symbols.push({
+                name: symbol.name,
+                kind: symbol.kind,
+                containerName,
+                uri,
+                range: symbol.range,
+                selectionRange: symbol.selectionRange
+            });
+            symbol.children.forEach(child => visit(child, symbol.name));
+        };
+        (provided ?? []).forEach(symbol => visit(symbol));
+
+        return symbols;
+    }
+
+    /**
+     * Runs the definition provider at a position
+     * @param uri File containing the position
+     * @param position Position of an identifier
+     * @returns Promise resolving to the declaration locations
+     */
+    private async getDefinitionLocations(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+        try {
+            const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+                'vscode.executeDefinitionProvider',
+                uri,
+                position
+            ) ?? [];
+            return results.map(result => 'targetUri' in result
+                ? new vscode.Location(result.targetUri, result.targetSelectionRange ?? result.targetRange)
+                : result);
+        } catch (error) {
+            console.error('Error getting definitions:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Finds the declaration a definition location belongs to. Members such as
+     * fields resolve to their class, interface or enum.
+     * @param location Location returned by a definition provider
+     * @returns Promise resolving to the declaration, or undefined when the file has no symbol there
+     */
+    private async findDefinitionAt(location: vscode.Location): Promise<SymbolInfo | undefined> {
+        const symbols = await this.getSymbols(location.uri);
+        const containing = symbols.filter(symbol => symbol.range.contains(location.range.start));
+
+        // Innermost first; the outermost symbol is the fallback
+        containing.sort((a, b) => rangeSize(a.range) - rangeSize(b.range));
+        return containing.find(symbol => DEFINITION_KINDS.has(symbol.kind)) ?? containing[containing.length - 1];
+    }
+
+    /**
+     * Maps the references to a symbol to the declarations they occur in
+     * @param symbol Symbol to find the users of
+     * @returns Promise resolving to the callers in reference order
+     */
+    private async findCallers(symbol: SymbolInfo): Promise<SymbolInfo[]> {
+        let references: vscode.Location[] = [];
+        try {
+            references = await vscode.commands.executeCommand<vscode.Location[]>(
+                'vscode.executeReferenceProvider',
+                symbol.uri,
+                symbol.selectionRange.start
+            ) ?? [];
+        } catch (error) {
+            console.error('Error getting references:', error);
+        }
+
+        // The declaration itself and recursive calls are not callers
+        const outside = references.filter(reference =>
+            reference.uri.toString() !== symbol.uri.toString() || !symbol.range.contains(reference.range));
+        const found = await mapWithConcurrency(
+            outside,
+            SymbolIndex.MAX_CONCURRENT_LOOKUPS,
+            reference => this.findDefinitionAt(reference)
+        );
+
+        const callers = new Map<string, SymbolInfo>();
+        for (const caller of found) {
+            if (caller && !callers.has(symbolKey(caller))) {
+                callers.set(symbolKey(caller), caller);
+            }
+        }
+
+        return [...callers.values()];
+    }
+}
+
+function symbolKey(symbol: SymbolInfo): string {
+    return `${symbol.uri.toString()}#${symbol.range.start.line}:${symbol.range.start.character}:${symbol.name}`;
+}
+
+function innermost(symbols: SymbolInfo[]): SymbolInfo | undefined {
+    return symbols.reduce<SymbolInfo | undefined>(
+        (best, symbol) => !best || rangeSize(symbol.range) < rangeSize(best.range) ? symbol : best,
+        undefined
+    );
+}
+
+// Orders ranges by how many lines, then characters, they cover
+function rangeSize(range: vscode.Range): number {
+    return (range.end.line - range.start.line) * 100000 + (range.end.character - range.start.character);
+}
+
+/**
+ * Maps items with an async function, running at most a given number of calls at a time
+ * @param items Items to map
+ * @param limit Maximum number of calls in flight
+ * @param map Function to apply
+ * @returns Promise resolving to the results in item order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, map: (item: T) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const work = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await map(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, work));
+    return results;
+}
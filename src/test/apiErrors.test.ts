@@ -0,0 +1,169 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { ApiError, ApiErrorKind, RetryOptions, withRetries } from '../apiErrors.js';
+
+// A canned reply of the mock server
+interface MockResponse {
+    status: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+    delayMs?: number;       // Wait before answering, to cancel requests in flight
+}
+
+/**
+ * Local HTTP server answering each request with the next canned reply
+ */
+class MockServer {
+    public requests = 0;
+    private server: http.Server;
+
+    constructor(private responses: MockResponse[]) {
+        this.server = http.createServer((request, response) => {
+            const reply = this.responses[Math.min(this.requests, this.responses.length - 1)];
+            this.requests++;
+            request.resume();
+            setTimeout(() => {
+                response.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+                response.end(JSON.stringify(reply.body ?? {}));
+            }, reply.delayMs ?? 0);
+        });
+    }
+
+    public async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/chat/completions`;
+    }
+
+    public stop(): Promise<void> {
+        this.server.closeAllConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+suite('API Error Handling Test Suite', () => {
+    let server: MockServer | undefined;
+
+    // Short delays keep the suite fast; the Retry-After test waits one real second
+    const options: RetryOptions = { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 5000 };
+
+    teardown(async () => {
+        await server?.stop();
+        server = undefined;
+    });
+
+    /**
+     * Starts a mock server and posts a completion request to it with retries
+     * @param responses Replies of the server, the last one repeating
+     * @param retryOptions Options overriding the fast defaults
+     * @returns Promise resolving to the response body
+     */
+    async function request(responses: MockResponse[], retryOptions: Partial<RetryOptions> = {}): Promise<unknown> {
+        server = new MockServer(responses);
+        const url = await server.start();
+        const merged = { ...options, ...retryOptions };
+        return withRetries(
+            async () => (await axios.post(url, { model: 'test' }, { signal: merged.signal })).data,
+            'Test Provider',
+            merged
+        );
+    }
+
+    test('429 is retried after Retry-After', async () => {
+        const retries: ApiError[] = [];
+        const start = Date.now();
+        const result = await request([
+            { status: 429, headers: { 'Retry-After': '1' }, body: { error: { message: 'Rate limit exceeded' } } },
+            { status: 200, body: { answer: 'ok' } }
+        ], { onRetry: (error, delayMs) => { retries.push(error); assert.strictEqual(delayMs, 1000); } });
+
+        assert.deepStrictEqual(result, { answer: 'ok' });
+        assert.strictEqual(server!.requests, 2);
+        assert.strictEqual(retries[0].kind, ApiErrorKind.RateLimit);
+        assert.ok(Date.now() - start >= 1000, 'the retry waited for Retry-After');
+    });
+
+    test('Retry-After longer than the longest wait is not waited for', async () => {
+        await assert.rejects(
+            request([{ status: 429, headers: { 'Retry-After': '120' } }]),
+            (error: ApiError) => error.kind === ApiErrorKind.RateLimit && error.retryAfterMs === 120000
+        );
+        assert.strictEqual(server!.requests, 1);
+    });
+
+    test('5xx is retried with backoff until it succeeds', async () => {
+        const delays: number[] = [];
+        const result = await request([
+            { status: 503 },
+            { status: 502 },
+            { status: 200, body: { answer: 'ok' } }
+        ], { onRetry: (error, delayMs) => { assert.strictEqual(error.kind, ApiErrorKind.Server); delays.push(delayMs); } });
+
+        assert.deepStrictEqual(result, { answer: 'ok' });
+        assert.strictEqual(server!.requests, 3);
+        // Half to all of 10ms, then of 20ms
+        assert.ok(delays[0] >= 5 && delays[0] <= 10, `first delay ${delays[0]}`);
+        assert.ok(delays[1] >= 10 && delays[1] <= 20, `second delay ${delays[1]}`);
+    });
+
+    test('5xx gives up after the last retry', async () => {
+        await assert.rejects(
+            request([{ status: 500 }], { maxRetries: 2 }),
+            (error: ApiError) => error.kind === ApiErrorKind.Server && error.status === 500
+        );
+        assert.strictEqual(server!.requests, 3);
+    });
+
+    test('401 is not retried', async () => {
+        await assert.rejects(
+            request([{ status: 401, body: { error: { message: 'Invalid API key' } } }]),
+            (error: ApiError) => {
+                assert.strictEqual(error.kind, ApiErrorKind.Auth);
+                assert.strictEqual(error.status, 401);
+                assert.match(error.message, /Invalid API key/);
+                return true;
+            }
+        );
+        assert.strictEqual(server!.requests, 1);
+    });
+
+    test('Context length errors are classified and not retried', async () => {
+        await assert.rejects(
+            request([{
+                status: 400,
+                body: { error: { message: 'This model\'s maximum context length is 8192 tokens. However, you requested 9000 tokens.' } }
+            }]),
+            (error: ApiError) => error.kind === ApiErrorKind.ContextLength
+        );
+        assert.strictEqual(server!.requests, 1);
+    });
+
+    test('Other 400 errors are not mistaken for context length', async () => {
+        await assert.rejects(
+            request([{ status: 400, body: { error: { message: 'Unknown model: test' } } }]),
+            (error: ApiError) => error.kind === ApiErrorKind.Request
+        );
+    });
+
+    test('Aborting cancels a request in flight', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+        await assert.rejects(
+            request([{ status: 200, delayMs: 5000 }], { signal: controller.signal }),
+            (error: unknown) => axios.isCancel(error)
+        );
+        assert.strictEqual(server!.requests, 1);
+    });
+
+    test('Aborting cancels the wait before a retry', async () => {
+        const controller = new AbortController();
+        const start = Date.now();
+        const pending = request([{ status: 503 }], { signal: controller.signal, baseDelayMs: 4000 });
+        setTimeout(() => controller.abort(), 100);
+
+        await assert.rejects(pending, (error: unknown) => axios.isCancel(error));
+        assert.strictEqual(server!.requests, 1);
+        assert.ok(Date.now() - start < 2000, 'the backoff was cut short');
+    });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { DependencyGraph, DependencyManager, DependencyType } from '../dependencyManager.js';
+import { FileInfo, FileType } from '../projectScanner.js';
+
+/**
+ * Builds a dependency graph from a list of imports
+ * @param files Every file of the graph
+ * @param imports Pairs of importing and imported file
+ * @returns Graph with one internal import per pair
+ */
+function buildGraph(files: string[], imports: [string, string][]): DependencyGraph {
+    const graph: DependencyGraph = { nodes: new Map(), edges: new Map() };
+    for (const file of files) {
+        const info: FileInfo = {
+            path: file,
+            relativePath: file,
+            name: file,
+            extension: '.ts',
+            type: FileType.TypeScript,
+            size: 0,
+            lastModified: new Date(0)
+        };
+        graph.nodes.set(file, info);
+    }
+    for (const [source, target] of imports) {
+        if (!graph.edges.has(source)) {
+            graph.edges.set(source, new Map());
+        }
+        graph.edges.get(source)!.set(target, { source, target, type: DependencyType.Import, isExternal: false });
+    }
+    return graph;
+}
+
+suite('Circular Dependency Test Suite', () => {
+    const manager = new DependencyManager();
+
+    test('A file importing itself is a group of one', () => {
+        const graph = buildGraph(['a.ts', 'b.ts'], [['a.ts', 'a.ts'], ['b.ts', 'a.ts']]);
+
+        assert.deepStrictEqual(manager.findCircularDependencyGroups(graph), [
+            { files: ['a.ts'], edgeCount: 1, cycles: [['a.ts', 'a.ts']] }
+        ]);
+    });
+
+    test('Files without cycles form no group', () => {
+        const graph = buildGraph(['a.ts', 'b.ts', 'c.ts'], [['a.ts', 'b.ts'], ['b.ts', 'c.ts'], ['a.ts', 'c.ts']]);
+
+        assert.deepStrictEqual(manager.findCircularDependencyGroups(graph), []);
+    });
+
+    test('Disjoint cycles are separate groups, largest first', () => {
+        const graph = buildGraph(
+            ['a.ts', 'b.ts', 'x.ts', 'y.ts', 'z.ts', 'leaf.ts'],
+            [
+                ['a.ts', 'b.ts'], ['b.ts', 'a.ts'],
+                ['z.ts', 'x.ts'], ['x.ts', 'y.ts'], ['y.ts', 'z.ts'],
+                ['a.ts', 'leaf.ts'], ['x.ts', 'leaf.ts']
+            ]
+        );
+
+        assert.deepStrictEqual(manager.findCircularDependencyGroups(graph), [
+            { files: ['x.ts', 'y.ts', 'z.ts'], edgeCount: 3, cycles: [['x.ts', 'y.ts', 'z.ts', 'x.ts']] },
+            { files: ['a.ts', 'b.ts'], edgeCount: 2, cycles: [['a.ts', 'b.ts', 'a.ts']] }
+        ]);
+    });
+
+    test('Cycles are the shortest ones covering the group, rotated to start at their smallest file', () => {
+        // a.ts is on a short cycle with b.ts and a long one with c.ts and d.ts; the
+        // cycle through c.ts is found from c.ts and then rotated to start at a.ts
+        const graph = buildGraph(
+            ['a.ts', 'b.ts', 'c.ts', 'd.ts'],
+            [['a.ts', 'b.ts'], ['b.ts', 'a.ts'], ['a.ts', 'c.ts'], ['c.ts', 'd.ts'], ['d.ts', 'a.ts']]
+        );
+
+        const groups = manager.findCircularDependencyGroups(graph);
+        assert.strictEqual(groups.length, 1);
+        assert.deepStrictEqual(groups[0].cycles, [
+            ['a.ts', 'b.ts', 'a.ts'],
+            ['a.ts', 'c.ts', 'd.ts', 'a.ts']
+        ]);
+        assert.deepStrictEqual(manager.findCircularDependencies(graph), groups[0].cycles);
+    });
+
+    test('The number of cycles per group is limited', () => {
+        // Every file imports the hub and the hub imports every file
+        const spokes = ['b.ts', 'c.ts', 'd.ts', 'e.ts'];
+        const graph = buildGraph(['a.ts', ...spokes], spokes.flatMap(spoke => [
+            ['a.ts', spoke] as [string, string],
+            [spoke, 'a.ts'] as [string, string]
+        ]));
+
+        const [group] = manager.findCircularDependencyGroups(graph, 2);
+        assert.strictEqual(group.edgeCount, 8);
+        assert.deepStrictEqual(group.cycles, [['a.ts', 'b.ts', 'a.ts'], ['a.ts', 'c.ts', 'a.ts']]);
+    });
+
+    test('Long import chains do not overflow the stack', () => {
+        // Deeper than any recursive walk could go
+        const files = Array.from({ length: 50000 }, (_, i) => `f${String(i).padStart(5, '0')}.ts`);
+        const chain = files.slice(1).map((file, i) => [files[i], file] as [string, string]);
+
+        assert.deepStrictEqual(manager.findCircularDependencyGroups(buildGraph(files, chain)), []);
+
+        // Closing the chain makes one group with one cycle through every file
+        const [group, ...others] = manager.findCircularDependencyGroups(
+            buildGraph(files, [...chain, [files[files.length - 1], files[0]]])
+        );
+        assert.strictEqual(others.length, 0);
+        assert.strictEqual(group.files.length, files.length);
+        assert.strictEqual(group.edgeCount, files.length);
+        assert.deepStrictEqual(group.cycles, [[...files, files[0]]]);
+    });
+});
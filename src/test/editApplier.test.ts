@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import { EditApplier, EditHunk } from '../editApplier.js';
+
+// A small document, one statement per line
+const DOCUMENT = [
+    'import { readFile } from \'fs\';',
+    '',
+    'export function load(path: string) {',
+    '    const text = readFile(path);',
+    '    return text;',
+    '}',
+    '',
+    'export function save(path: string) {',
+    '    return path;',
+    '}',
+    '',
+    'export function close() {',
+    '    return;',
+    '}'
+];
+
+suite('Edit Applier Test Suite', () => {
+    const applier = new EditApplier();
+
+    test('Fenced blocks are parsed in order, diffs by language or content', () => {
+        const response = [
+            'Change the loader:',
+            '```ts title="src/load.ts"',
+            'export function load() {}',
+            '```',
+            'Or as a patch:',
+            '```',
+            '--- a/src/load.ts',
+            '+++ b/src/load.ts',
+            '@@ -1,1 +1,1 @@',
+            '-old',
+            '+new',
+            '```',
+            '```patch',
+            '@@ -3 +3 @@',
+            '-a',
+            '+b',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(applier.parseProposals(response), [
+            { kind: 'code', language: 'ts', text: 'export function load() {}' },
+            { kind: 'diff', language: '', filePath: 'src/load.ts', text: '--- a/src/load.ts\n+++ b/src/load.ts\n@@ -1,1 +1,1 @@\n-old\n+new' },
+            { kind: 'diff', language: 'patch', filePath: undefined, text: '@@ -3 +3 @@\n-a\n+b' }
+        ]);
+    });
+
+    test('An unfenced diff is a proposal, plain prose is not', () => {
+        assert.deepStrictEqual(applier.parseProposals('@@ -1 +1 @@\n-a\n+b'), [
+            { kind: 'diff', filePath: undefined, text: '@@ -1 +1 @@\n-a\n+b' }
+        ]);
+        assert.deepStrictEqual(applier.parseProposals('Nothing to change here.'), []);
+    });
+
+    test('Multi-hunk diffs are located and narrowed to the changed lines', () => {
+        const diff = [
+            '@@ -3,4 +3,4 @@',
+            ' export function load(path: string) {',
+            '-    const text = readFile(path);',
+            '+    const text = readFile(path, \'utf-8\');',
+            '     return text;',
+            ' }',
+            '@@ -8,3 +8,4 @@',
+            ' export function save(path: string) {',
+            '+    console.log(path);',
+            '     return path;',
+            ' }'
+        ].join('\n');
+
+        assert.deepStrictEqual(applier['hunksFromDiff'](DOCUMENT, diff), [
+            {
+                originalStart: 3,
+                originalEnd: 4,
+                newLines: ['    const text = readFile(path, \'utf-8\');'],
+                removedLines: ['    const text = readFile(path);']
+            },
+            { originalStart: 8, originalEnd: 8, newLines: ['    console.log(path);'], removedLines: [] }
+        ]);
+    });
+
+    test('Hunks with wrong line numbers are found near them', () => {
+        const diff = '@@ -1,3 +1,2 @@\n export function close() {\n-    return;\n }';
+
+        assert.deepStrictEqual(applier['hunksFromDiff'](DOCUMENT, diff), [
+            { originalStart: 12, originalEnd: 13, newLines: [], removedLines: ['    return;'] }
+        ]);
+    });
+
+    test('Blank context lines without their leading space still match', () => {
+        const diff = '@@ -5,3 +5,3 @@\n     return text;\n }\n\n-export function save(path: string) {\n+export function save(path: string): void {';
+
+        assert.deepStrictEqual(applier['hunksFromDiff'](DOCUMENT, diff), [{
+            originalStart: 7,
+            originalEnd: 8,
+            newLines: ['export function save(path: string): void {'],
+            removedLines: ['export function save(path: string) {']
+        }]);
+    });
+
+    test('A diff that does not match the document is rejected', () => {
+        const diff = '@@ -3,2 +3,2 @@\n export function load(path: string) {\n-    const data = fetch(path);\n+    const data = get(path);';
+
+        assert.strictEqual(applier['hunksFromDiff'](DOCUMENT, diff), undefined);
+    });
+
+    test('CRLF answers and diffs apply like LF ones', () => {
+        const response = '```diff\r\n@@ -9,2 +9,2 @@\r\n-    return path;\r\n+    return path.trim();\r\n }\r\n```\r\n';
+        const [proposal] = applier.parseProposals(response);
+
+        assert.strictEqual(proposal.kind, 'diff');
+        assert.deepStrictEqual(applier['hunksFromDiff'](DOCUMENT, proposal.text), [{
+            originalStart: 8,
+            originalEnd: 9,
+            newLines: ['    return path.trim();'],
+            removedLines: ['    return path;']
+        }]);
+
+        const added = '```diff\r\n@@ -13,2 +13,3 @@\r\n     return;\r\n }\r\n+export default close;\r\n```';
+        assert.deepStrictEqual(applier['hunksFromDiff'](DOCUMENT, applier.parseProposals(added)[0].text), [
+            { originalStart: 14, originalEnd: 14, newLines: ['export default close;'], removedLines: [] }
+        ]);
+    });
+
+    test('Snippets anchor on their first and last lines', () => {
+        const snippet = ['export function save(path: string) {', '    return path.trim();', '}'];
+
+        assert.deepStrictEqual(applier['anchorLines'](DOCUMENT, snippet), { start: 7, end: 10 });
+    });
+
+    test('Of repeated anchor lines, the span closest to the snippet length wins', () => {
+        // "}" closes every function; the one three lines below the start is picked
+        const snippet = ['export function load(path: string) {', '    const text = readFile(path);', '    return text.trim();', '}'];
+
+        assert.deepStrictEqual(applier['anchorLines'](DOCUMENT, snippet), { start: 2, end: 6 });
+    });
+
+    test('Indentation does not stop a snippet from anchoring', () => {
+        assert.deepStrictEqual(applier['anchorLines'](DOCUMENT, ['return text;']), { start: 4, end: 5 });
+    });
+
+    test('Snippets whose first or last line is not in the document do not anchor', () => {
+        assert.strictEqual(applier['anchorLines'](DOCUMENT, ['export function open() {', '    return;', '}']), undefined);
+        assert.strictEqual(applier['anchorLines'](DOCUMENT, ['export function close() {', '    return 0;', '};']), undefined);
+        assert.strictEqual(applier['anchorLines'](DOCUMENT, []), undefined);
+    });
+
+    test('A multi-line snippet never anchors on a single line', () => {
+        assert.strictEqual(applier['anchorLines'](['}'], ['}', '}']), undefined);
+    });
+
+    // Original lines, proposed lines and the hunks between them
+    const diffCases: [string, string[], string[], EditHunk[]][] = [
+        ['identical', ['a', 'b'], ['a', 'b'], []],
+        ['insertion', ['a', 'c'], ['a', 'b', 'c'], [{ originalStart: 1, originalEnd: 1, newLines: ['b'], removedLines: [] }]],
+        ['deletion', ['a', 'b', 'c'], ['a', 'c'], [{ originalStart: 1, originalEnd: 2, newLines: [], removedLines: ['b'] }]],
+        ['replacement', ['a', 'b', 'c'], ['a', 'x', 'y', 'c'], [{ originalStart: 1, originalEnd: 2, newLines: ['x', 'y'], removedLines: ['b'] }]],
+        ['separate changes', ['a', 'b', 'c', 'd', 'e'], ['a', 'B', 'c', 'd', 'E'], [
+            { originalStart: 1, originalEnd: 2, newLines: ['B'], removedLines: ['b'] },
+            { originalStart: 4, originalEnd: 5, newLines: ['E'], removedLines: ['e'] }
+        ]],
+        ['everything new', [], ['a'], [{ originalStart: 0, originalEnd: 0, newLines: ['a'], removedLines: [] }]]
+    ];
+
+    for (const [name, oldLines, newLines, expected] of diffCases) {
+        test(`Line diff: ${name}`, () => {
+            assert.deepStrictEqual(applier['diffLines'](oldLines, newLines), expected);
+        });
+    }
+});
@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import { Dependency, DependencyGraph, DependencyManager, DependencyType } from '../dependencyManager.js';
+import { FileType } from '../projectScanner.js';
+import { createGraphExport, formatGraphExport } from '../graphExport.js';
+
+/**
+ * Builds a small graph: app.ts and util.ts import each other, app.ts
+ * references types.ts for types only, util.ts re-exports it, and a file with
+ * quotes and a pipe in its name imports util.ts. Paths are relative, so
+ * node ids do not depend on the open workspace.
+ * @param lastModified Modification time given to every file
+ * @returns Dependency graph
+ */
+function buildGraph(lastModified: Date): DependencyGraph {
+    const graph: DependencyGraph = { nodes: new Map(), edges: new Map() };
+    const files: [string, FileType, number][] = [
+        ['src/app.ts', FileType.TypeScript, 120],
+        ['src/util.ts', FileType.TypeScript, 80],
+        ['src/types.ts', FileType.TypeScript, 40],
+        ['src/"odd|name".js', FileType.JavaScript, 10]
+    ];
+    for (const [filePath, type, size] of files) {
+        graph.nodes.set(filePath, {
+            path: filePath,
+            relativePath: filePath,
+            name: filePath.slice(filePath.lastIndexOf('/') + 1),
+            extension: filePath.slice(filePath.lastIndexOf('.')),
+            type,
+            size,
+            lastModified
+        });
+    }
+
+    const dependencies: Dependency[] = [
+        { source: 'src/app.ts', target: 'src/util.ts', type: DependencyType.Import, symbols: ['format', 'parse', 'format'], lineNumbers: [4, 0], isExternal: false },
+        { source: 'src/app.ts', target: 'src/types.ts', type: DependencyType.Reference, isTypeOnly: true, symbols: ['Options'], isExternal: false },
+        { source: 'src/app.ts', target: 'lodash', type: DependencyType.Import, isExternal: true },
+        { source: 'src/util.ts', target: 'src/app.ts', type: DependencyType.Import, lineNumbers: [2], isExternal: false },
+        { source: 'src/util.ts', target: 'src/types.ts', type: DependencyType.Export, symbols: ['*'], isExternal: false },
+        { source: 'src/"odd|name".js', target: 'src/util.ts', type: DependencyType.Import, isExternal: false }
+    ];
+    for (const dependency of dependencies) {
+        if (!graph.edges.has(dependency.source)) {
+            graph.edges.set(dependency.source, new Map());
+        }
+        graph.edges.get(dependency.source)!.set(dependency.target, dependency);
+    }
+    return graph;
+}
+
+suite('Graph Export Test Suite', () => {
+    const manager = new DependencyManager();
+    const data = createGraphExport(buildGraph(new Date(0)), manager);
+
+    test('DOT output', () => {
+        assert.strictEqual(formatGraphExport(data, 'dot'), [
+            'digraph dependencies {',
+            '    rankdir=LR;',
+            '    node [shape=box, fontname="Helvetica", fontsize=10];',
+            '    "src/\\"odd|name\\".js" [label="src/\\"odd|name\\".js", tooltip="javascript"];',
+            '    "src/app.ts" [label="src/app.ts", tooltip="typescript"];',
+            '    "src/types.ts" [label="src/types.ts", tooltip="typescript"];',
+            '    "src/util.ts" [label="src/util.ts", tooltip="typescript"];',
+            '    "src/\\"odd|name\\".js" -> "src/util.ts";',
+            '    "src/app.ts" -> "src/types.ts" [label="reference", style=dashed];',
+            '    "src/app.ts" -> "src/util.ts" [color=red];',
+            '    "src/util.ts" -> "src/app.ts" [color=red];',
+            '    "src/util.ts" -> "src/types.ts" [label="export"];',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    test('Mermaid output', () => {
+        assert.strictEqual(formatGraphExport(data, 'mermaid'), [
+            'graph LR',
+            '    n0["src/#quot;odd#124;name#quot;.js"]',
+            '    n1["src/app.ts"]',
+            '    n2["src/types.ts"]',
+            '    n3["src/util.ts"]',
+            '    n0 --> n3',
+            '    n1 -.->|reference| n2',
+            '    n1 --> n3',
+            '    n3 --> n1',
+            '    n3 -->|export| n2',
+            '    linkStyle 2,3 stroke:#d33,stroke-width:2px',
+            ''
+        ].join('\n'));
+    });
+
+    test('JSON output', () => {
+        const node = (id: string, type: FileType, size: number) => ({
+            id,
+            relativePath: id,
+            name: id.slice(id.lastIndexOf('/') + 1),
+            extension: id.slice(id.lastIndexOf('.')),
+            type,
+            size
+        });
+        const expected = {
+            version: 2,
+            nodes: [
+                node('src/"odd|name".js', FileType.JavaScript, 10),
+                node('src/app.ts', FileType.TypeScript, 120),
+                node('src/types.ts', FileType.TypeScript, 40),
+                node('src/util.ts', FileType.TypeScript, 80)
+            ],
+            edges: [
+                { source: 'src/"odd|name".js', target: 'src/util.ts', type: 'import' },
+                { source: 'src/app.ts', target: 'src/types.ts', type: 'reference', isTypeOnly: true, symbols: ['Options'] },
+                { source: 'src/app.ts', target: 'src/util.ts', type: 'import', inCycle: true, symbols: ['format', 'parse'], lines: [1, 5] },
+                { source: 'src/util.ts', target: 'src/app.ts', type: 'import', inCycle: true, lines: [3] },
+                { source: 'src/util.ts', target: 'src/types.ts', type: 'export', symbols: ['*'] }
+            ],
+            cycles: [['src/app.ts', 'src/util.ts']]
+        };
+
+        assert.strictEqual(formatGraphExport(data, 'json'), JSON.stringify(expected, null, 2) + '\n');
+    });
+
+    test('Subgraph output marks the root', () => {
+        const subgraph = createGraphExport(buildGraph(new Date(0)), manager, { root: 'src/util.ts', depth: 1 });
+
+        assert.strictEqual(formatGraphExport(subgraph, 'mermaid'), [
+            'graph LR',
+            '    n0["src/app.ts"]',
+            '    n1["src/types.ts"]',
+            '    n2["src/util.ts"]',
+            '    n0 -.->|reference| n1',
+            '    n0 --> n2',
+            '    n2 --> n0',
+            '    n2 -->|export| n1',
+            '    linkStyle 1,2 stroke:#d33,stroke-width:2px',
+            '    style n2 stroke-width:3px',
+            ''
+        ].join('\n'));
+    });
+
+    test('Exports do not depend on modification times', () => {
+        const touched = createGraphExport(buildGraph(new Date()), manager);
+
+        for (const format of ['dot', 'mermaid', 'json'] as const) {
+            assert.strictEqual(formatGraphExport(touched, format), formatGraphExport(data, format));
+        }
+    });
+});
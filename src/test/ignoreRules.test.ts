@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreMatcher, compileIgnoreRule, evaluateIgnoreRules, globToRegExp } from '../ignoreRules.js';
+
+suite('Ignore Rules Test Suite', () => {
+    let root: string | undefined;
+
+    teardown(() => {
+        if (root) {
+            fs.rmSync(root, { recursive: true, force: true });
+            root = undefined;
+        }
+    });
+
+    /**
+     * Creates a workspace folder with the given files in a temporary directory
+     * @param files Contents by relative path
+     * @returns Absolute path of the folder
+     */
+    function createWorkspace(files: Record<string, string>): string {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'aion-ignore-'));
+        for (const [relativePath, content] of Object.entries(files)) {
+            const filePath = path.join(root, ...relativePath.split('/'));
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content);
+        }
+        return root;
+    }
+
+    // Glob, path, whether the glob matches
+    const globCases: [string, string, boolean][] = [
+        ['*.ts', 'a.ts', true],
+        ['*.ts', 'src/a.ts', false],
+        ['**/*.ts', 'a.ts', true],
+        ['**/*.ts', 'src/deep/a.ts', true],
+        ['**/.env*', '.env', true],
+        ['**/.env*', 'config/.env.local', true],
+        ['**/.env*', 'config/env', false],
+        ['src/**', 'src/a/b.ts', true],
+        ['src/**', 'lib/src/a.ts', false],
+        ['src/{gen,build}/**', 'src/gen/a.ts', true],
+        ['src/{gen,build}/**', 'src/build/x/y.js', true],
+        ['src/{gen,build}/**', 'src/other/a.ts', false],
+        ['file?.js', 'file1.js', true],
+        ['file?.js', 'file10.js', false],
+        ['[!a]*.md', 'b.md', true],
+        ['[!a]*.md', 'a.md', false],
+        ['a.b', 'axb', false]
+    ];
+
+    for (const [glob, relativePath, expected] of globCases) {
+        test(`Glob ${glob} ${expected ? 'matches' : 'does not match'} ${relativePath}`, () => {
+            assert.strictEqual(globToRegExp(glob).test(relativePath), expected);
+        });
+    }
+
+    // Ignore file lines, path, whether it is a directory, and the verdict (undefined when no rule matches)
+    const ruleCases: [string[], string, boolean, boolean | undefined][] = [
+        // Patterns without a slash match at any depth
+        [['*.log'], 'debug.log', false, true],
+        [['*.log'], 'logs/deep/debug.log', false, true],
+        // A leading or middle slash anchors the pattern to the ignore file's directory
+        [['/build'], 'build', true, true],
+        [['/build'], 'src/build', true, undefined],
+        [['doc/*.txt'], 'doc/notes.txt', false, true],
+        [['doc/*.txt'], 'doc/sub/notes.txt', false, undefined],
+        [['doc/*.txt'], 'src/doc/notes.txt', false, undefined],
+        // "**" spans any number of directories
+        [['**/logs'], 'logs', true, true],
+        [['**/logs'], 'a/b/logs', true, true],
+        [['a/**/b'], 'a/b', false, true],
+        [['a/**/b'], 'a/x/y/b', false, true],
+        [['abc/**'], 'abc/x/y', false, true],
+        [['abc/**'], 'abc', true, undefined],
+        // The last matching rule wins
+        [['*.log', '!important.log'], 'important.log', false, false],
+        [['*.log', '!important.log'], 'other.log', false, true],
+        [['!important.log', '*.log'], 'important.log', false, true],
+        // A trailing slash matches directories only
+        [['build/'], 'build', true, true],
+        [['build/'], 'build', false, undefined],
+        [['build/'], 'src/build', true, true],
+        // Escapes, comments and trailing spaces
+        [['\\!bang'], '!bang', false, true],
+        [['\\#hash'], '#hash', false, true],
+        [['# comment', ''], 'comment', false, undefined],
+        [['temp   '], 'temp', false, true]
+    ];
+
+    for (const [lines, relativePath, isDirectory, expected] of ruleCases) {
+        test(`Ignore rules ${JSON.stringify(lines)} on ${relativePath}${isDirectory ? '/' : ''} give ${expected}`, () => {
+            const rules = lines.map(line => compileIgnoreRule(line)).filter(rule => rule !== undefined);
+            assert.strictEqual(evaluateIgnoreRules(rules, relativePath, isDirectory), expected);
+        });
+    }
+
+    test('Blank lines and comments compile to no rule', () => {
+        assert.strictEqual(compileIgnoreRule(''), undefined);
+        assert.strictEqual(compileIgnoreRule('   '), undefined);
+        assert.strictEqual(compileIgnoreRule('# build'), undefined);
+        assert.strictEqual(compileIgnoreRule('/'), undefined);
+    });
+
+    test('Rules of nested ignore files only apply below their directory', () => {
+        const rules = [compileIgnoreRule('*.tmp', 'src')!, compileIgnoreRule('/out', 'src')!];
+
+        assert.strictEqual(evaluateIgnoreRules(rules, 'src/a.tmp', false), true);
+        assert.strictEqual(evaluateIgnoreRules(rules, 'src/deep/a.tmp', false), true);
+        assert.strictEqual(evaluateIgnoreRules(rules, 'a.tmp', false), undefined);
+        assert.strictEqual(evaluateIgnoreRules(rules, 'src/out', true), true);
+        assert.strictEqual(evaluateIgnoreRules(rules, 'src/lib/out', true), undefined);
+    });
+
+    test('Files in an excluded directory cannot be re-included', async () => {
+        const folder = createWorkspace({
+            '.gitignore': 'build/\n!build/keep.txt\n*.gen.ts\n!src/keep.gen.ts\n',
+            'build/keep.txt': '',
+            'src/app.gen.ts': '',
+            'src/keep.gen.ts': '',
+            'src/app.ts': ''
+        });
+        const matcher = new IgnoreMatcher(folder);
+
+        assert.strictEqual(await matcher.isPathIgnored(path.join(folder, 'build', 'keep.txt'), false), true);
+        assert.strictEqual(await matcher.isPathIgnored(path.join(folder, 'src', 'app.gen.ts'), false), true);
+        assert.strictEqual(await matcher.isPathIgnored(path.join(folder, 'src', 'keep.gen.ts'), false), false);
+        assert.strictEqual(await matcher.isPathIgnored(path.join(folder, 'src', 'app.ts'), false), false);
+    });
+
+    test('Nested ignore files, .aionignore and exclude globs combine', async () => {
+        const folder = createWorkspace({
+            '.gitignore': 'dist\n',
+            '.aionignore': 'secrets/\n',
+            'packages/web/.gitignore': '/generated\n',
+            'packages/web/generated/api.ts': '',
+            'packages/api/generated/api.ts': '',
+            'secrets/key.pem': '',
+            'fixtures/data.json': ''
+        });
+        const matcher = new IgnoreMatcher(folder, ['fixtures/**']);
+        const isIgnored = (relativePath: string) => matcher.isPathIgnored(path.join(folder, ...relativePath.split('/')), false);
+
+        assert.strictEqual(await isIgnored('packages/web/generated/api.ts'), true);
+        assert.strictEqual(await isIgnored('packages/api/generated/api.ts'), false);
+        assert.strictEqual(await isIgnored('packages/api/dist/index.js'), true);
+        assert.strictEqual(await isIgnored('secrets/key.pem'), true);
+        assert.strictEqual(await isIgnored('fixtures/data.json'), true);
+
+        // Without .gitignore files only .aionignore and the globs apply
+        const contextMatcher = new IgnoreMatcher(folder, ['fixtures/**'], false);
+        assert.strictEqual(await contextMatcher.isPathIgnored(path.join(folder, 'packages', 'web', 'generated', 'api.ts'), false), false);
+        assert.strictEqual(await contextMatcher.isPathIgnored(path.join(folder, 'secrets', 'key.pem'), false), true);
+    });
+
+    test('Paths outside the folder are ignored', async () => {
+        const folder = createWorkspace({});
+        const matcher = new IgnoreMatcher(folder);
+
+        assert.strictEqual(await matcher.isPathIgnored(path.join(folder, '..', 'elsewhere.ts'), false), true);
+        assert.strictEqual(await matcher.isPathIgnored(folder, true), false);
+    });
+});
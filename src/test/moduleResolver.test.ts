@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModuleResolver } from '../moduleResolver.js';
+
+// A monorepo with a scoped package built to dist, an unscoped one with only
+// "main", and an app importing through tsconfig paths
+const FIXTURE: Record<string, string> = {
+    'tsconfig.json': JSON.stringify({
+        compilerOptions: { baseUrl: '.', paths: { '@app/*': ['app/src/*'] } }
+    }),
+    'packages/shared/package.json': JSON.stringify({
+        name: '@ourorg/shared',
+        exports: {
+            '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+            './foo': { require: './dist/foo.cjs', import: './dist/foo.js' },
+            './entry': { default: './dist/entry.js', source: './src/entry-source.ts' },
+            './fallback': [{ worker: './dist/worker.js' }, './dist/fallback.js'],
+            './features/*': './dist/features/*.js',
+            './features/internal/*': './dist/private/*.js'
+        }
+    }),
+    'packages/shared/src/index.ts': '',
+    'packages/shared/src/foo.ts': '',
+    'packages/shared/src/entry.ts': '',
+    'packages/shared/src/entry-source.ts': '',
+    'packages/shared/src/fallback.ts': '',
+    'packages/shared/src/features/search.ts': '',
+    'packages/shared/src/private/cache.ts': '',
+    'packages/legacy/package.json': JSON.stringify({ name: 'legacy', main: 'lib/index.js' }),
+    'packages/legacy/src/index.ts': '',
+    'packages/legacy/src/util.ts': '',
+    'app/src/main.ts': '',
+    'app/src/util.ts': '',
+    'app/src/helper.mts': '',
+    'app/src/widgets/index.tsx': '',
+    'app/dist/types.d.ts': '',
+    'app/src/types.ts': '',
+    'app/static/data.json': '{}'
+};
+
+suite('Module Resolver Test Suite', () => {
+    let root: string | undefined;
+
+    teardown(() => {
+        if (root) {
+            fs.rmSync(root, { recursive: true, force: true });
+            root = undefined;
+        }
+    });
+
+    /**
+     * Writes the fixture to a temporary directory and creates a resolver knowing its packages
+     * @returns Resolver and a function turning fixture paths into absolute paths
+     */
+    function createFixture(): { resolver: ModuleResolver; file: (relativePath: string) => string } {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'aion-resolver-'));
+        const folder = root;
+        const file = (relativePath: string) => path.join(folder, ...relativePath.split('/'));
+        for (const [relativePath, content] of Object.entries(FIXTURE)) {
+            fs.mkdirSync(path.dirname(file(relativePath)), { recursive: true });
+            fs.writeFileSync(file(relativePath), content);
+        }
+
+        const resolver = new ModuleResolver();
+        resolver.reset([file('packages/shared/package.json'), file('packages/legacy/package.json')]);
+        return { resolver, file };
+    }
+
+    // Specifier imported from app/src/main.ts, and the fixture file it resolves to
+    const workspaceCases: [string, string][] = [
+        // Conditions are tried in preference order, and dist maps back to src
+        ['@ourorg/shared', 'packages/shared/src/index.ts'],
+        ['@ourorg/shared/foo', 'packages/shared/src/foo.ts'],
+        ['@ourorg/shared/entry', 'packages/shared/src/entry-source.ts'],
+        ['@ourorg/shared/fallback', 'packages/shared/src/fallback.ts'],
+        // Patterns substitute the matched text; the longest prefix wins
+        ['@ourorg/shared/features/search', 'packages/shared/src/features/search.ts'],
+        ['@ourorg/shared/features/internal/cache', 'packages/shared/src/private/cache.ts'],
+        // Without exports, main and subpaths fall back to the sources
+        ['legacy', 'packages/legacy/src/index.ts'],
+        ['legacy/util', 'packages/legacy/src/util.ts'],
+        // tsconfig paths and relative imports
+        ['@app/util', 'app/src/util.ts'],
+        ['./util.js', 'app/src/util.ts'],
+        ['./widgets', 'app/src/widgets/index.tsx'],
+        ['../static/data.json', 'app/static/data.json']
+    ];
+
+    for (const [specifier, expected] of workspaceCases) {
+        test(`${specifier} resolves to ${expected}`, () => {
+            const { resolver, file } = createFixture();
+            assert.deepStrictEqual(resolver.resolve(specifier, file('app/src/main.ts')), {
+                resolvedPath: file(expected),
+                isExternal: false
+            });
+        });
+    }
+
+    test('Packages that are not installed are external', () => {
+        const { resolver, file } = createFixture();
+        assert.deepStrictEqual(resolver.resolve('lodash/fp', file('app/src/main.ts')), {
+            resolvedPath: 'lodash/fp',
+            isExternal: true
+        });
+    });
+
+    test('Missing relative imports do not resolve', () => {
+        const { resolver, file } = createFixture();
+        assert.strictEqual(resolver.resolve('./missing', file('app/src/main.ts')), undefined);
+    });
+
+    test('Workspace packages are forgotten on reset', () => {
+        const { resolver, file } = createFixture();
+        assert.strictEqual(resolver.resolve('legacy', file('app/src/main.ts'))?.isExternal, false);
+
+        resolver.reset([]);
+        assert.deepStrictEqual(resolver.resolve('legacy', file('app/src/main.ts')), { resolvedPath: 'legacy', isExternal: true });
+    });
+
+    // Candidate path, and the fixture file probing it finds
+    const probeCases: [string, string | undefined][] = [
+        ['app/src/util', 'app/src/util.ts'],
+        ['app/src/util.js', 'app/src/util.ts'],
+        ['app/src/helper.mjs', 'app/src/helper.mts'],
+        ['app/src/widgets', 'app/src/widgets/index.tsx'],
+        ['app/dist/types.d.ts', 'app/src/types.ts'],
+        ['packages/shared/dist/foo.cjs', 'packages/shared/src/foo.ts'],
+        ['app/src/missing', undefined]
+    ];
+
+    for (const [candidate, expected] of probeCases) {
+        test(`Probing ${candidate} finds ${expected}`, () => {
+            const { resolver, file } = createFixture();
+            assert.strictEqual(resolver.probeFile(file(candidate)), expected && file(expected));
+        });
+    }
+});
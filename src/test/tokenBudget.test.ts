@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import {
+    allocatePromptBudget,
+    countMessageTokens,
+    countTokens,
+    fitAnswerTokens,
+    formatTokenCount,
+    getContextWindow,
+    truncateToTokens
+} from '../tokenBudget.js';
+
+suite('Token Budget Test Suite', () => {
+    // Text and its token count; prose and short code match DeepSeek's and GPT's tokenizers exactly
+    const countCases: [string, number][] = [
+        ['', 0],
+        ['hello', 1],
+        ['Hello world', 2],
+        ['hello world, how are you?', 7],
+        ['const x = 42;', 6],
+        ['foo(bar);', 3],
+        ['don\'t', 2],
+        // Identifiers split where the case changes, long words every few letters
+        ['getUserName', 3],
+        ['XMLHttpRequest', 3],
+        ['supercalifragilistic', 4],
+        // Numbers in groups of up to three digits
+        ['12345678', 3],
+        // Whitespace runs merge
+        ['    ', 1],
+        ['\n\n\n', 1],
+        // Han characters are a token each, other non-ASCII letters take more than English
+        ['你好世界', 4],
+        ['naïve café', 4],
+        ['function add(a, b) {\n    return a + b;\n}', 14]
+    ];
+
+    for (const [text, expected] of countCases) {
+        test(`${JSON.stringify(text)} counts ${expected} tokens`, () => {
+            assert.strictEqual(countTokens(text), expected);
+        });
+    }
+
+    test('Messages count the chat format around them', () => {
+        assert.strictEqual(countMessageTokens([]), 0);
+        assert.strictEqual(countMessageTokens([
+            { role: 'system', content: 'hello' },
+            { role: 'user', content: 'Hello world' }
+        ]), 1 + 4 + 2 + 4);
+    });
+
+    test('Text within the budget is kept whole', () => {
+        assert.deepStrictEqual(truncateToTokens('one\ntwo', 10), { text: 'one\ntwo', truncated: false });
+    });
+
+    test('Truncation stops at a line boundary', () => {
+        // Each line costs its word and the line break
+        assert.deepStrictEqual(truncateToTokens('one\ntwo\nthree\nfour', 4), { text: 'one\ntwo', truncated: true });
+    });
+
+    test('A first line longer than the budget is cut in proportion', () => {
+        const { text, truncated } = truncateToTokens('a '.repeat(100), 10);
+        assert.ok(truncated);
+        assert.strictEqual(text.length, 19);
+        assert.ok(countTokens(text) <= 10);
+    });
+
+    test('A budget of nothing keeps nothing', () => {
+        assert.deepStrictEqual(truncateToTokens('one\ntwo', 0), { text: '', truncated: true });
+        assert.deepStrictEqual(truncateToTokens('one\ntwo', -5), { text: '', truncated: true });
+    });
+
+    test('The requested answer length is kept when it fits', () => {
+        assert.strictEqual(fitAnswerTokens(1000, 100, 500), 500);
+    });
+
+    test('The answer shrinks to what the prompt leaves of the window', () => {
+        // 5% of the window is kept free
+        assert.strictEqual(fitAnswerTokens(1000, 600, 500), 350);
+        assert.strictEqual(fitAnswerTokens(1000, 950, 500), 0);
+    });
+
+    test('A prompt larger than the window leaves no room at all', () => {
+        assert.ok(fitAnswerTokens(1000, 2000, 500) < 0);
+        assert.ok(fitAnswerTokens(65536, 70000, 4096) < 0);
+    });
+
+    test('The budget reserves the answer, prompt and question before context and history', () => {
+        const budget = allocatePromptBudget(1000, {
+            answerTokens: 4000,
+            systemPrompt: 'sys',
+            query: 'q',
+            maxContextTokens: 100000,
+            maxHistoryTokens: 100000
+        });
+
+        // The answer takes at most half the window; history keeps a quarter of the rest
+        assert.deepStrictEqual(budget, { contextWindow: 1000, answer: 500, system: 5, query: 5, context: 330, history: 110 });
+    });
+
+    test('Upper bounds leave the rest of the window to history', () => {
+        const budget = allocatePromptBudget(65536, {
+            answerTokens: 4096,
+            systemPrompt: 'sys',
+            query: 'q',
+            maxContextTokens: 8000,
+            maxHistoryTokens: 100000
+        });
+
+        assert.strictEqual(budget.context, 8000);
+        assert.strictEqual(budget.history, Math.floor(65536 * 0.95) - 4096 - 5 - 5 - 8000);
+    });
+
+    test('A system prompt larger than the window leaves nothing for context or history', () => {
+        const budget = allocatePromptBudget(100, {
+            answerTokens: 4000,
+            systemPrompt: 'a '.repeat(200),
+            query: 'q',
+            maxContextTokens: 100000,
+            maxHistoryTokens: 100000
+        });
+
+        assert.strictEqual(budget.context, 0);
+        assert.strictEqual(budget.history, 0);
+    });
+
+    test('Context windows are looked up by model id', () => {
+        assert.strictEqual(getContextWindow('deepseek-chat'), 65536);
+        assert.strictEqual(getContextWindow('deepseek/deepseek-coder-v2-instruct'), 131072);
+        assert.strictEqual(getContextWindow('o3-mini'), 200000);
+        assert.strictEqual(getContextWindow('some-local-model'), 32768);
+    });
+
+    test('Token counts are formatted compactly', () => {
+        assert.strictEqual(formatTokenCount(950), '950');
+        assert.strictEqual(formatTokenCount(1000), '1k');
+        assert.strictEqual(formatTokenCount(12345), '12.3k');
+        assert.strictEqual(formatTokenCount(65536), '64k');
+        assert.strictEqual(formatTokenCount(200000), '200k');
+    });
+});
@@ -0,0 +1,202 @@
+import { ChatMessage } from './deepseekapi.js';
+
+// How the tokens of one chat request are split up
+export interface PromptBudget {
+    contextWindow: number;  // Tokens the model accepts, prompt and answer together
+    answer: number;         // Reserved for the answer (sent as max_tokens)
+    system: number;         // System prompt
+    query: number;          // The question itself
+    context: number;        // Current file, selection, definitions, snippets and related files
+    history: number;        // Earlier turns of the conversation
+}
+
+// Sizes the budget is allocated from
+export interface PromptBudgetRequest {
+    answerTokens: number;   // Requested answer length
+    systemPrompt: string;
+    query: string;
+    maxContextTokens: number;   // Upper bound from `aion.context.maxTokens`
+    maxHistoryTokens: number;   // Upper bound from `aion.history.maxTokens`
+}
+
+// Known context windows by model id, first match wins
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+    [/deepseek-coder-v2/i, 131072],
+    [/deepseek-coder/i, 16384],
+    [/deepseek/i, 65536],
+    [/gpt-4\.1/i, 1047576],
+    [/gpt-4o|gpt-4-turbo/i, 128000],
+    [/gpt-3\.5/i, 16385],
+    [/(^|\/)o[134](-mini)?\b/i, 200000],
+    [/claude/i, 200000],
+    [/llama-?3\.[1-3]/i, 131072],
+    [/codellama|code-llama/i, 16384],
+    [/qwen|codestral|mistral/i, 32768]
+];
+
+// Window assumed for models missing from the table
+const DEFAULT_CONTEXT_WINDOW = 32768;
+
+// Tokens the chat format adds around each message (role markers and separators)
+const MESSAGE_OVERHEAD = 4;
+
+// Share of the window kept free because token counts are approximate
+const SAFETY_MARGIN = 0.05;
+
+// Pre-tokenizer of the DeepSeek and GPT byte-level BPE tokenizers: contractions,
+// words with one leading non-letter, numbers of up to three digits, punctuation
+// runs and whitespace
+const PRE_TOKEN = /'(?:s|t|re|ve|m|ll|d)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+// Scripts whose characters are roughly one token each
+const WIDE_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+/**
+ * Counts the tokens of a text as a byte-level BPE tokenizer such as
+ * DeepSeek's would, closely enough to budget prompts. Text is pre-tokenized
+ * exactly; each piece is then costed by how BPE merges typically cover it.
+ * @param text Text to count
+ * @returns Approximate token count
+ */
+export function countTokens(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(PRE_TOKEN)) {
+        tokens += countPieceTokens(piece);
+    }
+    return tokens;
+}
+
+/**
+ * Counts the tokens of chat messages, including the chat format around them
+ * @param messages Messages of a request
+ * @returns Approximate prompt token count
+ */
+export function countMessageTokens(messages: ChatMessage[]): number {
+    return messages.reduce((sum, message) => sum + countTokens(message.content) + MESSAGE_OVERHEAD, 0);
+}
+
+/**
+ * Cuts a text down to a token budget at a line boundary
+ * @param text Text to truncate
+ * @param maxTokens Token budget
+ * @returns Truncated text and whether anything was removed
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+    if (countTokens(text) <= maxTokens) {
+        return { text, truncated: false };
+    }
+
+    const lines = text.split('\n');
+    let used = 0;
+    let kept = 0;
+    for (const line of lines) {
+        const cost = countTokens(line) + 1;
+        if (used + cost > maxTokens) {
+            break;
+        }
+        used += cost;
+        kept++;
+    }
+
+    // A first line longer than the whole budget is cut in proportion
+    if (kept === 0) {
+        const share = Math.max(0, maxTokens) / Math.max(1, countTokens(lines[0]));
+        return { text: lines[0].slice(0, Math.floor(lines[0].length * share)), truncated: true };
+    }
+
+    return { text: lines.slice(0, kept).join('\n'), truncated: true };
+}
+
+/**
+ * Looks up the context window of a model
+ * @param model Model id, e.g. `deepseek-chat` or `deepseek/deepseek-chat`
+ * @returns Window in tokens, or a conservative default for unknown models
+ */
+export function getContextWindow(model: string): number {
+    return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Splits a model's context window between the answer, system prompt,
+ * question, file context and history. The answer, system prompt and question
+ * are reserved first; file context then gets priority over history, which is
+ * always left at least a quarter of what remains.
+ * @param contextWindow Window of the model
+ * @param request Sizes and upper bounds of each part
+ * @returns Budget of each part
+ */
+export function allocatePromptBudget(contextWindow: number, request: PromptBudgetRequest): PromptBudget {
+    const answer = Math.min(request.answerTokens, Math.floor(contextWindow / 2));
+    const system = countTokens(request.systemPrompt) + MESSAGE_OVERHEAD;
+    const query = countTokens(request.query) + MESSAGE_OVERHEAD;
+    const free = Math.max(0, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - answer - system - query);
+
+    const reservedHistory = Math.min(request.maxHistoryTokens, Math.floor(free / 4));
+    const context = Math.min(request.maxContextTokens, free - reservedHistory);
+    const history = Math.min(request.maxHistoryTokens, free - context);
+
+    return { contextWindow, answer, system, query, context, history };
+}
+
+/**
+ * Gets the answer length that still fits next to a prompt
+ * @param contextWindow Window of the model
+ * @param promptTokens Tokens of the prompt
+ * @param requested Requested answer length
+ * @returns Answer length to request, 0 or less when the prompt leaves no room
+ */
+export function fitAnswerTokens(contextWindow: number, promptTokens: number, requested: number): number {
+    return Math.min(requested, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - promptTokens);
+}
+
+/**
+ * Formats a token count compactly, e.g. 950, 12.3k or 64k
+ * @param tokens Token count
+ * @returns Formatted count
+ */
+export function formatTokenCount(tokens: number): string {
+    if (tokens < 1000) {
+        return String(tokens);
+    }
+    // Windows such as 65536 are quoted in binary thousands
+    if (tokens % 1024 === 0) {
+        return `${tokens / 1024}k`;
+    }
+    const thousands = tokens / 1000;
+    return thousands >= 100 ? `${Math.round(thousands)}k` : `${parseFloat(thousands.toFixed(1))}k`;
+}
+
+/**
+ * Costs one pre-token
+ * @param piece Pre-token
+ * @returns Approximate token count
+ */
+function countPieceTokens(piece: string): number {
+    // Whitespace runs (indentation, blank lines) merge into few tokens
+    if (/^\s+$/.test(piece)) {
+        return Math.ceil(piece.length / 16);
+    }
+
+    if (/^\p{N}+$/u.test(piece)) {
+        return 1;
+    }
+
+    const letters = piece.match(/\p{L}+/u)?.[0];
+    if (!letters) {
+        // Punctuation and symbols: common runs such as `);` or `=>` are single tokens
+        return Math.ceil(Buffer.byteLength(piece.trim(), 'utf8') / 3) || 1;
+    }
+
+    const wide = letters.match(WIDE_CHARACTER)?.length ?? 0;
+    if (wide > 0) {
+        return wide + Math.ceil((letters.length - wide) / 4);
+    }
+    if (/[^\x00-\x7f]/.test(letters)) {
+        return Math.ceil(Buffer.byteLength(letters, 'utf8') / 3);
+    }
+
+    // Common words are single merges; identifiers split where the case changes
+    return letters
+        .split(/(?<=[a-z])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+        .reduce((sum, word) => sum + (word.length <= 10 ? 1 : Math.ceil(word.length / 5)), 0);
+}
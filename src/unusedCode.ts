@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import * as ts from 'typescript';
+import { Dependency, DependencyGraph } from './dependencyManager.js';
+import { FileInfo, FileType } from './projectScanner.js';
+import { ModuleResolver } from './moduleResolver.js';
+import { globToRegExp } from './ignoreRules.js';
+
+const readFile = promisify(fs.readFile);
+
+// An exported name that no file imports
+export interface UnusedExport {
+    file: string;           // Absolute path of the exporting file
+    name: string;           // Exported name ('default' for default exports)
+    line: number;           // 0-based line of the export
+}
+
+// An unreachable file that code loading modules by a computed path may still use
+export interface UncertainFile {
+    file: string;           // Absolute path of the unreachable file
+    loader: string;         // Closest reachable file with a Worker, or an import() or require() of a computed path
+}
+
+// Result of an unused code analysis
+export interface UnusedCodeReport {
+    entryPoints: string[];      // Files the analysis started from
+    unusedFiles: string[];      // Files no entry point reaches
+    uncertainFiles: UncertainFile[]; // Unused files in a folder below a file that loads modules dynamically
+    unusedExports: UnusedExport[];
+}
+
+// Only JavaScript and TypeScript imports name what they use; other languages are not analysed
+const ANALYSED_TYPES = new Set([FileType.JavaScript, FileType.TypeScript]);
+
+/**
+ * Finds JavaScript/TypeScript files that no entry point reaches and exports
+ * that nothing imports. Entry points are the `main`, `module`, `bin` and
+ * `exports` targets and script files of every package.json, HTML pages, test
+ * files and the globs in `aion.unusedCode.entryPoints` (tool configuration
+ * files by default). Imports of computed paths and workers cannot be followed,
+ * so unused files below a file that has them are reported as uncertain.
+ * @param graph Dependency graph of the project
+ * @returns Promise resolving to the report, with paths sorted
+ */
+export async function findUnusedCode(graph: DependencyGraph): Promise<UnusedCodeReport> {
+    const entryPoints = await findEntryPoints(graph);
+
+    // Everything an entry point imports, directly or indirectly, is in use
+    const reachable = new Set(entryPoints);
+    const queue = [...entryPoints];
+    while (queue.length > 0) {
+        const current = queue.pop()!;
+        for (const target of graph.edges.get(current)?.keys() ?? []) {
+            if (!reachable.has(target) && graph.nodes.has(target)) {
+                reachable.add(target);
+                queue.push(target);
+            }
+        }
+    }
+
+    const candidates = [...graph.nodes.values()].filter(file => ANALYSED_TYPES.has(file.type) && !isDeclarationFile(file));
+    const unusedFiles = candidates
+        .filter(file => !reachable.has(file.path))
+        .map(file => file.path)
+        .sort();
+
+    // Names imported from each file; undefined when a dependent may use any export
+    const importedNames = new Map<string, Set<string> | undefined>();
+    for (const dependencies of graph.edges.values()) {
+        for (const [target, dependency] of dependencies) {
+            if (!importedNames.has(target) || importedNames.get(target)) {
+                importedNames.set(target, mergeImportedNames(importedNames.get(target), dependency));
+            }
+        }
+    }
+
+    const entrySet = new Set(entryPoints);
+    const unusedExports: UnusedExport[] = [];
+    const loaders: string[] = [];
+    for (const file of candidates) {
+        if (!reachable.has(file.path)) {
+            continue;
+        }
+
+        const sourceFile = await parseFile(file);
+        if (!sourceFile) {
+            continue;
+        }
+        if (loadsModulesDynamically(sourceFile)) {
+            loaders.push(file.path);
+        }
+
+        // Exports of entry points are the public API; unreachable files are reported as a whole
+        const used = importedNames.has(file.path) ? importedNames.get(file.path) : new Set<string>();
+        if (entrySet.has(file.path) || !used) {
+            continue;
+        }
+
+        for (const exported of collectExports(file, sourceFile)) {
+            if (!used.has(exported.name)) {
+                unusedExports.push(exported);
+            }
+        }
+    }
+
+    // The loader in the deepest folder above the file is the likeliest to load it
+    const uncertainFiles: UncertainFile[] = [];
+    for (const file of unusedFiles) {
+        const loader = loaders
+            .filter(candidate => isInFolder(file, path.dirname(candidate)))
+            .sort((a, b) => path.dirname(b).length - path.dirname(a).length)[0];
+        if (loader) {
+            uncertainFiles.push({ file, loader });
+        }
+    }
+
+    return {
+        entryPoints: [...entryPoints].sort(),
+        unusedFiles,
+        uncertainFiles,
+        unusedExports: unusedExports.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+    };
+}
+
+/**
+ * Collects the files the project is started, built or tested from
+ * @param graph Dependency graph of the project
+ * @returns Promise resolving to paths of entry point files that are in the graph
+ */
+async function findEntryPoints(graph: DependencyGraph): Promise<string[]> {
+    const config = vscode.workspace.getConfiguration('aion');
+    const globs = [
+        ...config.get<string[]>('unusedCode.entryPoints', []),
+        ...config.get<string[]>('unusedCode.testGlobs', [])
+    ].map(globToRegExp);
+
+    const entryPoints = new Set<string>();
+    const resolver = new ModuleResolver();
+
+    for (const file of graph.nodes.values()) {
+        const relativePath = file.relativePath.split(path.sep).join('/');
+        if (file.type === FileType.HTML || globs.some(glob => glob.test(relativePath))) {
+            entryPoints.add(file.path);
+        }
+
+        if (file.name !== 'package.json') {
+            continue;
+        }
+
+        for (const target of await readManifestEntries(file.path)) {
+            // Build output such as dist/extension.js maps back to its source
+            const resolved = resolver.probeFile(path.resolve(path.dirname(file.path), target));
+            if (resolved && graph.nodes.has(resolved)) {
+                entryPoints.add(resolved);
+            }
+        }
+    }
+
+    return [...entryPoints];
+}
+
+/**
+ * Reads the paths a package.json points at: `main`, `module`, `browser`,
+ * `bin`, `exports` and files passed to commands in `scripts`
+ * @param manifestPath Absolute path of the package.json
+ * @returns Promise resolving to paths relative to the package directory
+ */
+async function readManifestEntries(manifestPath: string): Promise<string[]> {
+    let manifest: Record<string, unknown>;
+    try {
+        manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+    } catch (error) {
+        console.error(`Error reading ${manifestPath}:`, error);
+        return [];
+    }
+
+    const entries: string[] = [];
+    const collectStrings = (value: unknown) => {
+        if (typeof value === 'string') {
+            entries.push(value);
+        } else if (value && typeof value === 'object') {
+            Object.values(value).forEach(collectStrings);
+        }
+    };
+
+    collectStrings(manifest.main);
+    collectStrings(manifest.module);
+    collectStrings(manifest.browser);
+    collectStrings(manifest.bin);
+    collectStrings(manifest.exports);
+
+    // e.g. "node esbuild.mjs" or "ts-node scripts/seed.ts --force"
+    if (manifest.scripts && typeof manifest.scripts === 'object') {
+        for (const script of Object.values(manifest.scripts)) {
+            if (typeof script !== 'string') {
+                continue;
+            }
+            for (const token of script.split(/[\s;&|=]+/)) {
+                if (/^[\w./@-]+\.(c|m)?(j|t)sx?$/.test(token)) {
+                    entries.push(token);
+                }
+            }
+        }
+    }
+
+    // Export patterns like "./*" name no single file
+    return entries.filter(entry => !entry.includes('*'));
+}
+
+/**
+ * Adds the names a dependency imports to those already known for its target
+ * @param names Names imported so far
+ * @param dependency Dependency on the target
+ * @returns Merged names, or undefined when any export may be used
+ */
+function mergeImportedNames(names: Set<string> | undefined, dependency: Dependency): Set<string> | undefined {
+    // Dependencies from non-JavaScript files (HTML, Markdown, ...) do not name what they use
+    if (!dependency.symbols || dependency.symbols.includes('*')) {
+        return undefined;
+    }
+
+    const merged = names ?? new Set<string>();
+    dependency.symbols.forEach(symbol => merged.add(symbol));
+    return merged;
+}
+
+/**
+ * Parses a JavaScript/TypeScript file
+ * @param file File to parse
+ * @returns Promise resolving to the parsed file, or undefined when it cannot be read
+ */
+async function parseFile(file: FileInfo): Promise<ts.SourceFile | undefined> {
+    try {
+        const content = await readFile(file.path, 'utf-8');
+        return ts.createSourceFile(file.path, content, ts.ScriptTarget.Latest, true);
+    } catch (error) {
+        console.error(`Error reading file ${file.path}:`, error);
+        return undefined;
+    }
+}
+
+/**
+ * Checks whether a file loads code the dependency graph cannot see: workers,
+ * and `import()` or `require()` of a path computed at runtime
+ * @param sourceFile Parsed file
+ * @returns True if the file may load files by path
+ */
+function loadsModulesDynamically(sourceFile: ts.SourceFile): boolean {
+    const visit = (node: ts.Node): boolean => {
+        if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) &&
+            (node.expression.text === 'Worker' || node.expression.text === 'SharedWorker')) {
+            return true;
+        }
+        if (ts.isCallExpression(node) && node.arguments.length >= 1 && !ts.isStringLiteralLike(node.arguments[0]) &&
+            (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+                (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+            return true;
+        }
+        return ts.forEachChild(node, visit) ?? false;
+    };
+    return visit(sourceFile);
+}
+
+/**
+ * Lists the names a JavaScript/TypeScript file exports. Names re-exported
+ * with `export * from` are skipped, they cannot be known without the target.
+ * @param file File the exports belong to
+ * @param sourceFile Parsed file
+ * @returns Exports in source order
+ */
+function collectExports(file: FileInfo, sourceFile: ts.SourceFile): UnusedExport[] {
+    const exports: UnusedExport[] = [];
+    const add = (name: string, node: ts.Node) => exports.push({
+        file: file.path,
+        name,
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line
+    });
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportAssignment(statement)) {
+            // `export default x` and `export = x`
+            add('default', statement);
+            continue;
+        }
+
+        if (ts.isExportDeclaration(statement)) {
+            if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+                statement.exportClause.elements.forEach(element => add(element.name.text, element));
+            } else if (statement.exportClause && ts.isNamespaceExport(statement.exportClause)) {
+                add(statement.exportClause.name.text, statement.exportClause);
+            }
+            continue;
+        }
+
+        const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) ?? [] : [];
+        if (!modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+            continue;
+        }
+        if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+            add('default', statement);
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (ts.isIdentifier(declaration.name)) {
+                    add(declaration.name.text, declaration);
+                }
+            }
+        } else if (
+            (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) ||
+                ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) ||
+                ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) &&
+            statement.name && ts.isIdentifier(statement.name)
+        ) {
+            add(statement.name.text, statement);
+        }
+    }
+
+    return exports;
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+    return filePath.startsWith(folder + path.sep);
+}
+
+function isDeclarationFile(file: FileInfo): boolean {
+    return /\.d\.(c|m)?ts$/.test(file.name);
+}
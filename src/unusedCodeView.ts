@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectIndex } from './projectIndex.js';
+import { ContextManager } from './contextManager.js';
+import { ChatViewProvider } from './chatView.js';
+import { UnusedCodeReport, UnusedExport, findUnusedCode } from './unusedCode.js';
+
+// Node of the unused code tree
+export type UnusedCodeItem =
+    | { kind: 'group'; label: string; children: UnusedCodeItem[] }
+    | { kind: 'file'; file: string; unreachable: boolean; loader?: string; exports: UnusedExport[] }
+    | { kind: 'export'; unusedExport: UnusedExport };
+
+/**
+ * Shows files no entry point reaches and exports nothing imports, and keeps
+ * the report current while the project changes
+ */
+export class UnusedCodeProvider implements vscode.TreeDataProvider<UnusedCodeItem>, vscode.Disposable {
+    public static readonly viewType = 'aion.unusedCode';
+
+    private onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private report?: Promise<UnusedCodeReport>;
+    private disposables: vscode.Disposable[] = [];
+
+    // Coalesces bursts of index updates into one analysis
+    private refreshTimer?: NodeJS.Timeout;
+
+    /**
+     * @param projectIndex Index providing the dependency graph
+     */
+    constructor(private projectIndex: ProjectIndex) {
+        this.disposables.push(
+            this.projectIndex.onDidChange(() => {
+                // Only re-analyse once the view has asked for a report
+                if (this.report) {
+                    clearTimeout(this.refreshTimer);
+                    this.refreshTimer = setTimeout(() => this.refresh(), 2000);
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (this.report && event.affectsConfiguration('aion.unusedCode')) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    /**
+     * Discards the report; it is computed again when the view is shown
+     */
+    public refresh(): void {
+        this.report = undefined;
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    public getTreeItem(element: UnusedCodeItem): vscode.TreeItem {
+        if (element.kind === 'group') {
+            const item = new vscode.TreeItem(
+                `${element.label} (${element.children.length})`,
+                vscode.TreeItemCollapsibleState.Expanded
+            );
+            item.contextValue = 'aion.unusedGroup';
+            return item;
+        }
+
+        if (element.kind === 'file') {
+            const uri = vscode.Uri.file(element.file);
+            const item = new vscode.TreeItem(
+                uri,
+                element.exports.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+            );
+            item.description = path.dirname(vscode.workspace.asRelativePath(uri)) + (element.loader ? ' · uncertain' : '');
+            item.contextValue = element.unreachable ? 'aion.unusedFile' : 'aion.unusedExportFile';
+            item.tooltip = element.unreachable
+                ? `${vscode.workspace.asRelativePath(uri)} is not reached from any entry point`
+                : `${element.exports.length} unused export${element.exports.length === 1 ? '' : 's'}`;
+            if (element.loader) {
+                item.tooltip += `, but ${vscode.workspace.asRelativePath(element.loader)} loads modules by a computed path or as workers and may load it`;
+            }
+            item.command = { command: 'vscode.open', title: 'Open', arguments: [uri] };
+            return item;
+        }
+
+        const { file, name, line } = element.unusedExport;
+        const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.None);
+        item.description = `line ${line + 1}`;
+        item.contextValue = 'aion.unusedExport';
+        item.iconPath = new vscode.ThemeIcon('symbol-field');
+        item.tooltip = `Nothing imports ${name} from ${vscode.workspace.asRelativePath(file)}`;
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [vscode.Uri.file(file), { selection: new vscode.Range(line, 0, line, 0) }]
+        };
+        return item;
+    }
+
+    public async getChildren(element?: UnusedCodeItem): Promise<UnusedCodeItem[]> {
+        if (element) {
+            if (element.kind === 'group') {
+                return element.children;
+            }
+            if (element.kind === 'file') {
+                return element.exports.map(unusedExport => ({ kind: 'export', unusedExport }));
+            }
+            return [];
+        }
+
+        if (!vscode.workspace.workspaceFolders?.length) {
+            return [];
+        }
+
+        this.report ??= this.projectIndex.getDependencyGraph().then(findUnusedCode);
+        let report: UnusedCodeReport;
+        try {
+            report = await this.report;
+        } catch (error) {
+            console.error('Error finding unused code:', error);
+            this.report = undefined;
+            return [];
+        }
+
+        // Unused exports are grouped by file
+        const exportsByFile = new Map<string, UnusedExport[]>();
+        for (const unusedExport of report.unusedExports) {
+            const list = exportsByFile.get(unusedExport.file) ?? [];
+            list.push(unusedExport);
+            exportsByFile.set(unusedExport.file, list);
+        }
+
+        const loaders = new Map(report.uncertainFiles.map(uncertain => [uncertain.file, uncertain.loader]));
+
+        return [
+            {
+                kind: 'group',
+                label: 'Unreachable files',
+                children: report.unusedFiles.map(file => ({ kind: 'file', file, unreachable: true, loader: loaders.get(file), exports: [] }))
+            },
+            {
+                kind: 'group',
+                label: 'Unused exports',
+                children: [...exportsByFile].map(([file, exports]) => ({ kind: 'file', file, unreachable: false, exports }))
+            }
+        ];
+    }
+
+    public dispose(): void {
+        clearTimeout(this.refreshTimer);
+        this.onDidChangeTreeDataEmitter.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+}
+
+/**
+ * Moves an unreachable file to the trash after confirmation
+ * @param item Tree item of the file
+ */
+export async function deleteUnusedFile(item: UnusedCodeItem): Promise<void> {
+    if (item?.kind !== 'file' || !item.unreachable) {
+        return;
+    }
+
+    const uri = vscode.Uri.file(item.file);
+    const loaderNote = item.loader
+        ? ` ${vscode.workspace.asRelativePath(item.loader)} loads modules by a computed path or as workers though, and may load it.`
+        : '';
+    const choice = await vscode.window.showWarningMessage(
+        `Delete ${vscode.workspace.asRelativePath(uri)}? Nothing reachable from an entry point imports it.${loaderNote}`,
+        { modal: true },
+        'Move to Trash'
+    );
+    if (!choice) {
+        return;
+    }
+
+    try {
+        // The project index picks the deletion up and the view refreshes from it
+        await vscode.workspace.fs.delete(uri, { useTrash: true });
+    } catch (error) {
+        console.error(`Error deleting ${item.file}:`, error);
+        vscode.window.showErrorMessage(`Could not delete ${vscode.workspace.asRelativePath(uri)}.`);
+    }
+}
+
+/**
+ * Asks DeepSeek in the chat view whether an unused file or export can be removed
+ * @param contextManager Context builder
+ * @param chatProvider Chat view the answer is shown in
+ * @param item Tree item of the file or export
+ */
+export async function askWhetherUnusedIsSafeToRemove(
+    contextManager: ContextManager,
+    chatProvider: ChatViewProvider,
+    item: UnusedCodeItem
+): Promise<void> {
+    let filePath: string;
+    let question: string;
+    let cursor: vscode.Position | undefined;
+
+    if (item?.kind === 'file' && item.unreachable) {
+        filePath = item.file;
+        question = `No entry point of the project reaches ${vscode.workspace.asRelativePath(filePath)} through imports. ` +
+            'Is it safe to delete? Consider dynamic imports, configuration files, tooling and anything that may load it by path.' +
+            (item.loader ? ` ${vscode.workspace.asRelativePath(item.loader)} creates workers or imports computed paths.` : '');
+    } else if (item?.kind === 'file') {
+        filePath = item.file;
+        question = `Nothing in the workspace imports ${item.exports.map(unusedExport => `\`${unusedExport.name}\``).join(', ')} ` +
+            `from ${vscode.workspace.asRelativePath(filePath)}. Which of these exports are safe to remove?`;
+    } else if (item?.kind === 'export') {
+        filePath = item.unusedExport.file;
+        cursor = new vscode.Position(item.unusedExport.line, 0);
+        question = `Nothing in the workspace imports \`${item.unusedExport.name}\` from ${vscode.workspace.asRelativePath(filePath)} ` +
+            `(line ${item.unusedExport.line + 1}). Is it safe to remove the export, or the code behind it?`;
+    } else {
+        return;
+    }
+
+    const contextResult = await contextManager.createContextForFile(filePath, { cursor });
+    const context = contextManager.formatContextForAPI(contextResult);
+
+    if (!await chatProvider.ask(question, context)) {
+        vscode.window.showWarningMessage('The Deepseek Chat view could not be opened.');
+    }
+}
@@ -0,0 +1,317 @@
+import * as vscode from 'vscode';
+import { ProviderId } from './modelProvider.js';
+
+// Tokens and cost of one request
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    cost?: number;          // USD as reported by the provider (OpenRouter), otherwise priced from the model
+    estimated: boolean;     // Counted locally because the server did not report usage, e.g. for a stopped answer
+}
+
+// A request as stored in the usage log
+export interface UsageRecord extends TokenUsage {
+    time: number;           // Milliseconds since the epoch
+    workspace: string;      // Workspace id, see `getWorkspaceId`
+    session: string;        // Chat session the request belongs to
+    provider: ProviderId;
+    model: string;
+}
+
+// Sums over a set of requests
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;               // USD, priced requests only
+    unpricedRequests: number;   // Requests of models without a known price
+}
+
+// Monthly totals of one workspace, kept for good while the request log is capped
+export interface WorkspaceUsage {
+    name: string;
+    months: Record<string, UsageTotals>;   // By month, `YYYY-MM`
+}
+
+// USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// List prices by model id, first match wins; `aion.usage.prices` overrides them
+const MODEL_PRICES: [RegExp, ModelPrice][] = [
+    [/deepseek-reasoner|deepseek-r1/i, { input: 0.55, output: 2.19 }],
+    [/deepseek-chat|deepseek-v3/i, { input: 0.27, output: 1.10 }],
+    [/deepseek-coder/i, { input: 0.14, output: 0.28 }],
+    [/gpt-4o-mini/i, { input: 0.15, output: 0.60 }],
+    [/gpt-4o/i, { input: 2.50, output: 10.00 }],
+    [/gpt-4\.1-nano/i, { input: 0.10, output: 0.40 }],
+    [/gpt-4\.1-mini/i, { input: 0.40, output: 1.60 }],
+    [/gpt-4\.1/i, { input: 2.00, output: 8.00 }],
+    [/gpt-3\.5/i, { input: 0.50, output: 1.50 }],
+    [/claude-3\.5-haiku|claude-haiku/i, { input: 0.80, output: 4.00 }],
+    [/claude-3\.[57]-sonnet|claude-sonnet/i, { input: 3.00, output: 15.00 }]
+];
+
+/**
+ * Records the tokens and cost of every model request. The recent requests
+ * and the monthly totals of each workspace are kept in global state, so the
+ * monthly budget covers all workspaces; the current chat session is only
+ * counted in memory.
+ */
+export class UsageTracker implements vscode.Disposable {
+    private static readonly RECORDS_KEY = 'aion.usage.records';
+    private static readonly TOTALS_KEY = 'aion.usage.totals';
+
+    // Month whose budget warning was shown, so it is shown once
+    private static readonly WARNED_KEY = 'aion.usage.budgetWarned';
+
+    // Requests kept in the log; the monthly totals are not capped
+    private static readonly MAX_RECORDS = 2000;
+
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    private session = createSessionId();
+    private sessionTotals = emptyTotals();
+
+    // Saves run one at a time, so concurrent requests each read the log and totals the previous one wrote
+    private saves: Promise<void> = Promise.resolve();
+
+    /**
+     * @param globalState Storage shared by all workspaces
+     */
+    constructor(private globalState: vscode.Memento) { }
+
+    /**
+     * Records a finished request and warns when it uses up the monthly budget
+     * @param provider Provider the request was sent to
+     * @param model Model that answered
+     * @param usage Tokens, and the cost when the provider reported it
+     * @returns Promise resolving once the request is saved
+     */
+    public record(provider: ProviderId, model: string, usage: TokenUsage): Promise<void> {
+        const record: UsageRecord = {
+            ...usage,
+            cost: usage.cost ?? estimateCost(model, usage),
+            time: Date.now(),
+            workspace: getWorkspaceId(),
+            session: this.session,
+            provider,
+            model
+        };
+
+        addToTotals(this.sessionTotals, record);
+
+        this.saves = this.saves
+            .then(() => this.save(record))
+            .catch(error => console.error('Error recording usage:', error));
+        return this.saves;
+    }
+
+    /**
+     * Adds a request to the stored totals and log
+     * @param record Request to add
+     */
+    private async save(record: UsageRecord): Promise<void> {
+        const totals = this.getWorkspaceUsage();
+        const workspace = totals[record.workspace] ??= { name: vscode.workspace.name ?? 'No workspace', months: {} };
+        workspace.months[getMonth(record.time)] ??= emptyTotals();
+        addToTotals(workspace.months[getMonth(record.time)], record);
+
+        const records = [...this.getRecords(), record].slice(-UsageTracker.MAX_RECORDS);
+
+        try {
+            await this.globalState.update(UsageTracker.TOTALS_KEY, totals);
+            await this.globalState.update(UsageTracker.RECORDS_KEY, records);
+        } catch (error) {
+            console.error('Error saving usage:', error);
+        }
+
+        this.onDidChangeEmitter.fire();
+        await this.warnWhenOverBudget();
+    }
+
+    /**
+     * Starts a new chat session, e.g. when the chat is cleared
+     */
+    public startSession(): void {
+        this.session = createSessionId();
+        this.sessionTotals = emptyTotals();
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * Gets the totals of the current chat session
+     * @returns Session totals
+     */
+    public getSessionTotals(): UsageTotals {
+        return { ...this.sessionTotals };
+    }
+
+    /**
+     * Gets the monthly totals of every workspace
+     * @returns Totals by workspace id
+     */
+    public getWorkspaceUsage(): Record<string, WorkspaceUsage> {
+        // Copied so callers never change the stored object in place
+        return structuredClone(this.globalState.get<Record<string, WorkspaceUsage>>(UsageTracker.TOTALS_KEY, {}));
+    }
+
+    /**
+     * Gets the logged requests
+     * @returns Requests, oldest first
+     */
+    public getRecords(): UsageRecord[] {
+        return this.globalState.get<UsageRecord[]>(UsageTracker.RECORDS_KEY, []);
+    }
+
+    /**
+     * Sums a month over all workspaces, or over one
+     * @param workspace Workspace id, or undefined for all workspaces
+     * @param month Month as `YYYY-MM`, the current one by default
+     * @returns Totals of the month
+     */
+    public getMonthTotals(workspace?: string, month: string = getMonth(Date.now())): UsageTotals {
+        const totals = emptyTotals();
+        for (const [id, usage] of Object.entries(this.getWorkspaceUsage())) {
+            const monthTotals = usage.months[month];
+            if (monthTotals && (workspace === undefined || id === workspace)) {
+                addTotals(totals, monthTotals);
+            }
+        }
+        return totals;
+    }
+
+    /**
+     * Gets the monthly budget from `aion.usage.monthlyBudget`
+     * @returns Budget in USD, or undefined when none is set
+     */
+    public getMonthlyBudget(): number | undefined {
+        const budget = vscode.workspace.getConfiguration('aion').get<number>('usage.monthlyBudget', 0);
+        return budget > 0 ? budget : undefined;
+    }
+
+    /**
+     * Whether requests are refused because the monthly budget is used up
+     * and `aion.usage.budgetAction` is `block`
+     * @returns True when requests must not be sent
+     */
+    public isBlocked(): boolean {
+        const budget = this.getMonthlyBudget();
+        const action = vscode.workspace.getConfiguration('aion').get<string>('usage.budgetAction', 'warn');
+        return budget !== undefined && action === 'block' && this.getMonthTotals().cost >= budget;
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+
+    /**
+     * Shows a warning the first time this month's spending reaches the budget
+     */
+    private async warnWhenOverBudget(): Promise<void> {
+        const budget = this.getMonthlyBudget();
+        const month = getMonth(Date.now());
+        const spent = this.getMonthTotals().cost;
+        if (budget === undefined || spent < budget || this.globalState.get<string>(UsageTracker.WARNED_KEY) === month) {
+            return;
+        }
+
+        await this.globalState.update(UsageTracker.WARNED_KEY, month);
+        const blocking = vscode.workspace.getConfiguration('aion').get<string>('usage.budgetAction', 'warn') === 'block';
+        vscode.window.showWarningMessage(
+            `AION has used ${formatCost(spent)} of its ${formatCost(budget)} monthly budget.` +
+            (blocking ? ' Further requests are blocked until next month.' : ''),
+            'Show Usage',
+            'Change Budget'
+        ).then(choice => {
+            if (choice === 'Show Usage') {
+                vscode.commands.executeCommand('aion.showUsage');
+            } else if (choice) {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'aion.usage');
+            }
+        });
+    }
+}
+
+/**
+ * Looks up the price of a model, settings first
+ * @param model Model id, e.g. `deepseek-chat` or `deepseek/deepseek-chat`
+ * @returns Price per million tokens, or undefined when it is unknown
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+    const configured = vscode.workspace.getConfiguration('aion').get<Record<string, ModelPrice>>('usage.prices', {});
+    return configured[model] ?? MODEL_PRICES.find(([pattern]) => pattern.test(model))?.[1];
+}
+
+/**
+ * Prices a request from the model's list price
+ * @param model Model that answered
+ * @param usage Tokens of the request
+ * @returns Cost in USD, or undefined when the model has no known price
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | undefined {
+    const price = getModelPrice(model);
+    return price && (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Formats a cost in USD, with more digits for sub-cent amounts
+ * @param cost Cost in USD
+ * @returns Formatted cost, e.g. $1.24 or $0.0031
+ */
+export function formatCost(cost: number): string {
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Gets an id for the open workspace that stays the same across sessions
+ * @returns Workspace file or first folder URI, or `none` without a workspace
+ */
+export function getWorkspaceId(): string {
+    return (vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri)?.toString() ?? 'none';
+}
+
+/**
+ * Gets the month a time falls in, in local time
+ * @param time Milliseconds since the epoch
+ * @returns Month as `YYYY-MM`
+ */
+export function getMonth(time: number): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function emptyTotals(): UsageTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+/**
+ * Adds a request to totals
+ * @param totals Totals to update in place
+ * @param record Request to add
+ */
+export function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+    totals.requests++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    if (record.cost === undefined) {
+        totals.unpricedRequests++;
+    } else {
+        totals.cost += record.cost;
+    }
+}
+
+function addTotals(totals: UsageTotals, other: UsageTotals): void {
+    totals.requests += other.requests;
+    totals.promptTokens += other.promptTokens;
+    totals.completionTokens += other.completionTokens;
+    totals.cost += other.cost;
+    totals.unpricedRequests += other.unpricedRequests;
+}
+
+function createSessionId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import { UsageTotals, UsageTracker, addToTotals, emptyTotals, formatCost, getMonth, getWorkspaceId } from './usageTracker.js';
+import { formatTokenCount } from './tokenBudget.js';
+
+/**
+ * Status bar item with the tokens and cost of the current chat session.
+ * Its tooltip adds this month's spending; clicking it opens the usage report.
+ */
+export class UsageStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param tracker Tracker providing the totals
+     */
+    constructor(private tracker: UsageTracker) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.item.command = 'aion.showUsage';
+        this.disposables.push(
+            this.item,
+            tracker.onDidChange(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('aion.usage')) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+        this.item.show();
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private update(): void {
+        const session = this.tracker.getSessionTotals();
+        const month = this.tracker.getMonthTotals();
+        const budget = this.tracker.getMonthlyBudget();
+
+        this.item.text = `$(pulse) ${formatTokenCount(session.promptTokens + session.completionTokens)} · ${formatCost(session.cost)}`;
+        this.item.tooltip = new vscode.MarkdownString([
+            `**AION usage**`,
+            `This chat session: ${describeTotals(session)}`,
+            `This workspace this month: ${describeTotals(this.tracker.getMonthTotals(getWorkspaceId()))}`,
+            `All workspaces this month: ${describeTotals(month)}` +
+                (budget !== undefined ? `, ${formatCost(month.cost)} of the ${formatCost(budget)} budget` : ''),
+            `Click for the usage report`
+        ].join('\n\n'));
+
+        // Turns red once the budget is used up
+        this.item.backgroundColor = budget !== undefined && month.cost >= budget
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+    }
+}
+
+/**
+ * Shows the usage report in an editor panel: spending against the monthly
+ * budget, totals by workspace, month and model, and the latest requests.
+ * There is at most one panel; it updates as requests are recorded.
+ */
+export class UsageReportPanel {
+    public static readonly viewType = 'aion.usageReport';
+
+    private static current?: UsageReportPanel;
+
+    // Latest requests listed in the report
+    private static readonly RECENT_REQUESTS = 50;
+
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Opens the panel, or reveals it when it is already open
+     * @param extensionUri URI of the extension, for the webview resources
+     * @param tracker Tracker providing the usage
+     */
+    public static show(extensionUri: vscode.Uri, tracker: UsageTracker): void {
+        if (UsageReportPanel.current) {
+            UsageReportPanel.current.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            UsageReportPanel.viewType,
+            'AION Usage',
+            vscode.ViewColumn.Active,
+            { localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')] }
+        );
+        UsageReportPanel.current = new UsageReportPanel(panel, extensionUri, tracker);
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private extensionUri: vscode.Uri,
+        private tracker: UsageTracker
+    ) {
+        this.update();
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.tracker.onDidChange(() => this.update())
+        );
+    }
+
+    public dispose(): void {
+        UsageReportPanel.current = undefined;
+        this.panel.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+
+    private update(): void {
+        this.panel.webview.html = this.getWebviewContent(this.panel.webview);
+    }
+
+    /**
+     * Renders the report; it is static HTML, so the webview runs no script
+     * @param webview Webview the report is shown in
+     * @returns Report HTML
+     */
+    private getWebviewContent(webview: vscode.Webview): string {
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'usageReport.css'));
+        const month = getMonth(Date.now());
+        const monthTotals = this.tracker.getMonthTotals();
+        const budget = this.tracker.getMonthlyBudget();
+        const records = this.tracker.getRecords();
+
+        const budgetText = budget === undefined
+            ? 'No monthly budget is set (<code>aion.usage.monthlyBudget</code>).'
+            : `${formatCost(monthTotals.cost)} of the ${formatCost(budget)} monthly budget used ` +
+                `(${Math.round(monthTotals.cost / budget * 100)}%).`;
+
+        // Newest month first, then by workspace name
+        const workspaceRows = Object.values(this.tracker.getWorkspaceUsage())
+            .flatMap(usage => Object.entries(usage.months).map(([usageMonth, totals]) => ({ name: usage.name, month: usageMonth, totals })))
+            .sort((a, b) => b.month.localeCompare(a.month) || a.name.localeCompare(b.name))
+            .map(row => totalsRow([row.month, row.name], row.totals));
+
+        // Models of this month's logged requests
+        const byModel = new Map<string, UsageTotals>();
+        for (const record of records) {
+            if (getMonth(record.time) !== month) {
+                continue;
+            }
+            const key = `${record.provider}: ${record.model}`;
+            const totals = byModel.get(key) ?? emptyTotals();
+            addToTotals(totals, record);
+            byModel.set(key, totals);
+        }
+        const modelRows = [...byModel]
+            .sort(([, a], [, b]) => b.cost - a.cost || b.requests - a.requests)
+            .map(([model, totals]) => totalsRow([model], totals));
+
+        const recentRows = records.slice(-UsageReportPanel.RECENT_REQUESTS).reverse().map(record => `
+            <tr>
+                <td>${escapeHtml(new Date(record.time).toLocaleString())}</td>
+                <td>${escapeHtml(`${record.provider}: ${record.model}`)}</td>
+                <td class="number">${record.promptTokens}${record.estimated ? '*' : ''}</td>
+                <td class="number">${record.completionTokens}${record.estimated ? '*' : ''}</td>
+                <td class="number">${record.cost === undefined ? '—' : formatCost(record.cost)}</td>
+            </tr>`);
+
+        return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource};">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>AION Usage</title>
+                <link href="${styleUri}" rel="stylesheet">
+            </head>
+            <body>
+                <h1>AION Usage</h1>
+                <p class="${budget !== undefined && monthTotals.cost >= budget ? 'over-budget' : ''}">${budgetText}</p>
+                <p>This chat session: ${escapeHtml(describeTotals(this.tracker.getSessionTotals()))}</p>
+
+                <h2>By workspace and month</h2>
+                ${table(['Month', 'Workspace', 'Requests', 'Prompt tokens', 'Completion tokens', 'Cost'], workspaceRows)}
+
+                <h2>By model, ${month}</h2>
+                ${table(['Model', 'Requests', 'Prompt tokens', 'Completion tokens', 'Cost'], modelRows)}
+
+                <h2>Latest requests</h2>
+                ${table(['Time', 'Model', 'Prompt tokens', 'Completion tokens', 'Cost'], recentRows)}
+
+                <p class="note">
+                    Costs are reported by OpenRouter, or estimated from list prices (<code>aion.usage.prices</code>).
+                    — marks models without a known price and + totals that leave them out; * marks token counts
+                    estimated locally because the server reported none, e.g. for stopped answers.
+                </p>
+            </body>
+            </html>
+        `;
+    }
+}
+
+/**
+ * Summarizes totals in one line
+ * @param totals Totals to describe
+ * @returns e.g. "12 requests, 34.5k tokens, $0.04"
+ */
+function describeTotals(totals: UsageTotals): string {
+    const tokens = formatTokenCount(totals.promptTokens + totals.completionTokens);
+    const unpriced = totals.unpricedRequests > 0 ? ` (${totals.unpricedRequests} unpriced)` : '';
+    return `${totals.requests} requests, ${tokens} tokens, ${formatCost(totals.cost)}${unpriced}`;
+}
+
+function totalsRow(labels: string[], totals: UsageTotals): string {
+    return `
+            <tr>
+                ${labels.map(label => `<td>${escapeHtml(label)}</td>`).join('')}
+                <td class="number">${totals.requests}</td>
+                <td class="number">${totals.promptTokens}</td>
+                <td class="number">${totals.completionTokens}</td>
+                <td class="number">${formatTotalCost(totals)}</td>
+            </tr>`;
+}
+
+function formatTotalCost(totals: UsageTotals): string {
+    if (totals.unpricedRequests === totals.requests) {
+        return '—';
+    }
+    return formatCost(totals.cost) + (totals.unpricedRequests > 0 ? ' +' : '');
+}
+
+function table(headers: string[], rows: string[]): string {
+    if (rows.length === 0) {
+        return '<p class="note">No requests yet.</p>';
+    }
+    return `
+                <table>
+                    <tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr>
+                    ${rows.join('')}
+                </table>`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}